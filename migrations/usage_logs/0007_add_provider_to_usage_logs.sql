@@ -0,0 +1,2 @@
+ALTER TABLE usage_logs ADD COLUMN provider TEXT;
+ALTER TABLE usage_logs ADD COLUMN failover_from TEXT;
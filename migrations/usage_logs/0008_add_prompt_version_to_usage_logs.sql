@@ -0,0 +1 @@
+ALTER TABLE usage_logs ADD COLUMN prompt_version TEXT;
@@ -0,0 +1,25 @@
+CREATE TABLE `live_sessions` (
+	`id` text PRIMARY KEY,
+	`user_id` text NOT NULL,
+	`source_lang` text,
+	`target_lang` text,
+	`transcript_enabled` integer DEFAULT 0 NOT NULL,
+	`started_at` integer NOT NULL,
+	`ended_at` integer,
+	`duration_seconds` integer
+);
+
+CREATE INDEX `idx_live_sessions_user_started` ON `live_sessions` (`user_id`, `started_at`);
+
+CREATE TABLE `live_transcript_turns` (
+	`id` text PRIMARY KEY,
+	`session_id` text NOT NULL,
+	`seq` integer NOT NULL,
+	`role` text NOT NULL,
+	`direction` text,
+	`text` text NOT NULL,
+	`start_ms` integer NOT NULL,
+	`end_ms` integer NOT NULL
+);
+
+CREATE INDEX `idx_live_transcript_turns_session_seq` ON `live_transcript_turns` (`session_id`, `seq`);
@@ -0,0 +1 @@
+ALTER TABLE `live_sessions` ADD `mode` text DEFAULT 'interpret' NOT NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE usage_logs ADD COLUMN wall_seconds INTEGER;
+ALTER TABLE usage_logs ADD COLUMN metered_seconds INTEGER;
@@ -0,0 +1,5 @@
+CREATE TABLE `user_timezones` (
+	`user_id` text PRIMARY KEY,
+	`timezone` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,8 @@
+CREATE TABLE `tier_configs` (
+    `tier` text PRIMARY KEY,
+    `entitlement_ids` text DEFAULT '[]' NOT NULL,
+    `priority` integer DEFAULT 0 NOT NULL,
+    `limits` text NOT NULL,
+    `features` text NOT NULL,
+    `updated_at` integer NOT NULL
+);
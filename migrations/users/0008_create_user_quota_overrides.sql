@@ -0,0 +1,11 @@
+CREATE TABLE `user_quota_overrides` (
+    `user_id` text NOT NULL,
+    `resource_type` text NOT NULL,
+    `daily` integer NOT NULL,
+    `monthly` integer NOT NULL,
+    `total` integer,
+    `reason` text,
+    `expires_at` integer NOT NULL,
+    `created_at` integer NOT NULL,
+    PRIMARY KEY(`user_id`, `resource_type`)
+);
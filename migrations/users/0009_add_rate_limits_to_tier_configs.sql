@@ -0,0 +1 @@
+ALTER TABLE `tier_configs` ADD COLUMN `rate_limits` text DEFAULT '{}' NOT NULL;
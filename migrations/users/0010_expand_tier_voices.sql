@@ -0,0 +1,9 @@
+-- Built-in tiers still on the original Kore-only voice list get the voices they are now seeded with
+UPDATE `tier_configs` SET `features` = json_set(`features`, '$.voices', json('["Kore","Puck"]'))
+WHERE `tier` IN ('FREE', 'TRIAL_CANCELLED') AND json_extract(`features`, '$.voices') = '["Kore"]';
+
+UPDATE `tier_configs` SET `features` = json_set(`features`, '$.voices', json('["Kore","Puck","Charon","Aoede","Leda","Orus"]'))
+WHERE `tier` = 'LITE' AND json_extract(`features`, '$.voices') = '["Kore"]';
+
+UPDATE `tier_configs` SET `features` = json_set(`features`, '$.voices', json('["Kore","Puck","Zephyr","Charon","Fenrir","Leda","Orus","Aoede","Callirrhoe","Autonoe","Enceladus","Iapetus","Umbriel","Algieba","Despina","Erinome","Algenib","Rasalgethi","Laomedeia","Achernar","Alnilam","Schedar","Gacrux","Pulcherrima","Achird","Zubenelgenubi","Vindemiatrix","Sadachbia","Sadaltager","Sulafat"]'))
+WHERE `tier` IN ('PRO', 'UNLIMITED') AND json_extract(`features`, '$.voices') = '["Kore"]';
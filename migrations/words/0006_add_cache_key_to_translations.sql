@@ -0,0 +1,7 @@
+-- Migration: Key the translation cache by endpoint, model and prompt version
+-- Existing rows were all written by /translation/text
+ALTER TABLE translations ADD COLUMN endpoint TEXT NOT NULL DEFAULT 'text_translation';
+ALTER TABLE translations ADD COLUMN model TEXT;
+ALTER TABLE translations ADD COLUMN prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_translations_cache_key ON translations (source_text_hash, endpoint, source_lang, target_lang);
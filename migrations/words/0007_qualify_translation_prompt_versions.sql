@@ -0,0 +1,13 @@
+-- Migration: Prompt versions are now template ids (e.g. word@v1)
+-- Rows cached before prompt versioning were written by the v1 templates
+UPDATE translations SET model = 'gemini-3-flash-preview', prompt_version = 'v1' WHERE endpoint = 'text_translation' AND prompt_version IS NULL;
+
+UPDATE translations
+SET prompt_version = CASE endpoint
+	WHEN 'text_translation' THEN 'text@'
+	WHEN 'word_translation' THEN 'word@'
+	WHEN 'smart_translation' THEN 'smart@'
+	WHEN 'long_text_translation' THEN 'long_text@'
+	WHEN 'image_translation' THEN 'image@'
+END || prompt_version
+WHERE prompt_version NOT LIKE '%@%';
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS idx_tts_logs_cache_key ON tts_logs (text_hash, voice_name, model_name, language_code);
@@ -0,0 +1,3 @@
+ALTER TABLE `tts_logs` ADD COLUMN `format` text NOT NULL DEFAULT 'wav';
+DROP INDEX IF EXISTS idx_tts_logs_cache_key;
+CREATE INDEX IF NOT EXISTS idx_tts_logs_cache_key ON tts_logs (text_hash, voice_name, model_name, language_code, format);
@@ -0,0 +1 @@
+ALTER TABLE `tts_logs` ADD COLUMN `alignment_url` text;
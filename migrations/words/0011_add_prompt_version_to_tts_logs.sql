@@ -0,0 +1,4 @@
+-- Audio logged before prompt versioning was generated with the v1 template
+ALTER TABLE `tts_logs` ADD COLUMN `prompt_version` text NOT NULL DEFAULT 'tts@v1';
+DROP INDEX IF EXISTS idx_tts_logs_cache_key;
+CREATE INDEX IF NOT EXISTS idx_tts_logs_cache_key ON tts_logs (text_hash, voice_name, model_name, language_code, format, prompt_version);
@@ -1,6 +1,13 @@
+import { LIVE_MODES, LiveMode } from './live_modes';
+import { DEFAULT_VOICE, VOICE_NAMES } from './voices';
+
 export type ResourceType = 'text_translation' | 'text_classify' | 'image_translation' | 'live_translation' | 'tts' | 'recognition';
+// Built-in tiers. Tiers are configured in the tier_configs table (seeded from the constants below), so
+// more can be added at runtime; code that handles any tier uses plain strings.
 export type MembershipTier = 'FREE' | 'LITE' | 'PRO' | 'UNLIMITED' | 'TRIAL_CANCELLED';
 
+export const RESOURCE_TYPES: ResourceType[] = ['text_translation', 'text_classify', 'image_translation', 'live_translation', 'tts', 'recognition'];
+
 export interface Quota {
 	daily: number;
 	monthly: number;
@@ -50,10 +57,95 @@ export const TIER_LIMITS: Record<MembershipTier, Record<ResourceType, Quota>> =
 	},
 };
 
+// Active entitlements that grant each tier; the highest priority wins. FREE is the fallback and
+// TRIAL_CANCELLED is assigned from the trial state, so neither is granted by an entitlement.
+export const TIER_ENTITLEMENTS: Record<MembershipTier, { entitlementIds: string[]; priority: number }> = {
+	FREE: { entitlementIds: [], priority: 0 },
+	LITE: { entitlementIds: ['lite_member'], priority: 10 },
+	PRO: { entitlementIds: ['pro_member'], priority: 20 },
+	UNLIMITED: { entitlementIds: ['unlimited_member'], priority: 30 },
+	TRIAL_CANCELLED: { entitlementIds: [], priority: 0 },
+};
+
+export interface TierFeatures {
+	// Prebuilt voices the tier may choose; the first is the default
+	voices: string[];
+	liveModes: LiveMode[];
+	// Longest accepted base64 image for /translation/image
+	maxImageBase64Length: number;
+}
+
+export const DEFAULT_TIER_FEATURES: TierFeatures = {
+	voices: [DEFAULT_VOICE],
+	liveModes: Object.keys(LIVE_MODES) as LiveMode[],
+	maxImageBase64Length: 5_000_000,
+};
+
+// Voices each built-in tier is seeded with. Free users get one female and one male voice so dialogue
+// roles can be told apart; paid tiers unlock more of the catalogue.
+export const TIER_VOICES: Record<MembershipTier, string[]> = {
+	FREE: [DEFAULT_VOICE, 'Puck'],
+	LITE: [DEFAULT_VOICE, 'Puck', 'Charon', 'Aoede', 'Leda', 'Orus'],
+	PRO: VOICE_NAMES,
+	UNLIMITED: VOICE_NAMES,
+	TRIAL_CANCELLED: [DEFAULT_VOICE, 'Puck'],
+};
+
+// At most `requests` calls to a resource in any rolling `windowSeconds`. A tier lists several rules per
+// resource, e.g. a one-second burst cap next to a per-minute cap; all of them must pass.
+export interface RateLimitRule {
+	requests: number;
+	windowSeconds: number;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<ResourceType, RateLimitRule[]> = {
+	text_translation: [
+		{ requests: 5, windowSeconds: 1 },
+		{ requests: 20, windowSeconds: 60 },
+	],
+	text_classify: [
+		{ requests: 5, windowSeconds: 1 },
+		{ requests: 30, windowSeconds: 60 },
+	],
+	image_translation: [
+		{ requests: 2, windowSeconds: 1 },
+		{ requests: 10, windowSeconds: 60 },
+	],
+	live_translation: [
+		{ requests: 2, windowSeconds: 1 },
+		{ requests: 10, windowSeconds: 60 },
+	],
+	tts: [
+		{ requests: 5, windowSeconds: 1 },
+		{ requests: 30, windowSeconds: 60 },
+	],
+	recognition: [
+		{ requests: 5, windowSeconds: 1 },
+		{ requests: 20, windowSeconds: 60 },
+	],
+};
+
+// RevenueCat consumables that top up the live_translation credit balance, cheapest first
+export interface CreditPackage {
+	productId: string;
+	amountSeconds: number;
+}
+
+export const CREDIT_PACKAGES: CreditPackage[] = [
+	{ productId: 'packages_499', amountSeconds: 3600 }, // 1 hour
+	{ productId: 'packages_1999', amountSeconds: 36000 }, // 10 hours
+];
+
+// Only these resources fall back to credits once their quota is used up
+export const CREDIT_RESOURCE_TYPES: ResourceType[] = ['live_translation'];
+
 export const ENDPOINT_TYPE_MAP: Record<string, ResourceType> = {
 	'/translation/text': 'text_translation',
+	'/translation/smart_text': 'text_translation',
+	'/translation/correct_input': 'text_translation',
 	'/translation/longtext': 'text_translation',
 	'/translation/word': 'text_translation',
+	'/translation/batch': 'text_translation',
 	'/translation/classify': 'text_classify',
 	'/translation/image': 'image_translation',
 	'/translation/live': 'live_translation',
@@ -61,6 +153,55 @@ export const ENDPOINT_TYPE_MAP: Record<string, ResourceType> = {
 	'/translation/recognition': 'recognition',
 };
 
+// /translation/batch: each item sent to the model (not served from cache) counts as one text_translation request
+export const BATCH_LIMITS = {
+	maxItems: 50,
+	maxTextLength: 2000,
+	// Items sharing a language pair are packed into prompts of this size
+	itemsPerPrompt: 20,
+	// Packed prompts in flight at once
+	concurrency: 3,
+};
+
+// /translation/tts: longer texts are spoken sentence by sentence and stitched, each sentence cached on its own.
+// A request counts as one tts request however many sentences it generated, and is free if they were all cached.
+export const LONG_TTS_LIMITS = {
+	// Texts up to this length go to the model in one prompt
+	segmentAbove: 300,
+	maxTextLength: 5000,
+	maxSegmentLength: 300,
+	// Sentences synthesized at once
+	concurrency: 4,
+};
+
+// Live sessions warn the client as its live_translation budget (quota plus credits) runs low, then close
+export const LIVE_SESSION_LIMITS = {
+	// Remaining seconds at which a quota_warning control frame is sent
+	warningSeconds: [60, 10],
+	// Close code sent to the client when the budget is exhausted (4000-4999 are reserved for applications)
+	quotaExceededCloseCode: 4002,
+	// Wait before each attempt to reconnect to Gemini after it dropped; the client socket stays open meanwhile
+	reconnectDelaysMs: [0, 1000, 3000],
+	// Client frames held until a new Gemini connection has acknowledged its setup; the oldest are dropped beyond this
+	maxBufferedFrames: 300,
+	// Gemini close codes not worth retrying (invalid payload, policy violation such as a bad key)
+	fatalUpstreamCloseCodes: [1007, 1008],
+	// Close code sent to the client when Gemini cannot be reached again
+	upstreamLostCloseCode: 1011,
+	// A session with no audio in either direction for this long is closed
+	idleTimeoutSeconds: 120,
+	idleCloseCode: 4003,
+};
+
+// Moving to another time zone shifts the daily and monthly usage periods, so switching back and forth would open a fresh
+// daily quota each time; a user may change zones once per interval (the first report is always accepted)
+export const TIMEZONE_CHANGE_INTERVAL_DAYS = 30;
+
+// Endpoints that call a provider; only these are rate limited
+export function isMeteredPath(pathname: string): boolean {
+	return Object.keys(ENDPOINT_TYPE_MAP).some((path) => pathname.includes(path));
+}
+
 export function getResourceTypeFromUrl(pathname: string): ResourceType {
 	for (const [path, type] of Object.entries(ENDPOINT_TYPE_MAP)) {
 		if (pathname.includes(path)) {
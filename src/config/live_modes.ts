@@ -0,0 +1,65 @@
+import { PromptName } from './prompts';
+
+// Server-defined presets for /translation/live, chosen with the `mode` query parameter
+
+export type LiveMode = 'interpret' | 'one_way' | 'subtitles' | 'lecture' | 'tutor';
+
+export interface LiveModePreset {
+	prompt: PromptName;
+	// Pricing key in PRICING_PER_1M_LIVE; Gemini is sent `models/${model}`
+	model: string;
+	responseModalities: ('AUDIO' | 'TEXT')[];
+	// Silence that ends a turn when automatic activity detection is on
+	silenceDurationMs: number;
+	// live_translation seconds charged per second of session
+	quotaRate: number;
+}
+
+export const DEFAULT_LIVE_MODE: LiveMode = 'interpret';
+
+export const LIVE_MODES: Record<LiveMode, LiveModePreset> = {
+	// Bidirectional interpretation between two speakers
+	interpret: {
+		prompt: 'live_system',
+		model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+		responseModalities: ['AUDIO'],
+		silenceDurationMs: 1000,
+		quotaRate: 1,
+	},
+	// Source -> target only
+	one_way: {
+		prompt: 'live_one_way',
+		model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+		responseModalities: ['AUDIO'],
+		silenceDurationMs: 1000,
+		quotaRate: 1,
+	},
+	// Captions only, no audio is played back
+	subtitles: {
+		prompt: 'live_subtitles',
+		model: 'gemini-live-2.5-flash-preview',
+		responseModalities: ['TEXT'],
+		silenceDurationMs: 1000,
+		quotaRate: 0.5,
+	},
+	// One-way with longer pauses tolerated before a turn is translated
+	lecture: {
+		prompt: 'live_one_way',
+		model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+		responseModalities: ['AUDIO'],
+		silenceDurationMs: 3000,
+		quotaRate: 1,
+	},
+	// Conversation practice in the target language with gentle grammar corrections
+	tutor: {
+		prompt: 'live_tutor',
+		model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+		responseModalities: ['AUDIO'],
+		silenceDurationMs: 1500,
+		quotaRate: 1,
+	},
+};
+
+export function isLiveMode(mode: string): mode is LiveMode {
+	return Object.prototype.hasOwnProperty.call(LIVE_MODES, mode);
+}
@@ -38,4 +38,11 @@ export const PRICING_PER_1M_LIVE: Record<string, LiveApiPrice> = {
 		text_output: 2, // Assumption
 		audio_output: 12, // Assumption
 	},
+	// Half-cascade model, used where TEXT output is needed (the native audio model only speaks)
+	'gemini-live-2.5-flash-preview': {
+		text_input: 0.5, // Assumption
+		audio_input: 3, // Assumption
+		text_output: 2, // Assumption
+		audio_output: 12, // Assumption
+	},
 };
@@ -0,0 +1,404 @@
+// Versioned prompt templates. Add a new version instead of editing one in place: the version id is
+// recorded on usage_logs and in translation cache keys, so editing an existing version would mix results.
+//
+// Syntax: {{name}} interpolates an escaped value, {{{name}}} a raw one, and {{#name}}...{{/name}} renders
+// the enclosed block only when the value is non-empty.
+
+export type PromptName =
+	| 'live_system'
+	| 'live_one_way'
+	| 'live_subtitles'
+	| 'live_tutor'
+	| 'text'
+	| 'word'
+	| 'smart'
+	| 'word_card_repair'
+	| 'long_text'
+	| 'batch'
+	| 'image'
+	| 'classify'
+	| 'correction'
+	| 'intent'
+	| 'tts';
+
+export interface PromptTemplate {
+	defaultVersion: string;
+	versions: Record<string, string>;
+}
+
+export interface PromptExperiment {
+	// Part of the bucketing seed: renaming it reshuffles users
+	id: string;
+	// Weights are relative; users outside every variant fall back to the default version
+	variants: { version: string; weight: number }[];
+}
+
+export const PROMPT_TEMPLATES: Record<PromptName, PromptTemplate> = {
+	// Live bidirectional speech translation (system instruction)
+	live_system: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+    你是专业的双向实时语音翻译员。
+    你将听到 {{sourceLangName}} 或 {{targetLangName}} 的语音。
+    你必须检测语言并将其翻译成另一种语言（{{sourceLangName}} -> {{targetLangName}} 或 {{targetLangName}} -> {{sourceLangName}}）。
+    仅输出翻译后的文本和音频。不要回复对话性文本，只提供翻译。
+
+    1.因此请你根据前后文进行翻译。
+    2.你听到的两种语言分别是2个不同身份的人在说话,所以你要理解这两个人的关系进行翻译.
+    3.如果说A语言,一定要翻译成B语言,无论说什么都不要理解回复,而是直接翻译.
+    4.如果说B语言,一定要翻译成A语言,无论说什么都不要理解回复,而是直接翻译.
+    `,
+		},
+	},
+	// Live one-way interpretation, also used for lectures (system instruction)
+	live_one_way: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+    你是专业的同声传译员。
+    你将听到 {{sourceLangName}} 的语音，请将其实时翻译成 {{targetLangName}}。
+    仅输出翻译后的内容。不要回复对话性文本，只提供翻译。
+
+    1.请你根据前后文进行翻译，保持讲话者的语气和术语一致。
+    2.无论听到什么，都不要回答或评论，而是直接翻译成 {{targetLangName}}。
+    3.如果听到 {{targetLangName}}，不需要翻译，保持沉默。
+    `,
+		},
+	},
+	// Live text-only subtitles (system instruction)
+	live_subtitles: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+    你是实时字幕翻译员。
+    你将听到 {{sourceLangName}} 的语音，请将其翻译成 {{targetLangName}} 字幕文本。
+    仅输出字幕文本，不要添加说明、引号或对话性回复。
+
+    1.每条字幕简洁易读，按句子输出。
+    2.无论听到什么，都不要回答或评论，而是直接翻译成 {{targetLangName}}。
+    `,
+		},
+	},
+	// Live speaking tutor (system instruction)
+	live_tutor: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+    你是一位耐心友善的 {{targetLangName}} 口语老师，学生的母语是 {{sourceLangName}}。
+    学生会用 {{targetLangName}} 和你对话练习。
+
+    1.先用 {{targetLangName}} 自然地回应学生的内容，让对话继续下去。
+    2.如果学生有语法或用词错误，温和地指出并给出正确的说法，每次只纠正最重要的一到两处。
+    3.如果学生说了 {{sourceLangName}}，帮学生用 {{targetLangName}} 表达出来，并鼓励学生跟读。
+    4.回复保持简短，语速适中，不要长篇讲解。
+    `,
+		},
+	},
+	// Text translation with word/sentence classification (/translation/text)
+	text: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `You are a smart translator. Analyze the following text and translate it from {{sourceLangName}} to {{targetLangName}}.
+        
+        Determine if the input is:
+        1. "word": A single word or short phrase.
+        2. "sentence": A single complete sentence.
+        3. "multiple_sentences": Multiple sentences or a paragraph.
+        
+        Output **ONLY** a valid JSON object with the following structure based on the type:
+        
+        Case 1: Word/Phrase
+        {
+            "type": "word",
+            "translation": "Translated word",
+            "kana": "Pronunciation (if applicable, e.g. Japanese Kana, Pinyin, otherwise null)",
+            "examples": [
+                {
+                    "original": "Example sentence 1 in {{targetLangName}}",
+                    "translation": "Example sentence 1 in {{sourceLangName}}",
+                    "kana": "Pronunciation of example 1 (if applicable)"
+                },
+                {
+                    "original": "Example sentence 2 in {{targetLangName}}",
+                    "translation": "Example sentence 2 in {{sourceLangName}}",
+                    "kana": "Pronunciation of example 2 (if applicable)"
+                }
+            ],
+            "memory_tip": "A fun or useful tip to remember this word",
+            "explanation": "Brief explanation of meaning and usage",
+            "english_word": "Apple"
+        }
+        
+        Case 2: Single Sentence
+        {
+            "type": "sentence",
+        }
+        
+        Case 3: Multiple Sentences
+        {
+            "type": "multiple_sentences",
+        }
+        
+        Do not output any other fields for Case 2 and Case 3, just the type and an empty translation string.
+
+        你所有的回答要用 "{{sourceLangName}}" 语言回答,因为你面对的用户的母语是: {{sourceLangName}}。
+        
+        Input Text:
+        "{{text}}"`,
+		},
+	},
+	// Word card (/translation/word)
+	word: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `You are a smart translator. Analyze the following text and translate it from {{targetLangName}} to {{sourceLangName}}.
+        
+        Input is verified to be a **Word** or **Phrase**.
+        
+        Output **ONLY** a valid JSON object with the following structure:
+        
+        {
+            "type": "word",
+            "origin": "{{sourceLangName}}语言的{{text}}",
+            "translation": "{{targetLang}}语言的{{text}}",
+            "kana": "Pronunciation (if applicable, e.g. Japanese Kana, Pinyin, otherwise null)",
+            "examples": [
+                {
+                    "original": "Example sentence 1 in {{targetLang}}",
+                    "translation": "Example sentence 1 in {{sourceLang}}",
+                    "kana": "Pronunciation of example 1 (if applicable)"
+                }
+            ],
+            "memory_tip": "A fun or useful tip to remember this word",
+            "explanation": "Brief explanation of meaning and usage",
+            "english_word": "English translation"
+        }
+        
+        你所有的回答要用 "{{sourceLang}}" 语言回答,因为你面对的用户的母语是: {{sourceLang}}。
+        examples要给出2个例句.
+
+        我们返回的translation都要使用{{targetLang}}语言。而origin都是{{sourceLang}}语言。
+
+        Input Text:
+        "{{text}}"`,
+		},
+	},
+	// Word card or sentence translation in one pass (/translation/smart_text)
+	smart: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+        Role: Professional Translator & Dictionary.
+        User Native Language: {{sourceLangName}}
+        Target Language: {{targetLangName}}
+        
+        Task: Analyze the input text and perform the appropriate action immediately.
+        
+        MODE 1: WORD/PHRASE (Short text, < 5 words usually)
+        If input is a word/phrase, output **ONLY** a valid JSON object (No Markdown blocks).
+        
+        Requirements for JSON:
+        1. "memory_tip" and "explanation" MUST be in **{{sourceLangName}}** (User's Native Language).
+        2. "examples" MUST contain **2 different** sentences.
+        3. "translation" MUST be the direct meaning in {{sourceLangName}}.
+        
+        Format:
+        {
+            "type": "word",
+            "original": "this word in {{sourceLangName}}",
+            "translation": "this word in {{targetLangName}}",
+            "kana": "...",
+            "examples": [
+                {"original": "{{targetLangName}}的例句", "translation": "{{sourceLangName}}的例句"},
+                {"original": "{{targetLangName}}的例句", "translation": "{{sourceLangName}}的例句"}
+            ],
+            "memory_tip": "...",
+            "explanation": "...",
+            "english_word": "..."
+        }
+        
+        MODE 2: SENTENCE/PARAGRAPH (Longer text)
+        If input is a sentence/paragraph, output **EXACTLY** this header followed immediately by the translation:
+        [[SENTENCE]]
+        (Then output the translation text stream immediately here. No conversational filler.)
+        
+        CRITICAL INSTRUCTIONS:
+        1. **NO THINKING**. Do not output "Let me think" or "Here is the translation".
+        2. **NO MARKDOWN**. Do not wrap JSON in \`\`\`json ... \`\`\`. Output raw JSON bytes.
+        3. **IMMEDIATE START**. Your first character MUST be \`{\` or \`[\` depending on the mode.
+        
+        Input:
+        "{{text}}"
+        `,
+		},
+	},
+	// One-shot retry when a word card (word or smart) fails validation; {{{prompt}}} is the original rendered prompt
+	word_card_repair: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `{{{prompt}}}
+
+        Your previous answer could not be used: {{error}}.
+        Previous answer:
+        "{{response}}"
+
+        Answer again with **ONLY** the corrected JSON object. No markdown code blocks, no comments, no trailing commas.`,
+		},
+	},
+	// Long text translation with grammar notes (/translation/longtext)
+	long_text: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+       你是一个专业的翻译员. 用户的母语是 {{sourceLangName}} ,他经常需要翻译的语言是 {{targetLangName}}.
+              
+       要求:
+       - 理解用户的输入并帮助用户翻译.
+       - 如果内容特别长,就直接翻译并输出给用户
+       - 如果句子只是一两句,我还希望你给用户讲解对应的语法,用用户的母语讲解
+       - 输出可以用markdown文本,来展示更多你想讲的数据
+       - 你要移除\"您好,作为一个专业的翻译人员, 我很乐意帮你提供...这些开头的词语\",直接开始讲解你的翻译\"
+        
+       用户的输入是:
+       "{{text}}"
+       `,
+		},
+	},
+	// Packed list translation (/translation/batch); {{{items}}} is a JSON array of strings
+	batch: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `You are a professional translator. Translate every string in the JSON array below from {{sourceLangName}} to {{targetLangName}}.
+
+        Rules:
+        - Translate each string independently and keep the input order.
+        - Return exactly {{count}} translations.
+        - Preserve placeholders (e.g. %s, %d, {name}), punctuation, markup and line breaks.
+        - Do not explain, transliterate or add notes.
+
+        Output **ONLY** a valid JSON object with this structure:
+        { "translations": ["translation of string 1", "translation of string 2"] }
+
+        Input:
+        {{{items}}}`,
+		},
+	},
+	// Image text extraction and translation (/translation/image)
+	image: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `Analyze the image and extract the text.
+           Then.
+
+           请你考虑语言背景，进行翻译。用户的母语是 {{sourceLangName}} ,目前用户希望翻译的语言是 {{targetLangName}}
+
+           Output the result in **Markdown** format.
+           - You can output what the original text is, and what the translation is, to make it easier for the user to understand and compare.
+           - Do NOT include any JSON.
+           - **Do NOT use code blocks (\`\`\`) for normal text.** content should be standard text.
+           - Just output the translated text directly.
+
+           所以请你用的所有的解释性的文字都要用用户的母语来说.
+       {{#promptUser}}\n\nUser Requirement: {{promptUser}}{{/promptUser}}`,
+		},
+	},
+	// Input classification (/translation/classify)
+	classify: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `Classify the following text into one of these types:
+           - "word" (Single word or short phrase)
+           - "sentence" (Complete sentence)
+           - "multiple_sentences" (Paragraph or multiple sentences)
+
+           Return ONLY a JSON object with a "type" field containing one of the exact strings above. Nothing else.
+
+           Input: "{{text}}"`,
+		},
+	},
+	// ASR correction from the translated output (/translation/correct_input)
+	correction: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+        You are a translation correction assistant.
+        The conversation involves two languages: {{sourceLang}} and {{targetLang}}.
+        
+        The user's speech was translated into:
+        "{{translated}}"
+        
+        Since this is the translation result, the original input MUST be in the other language (whichever of the two is NOT the language of the translation).
+        
+        The initial speech recognition (ASR) result was:
+        "{{original}}"
+        
+        The ASR result might have incorrect language detection or content errors. 
+        Your task is to ignore the flaws in the ASR and reconstruct the TRUE original speech text.
+        
+        Logic:
+        1. Identify the language of the translation ("{{translated}}").
+        2. The user's input language is the opposite one.
+        3. Reconstruct what the user said in that input language to produce this translation.
+        
+        Output ONLY the corrected original text. Do not provide explanations.
+        `,
+		},
+	},
+	// Intent extraction from recorded audio (/translation/recognition)
+	intent: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+            Process the audio file and extract the user's intent content.
+            
+            Current Context:
+            - User's native language is likely: {{sourceLangName}}
+            - User's wanna to translate language is: {{targetLangName}}
+            
+            Scenario: The user is using a Translation App. They will speak a sentence that they want to TRANSLATE.
+            
+            Your job is to extract the **exact text** the user wants to translate.
+            
+            Examples:
+            User audio: "How do you say 'Hello' in Japanese?"
+            Output: "Hello"
+            
+            User audio: "Translate 'Where is the bathroom' to Chinese."
+            Output: "Where is the bathroom"
+            
+            User audio: "Apple"
+            Output: "Apple"
+            
+            User audio: "你好" (Just the content)
+            Output: "你好"
+            
+            User audio: "Please translate this sentence: It is a beautiful day today."
+            Output: "It is a beautiful day today."
+            
+            **Critical Instruction:**
+            - Ignore all translation-related command phrases, questions, or polite wrappers in ANY language (e.g., "Translate...", "How do you say...", "...怎么说", "...totte nani?", "...번역해줘").
+            - Ignore language-related phrasing. For example, if the input is 'How do you say Hello in Japanese', we strictly want 'Hello'."
+            - Handle both prefix commands (e.g., "Translate apple") and suffix commands (e.g., "Apple in Japanese please").
+            - Extract ONLY the core content the user intends to translate.
+            - Provide the output as a simple JSON object: { "content": "THE_EXTRACTED_TEXT" }
+            - Do NOT return markdown code blocks.
+            `,
+		},
+	},
+	// Speech synthesis (/translation/tts, /translation/tts2)
+	tts: {
+		defaultVersion: 'v1',
+		versions: {
+			v1: `
+Please generate speech for the following text.
+The text is expected to be in language code: "{{languageCode}}".
+However, this language code is only a reference. If the text appears to be in a different language, please ignore the reference and speak in the detected language.
+Text to speak: "{{text}}"
+`,
+		},
+	},
+};
+
+// Active A/B experiments, keyed by prompt. Only the listed prompts are bucketed per user.
+export const PROMPT_EXPERIMENTS: Partial<Record<PromptName, PromptExperiment>> = {};
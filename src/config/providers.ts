@@ -0,0 +1,38 @@
+export type ProviderName = 'gemini' | 'openrouter';
+export type ProviderCapability = 'text' | 'word' | 'image' | 'classify' | 'correction' | 'long_text' | 'batch';
+
+// Ordered provider chain per capability: first entry is primary, the rest are failover targets
+export const PROVIDER_ROUTES: Record<ProviderCapability, ProviderName[]> = {
+	text: ['gemini', 'openrouter'],
+	word: ['openrouter', 'gemini'],
+	image: ['openrouter', 'gemini'],
+	classify: ['openrouter', 'gemini'],
+	correction: ['openrouter', 'gemini'],
+	long_text: ['openrouter', 'gemini'],
+	batch: ['openrouter', 'gemini'],
+};
+
+// Model used by each provider for a given capability (must exist in PRICING_PER_1M)
+export const PROVIDER_MODELS: Record<ProviderName, Record<ProviderCapability, string>> = {
+	gemini: {
+		text: 'gemini-3-flash-preview',
+		word: 'gemini-2.5-flash',
+		image: 'gemini-2.5-flash',
+		classify: 'gemini-2.5-flash',
+		correction: 'gemini-2.5-flash',
+		long_text: 'gemini-2.5-flash',
+		batch: 'gemini-2.5-flash',
+	},
+	openrouter: {
+		text: 'qwen/qwen3-235b-a22b-2507',
+		word: 'qwen/qwen3-235b-a22b-2507',
+		image: 'qwen/qwen3-vl-235b-a22b-instruct',
+		classify: 'qwen/qwen3-235b-a22b-2507',
+		correction: 'qwen/qwen3-235b-a22b-2507',
+		long_text: 'qwen/qwen3-235b-a22b-2507',
+		batch: 'qwen/qwen3-235b-a22b-2507',
+	},
+};
+
+// Time to wait for upstream response headers before failing over
+export const PROVIDER_TIMEOUT_MS = 15_000;
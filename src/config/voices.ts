@@ -0,0 +1,56 @@
+// Gemini TTS prebuilt voices, offered for /translation/tts and the `voice` of /translation/live.
+// Every voice speaks every supported language; `languages` are the ones we suggest it for in the app.
+
+export type VoiceGender = 'female' | 'male';
+
+export interface Voice {
+	name: string;
+	gender: VoiceGender;
+	// Google's one-word description of the voice
+	style: string;
+	languages: string[];
+}
+
+export const DEFAULT_VOICE = 'Kore';
+
+const EAST_ASIAN = ['zh-CN', 'zh-TW', 'ja-JP', 'ko-KR'];
+const EUROPEAN = ['en-US', 'fr-FR', 'de-DE', 'es-ES', 'it-IT'];
+
+export const VOICES: Voice[] = [
+	{ name: 'Kore', gender: 'female', style: 'Firm', languages: ['en-US', ...EAST_ASIAN] },
+	{ name: 'Puck', gender: 'male', style: 'Upbeat', languages: ['en-US', ...EAST_ASIAN] },
+	{ name: 'Zephyr', gender: 'female', style: 'Bright', languages: ['en-US', 'ja-JP', 'ko-KR'] },
+	{ name: 'Charon', gender: 'male', style: 'Informative', languages: ['en-US', 'zh-CN', 'ja-JP'] },
+	{ name: 'Fenrir', gender: 'male', style: 'Excitable', languages: ['en-US', 'es-ES', 'pt-BR'] },
+	{ name: 'Leda', gender: 'female', style: 'Youthful', languages: ['en-US', 'ja-JP', 'ko-KR'] },
+	{ name: 'Orus', gender: 'male', style: 'Firm', languages: ['en-US', 'de-DE', 'zh-CN'] },
+	{ name: 'Aoede', gender: 'female', style: 'Breezy', languages: EUROPEAN },
+	{ name: 'Callirrhoe', gender: 'female', style: 'Easy-going', languages: EUROPEAN },
+	{ name: 'Autonoe', gender: 'female', style: 'Bright', languages: ['en-US', 'fr-FR', 'it-IT'] },
+	{ name: 'Enceladus', gender: 'male', style: 'Breathy', languages: ['en-US', 'fr-FR'] },
+	{ name: 'Iapetus', gender: 'male', style: 'Clear', languages: ['en-US', ...EAST_ASIAN] },
+	{ name: 'Umbriel', gender: 'male', style: 'Easy-going', languages: EUROPEAN },
+	{ name: 'Algieba', gender: 'male', style: 'Smooth', languages: ['en-US', 'fr-FR', 'it-IT'] },
+	{ name: 'Despina', gender: 'female', style: 'Smooth', languages: ['en-US', 'zh-CN', 'fr-FR'] },
+	{ name: 'Erinome', gender: 'female', style: 'Clear', languages: ['en-US', ...EAST_ASIAN] },
+	{ name: 'Algenib', gender: 'male', style: 'Gravelly', languages: ['en-US', 'de-DE'] },
+	{ name: 'Rasalgethi', gender: 'male', style: 'Informative', languages: ['en-US', 'zh-CN', 'de-DE'] },
+	{ name: 'Laomedeia', gender: 'female', style: 'Upbeat', languages: ['en-US', 'es-ES', 'pt-BR'] },
+	{ name: 'Achernar', gender: 'female', style: 'Soft', languages: ['en-US', 'ja-JP', 'zh-TW'] },
+	{ name: 'Alnilam', gender: 'male', style: 'Firm', languages: ['en-US', 'de-DE', 'ru-RU'] },
+	{ name: 'Schedar', gender: 'male', style: 'Even', languages: ['en-US', ...EAST_ASIAN] },
+	{ name: 'Gacrux', gender: 'female', style: 'Mature', languages: ['en-US', 'fr-FR', 'de-DE'] },
+	{ name: 'Pulcherrima', gender: 'female', style: 'Forward', languages: ['en-US', 'es-ES', 'it-IT'] },
+	{ name: 'Achird', gender: 'male', style: 'Friendly', languages: ['en-US', 'ko-KR', 'ja-JP'] },
+	{ name: 'Zubenelgenubi', gender: 'male', style: 'Casual', languages: ['en-US', 'es-ES'] },
+	{ name: 'Vindemiatrix', gender: 'female', style: 'Gentle', languages: ['en-US', 'zh-CN', 'ja-JP'] },
+	{ name: 'Sadachbia', gender: 'male', style: 'Lively', languages: ['en-US', 'es-ES', 'pt-BR'] },
+	{ name: 'Sadaltager', gender: 'male', style: 'Knowledgeable', languages: ['en-US', 'zh-CN', 'de-DE'] },
+	{ name: 'Sulafat', gender: 'female', style: 'Warm', languages: ['en-US', 'zh-CN', 'ko-KR'] },
+];
+
+export const VOICE_NAMES = VOICES.map((voice) => voice.name);
+
+export function findVoice(name: string): Voice | undefined {
+	return VOICES.find((voice) => voice.name === name);
+}
@@ -0,0 +1,434 @@
+import { IRequest } from 'itty-router';
+import {
+	DEFAULT_RATE_LIMITS,
+	DEFAULT_TIER_FEATURES,
+	Quota,
+	RESOURCE_TYPES,
+	RateLimitRule,
+	ResourceType,
+	TierFeatures,
+} from '../config/limits';
+import { LIVE_MODES, LiveMode } from '../config/live_modes';
+import { findVoice } from '../config/voices';
+import { TierConfig, deleteTierConfig, saveTierConfig } from '../models/tier_config';
+import { UserEntitlement, getUserEntitlements } from '../models/subscription';
+import { QuotaOverride, deleteQuotaOverride, listQuotaOverrides, saveQuotaOverride } from '../models/quota_override';
+import { findUserById } from '../models/user';
+import {
+	CreditPurchase,
+	addCredits,
+	getUserCredits,
+	getUserTimeZone,
+	listCreditPurchases,
+	listRecentUsageLogs,
+	listUsageStats,
+	resetDailyUsage,
+} from '../models/usage';
+import { clearTierConfigCache, getMembership, getTierConfigs } from '../services/tiers';
+import { transcodeTtsBatch } from '../services/tts_transcode';
+import { AUDIO_FORMAT_NAMES, DEFAULT_AUDIO_FORMAT } from '../utils/audio_formats';
+import { errorResponse } from '../utils/errors';
+
+// Tiers every request can fall back to
+const BUILT_IN_TIERS = ['FREE', 'TRIAL_CANCELLED'];
+
+const RECENT_USAGE_LOGS = 50;
+// Overrides are meant to tide a user over (e.g. while a refund is processed), not to replace a tier
+const MAX_OVERRIDE_MS = 90 * 24 * 60 * 60 * 1000;
+const ADMIN_CREDIT_PRODUCT_ID = 'admin_grant';
+// Each batch downloads and re-encodes its files, so it stays well inside a request's CPU budget
+const DEFAULT_TRANSCODE_BATCH = 20;
+const MAX_TRANSCODE_BATCH = 100;
+
+function jsonResponse(body: unknown, status = 200) {
+	return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function toTierJson(config: TierConfig) {
+	return {
+		tier: config.tier,
+		entitlement_ids: config.entitlementIds,
+		priority: config.priority,
+		limits: config.limits,
+		features: {
+			voices: config.features.voices,
+			live_modes: config.features.liveModes,
+			max_image_base64_length: config.features.maxImageBase64Length,
+		},
+		rate_limits: Object.fromEntries(
+			Object.entries(config.rateLimits).map(([resource, rules]) => [
+				resource,
+				rules.map((rule) => ({ requests: rule.requests, window_seconds: rule.windowSeconds })),
+			]),
+		),
+	};
+}
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+function parseRateLimitRules(value: unknown): RateLimitRule[] | null {
+	if (!Array.isArray(value)) return null;
+	const rules = value.map((rule) => ({ requests: rule?.requests, windowSeconds: rule?.window_seconds }));
+	return rules.every((rule) => isCount(rule.requests) && rule.requests > 0 && isCount(rule.windowSeconds) && rule.windowSeconds > 0)
+		? rules
+		: null;
+}
+
+function parseQuota(value: any): Quota | null {
+	if (!value || !isCount(value.daily) || !isCount(value.monthly)) return null;
+	if (value.total !== undefined && value.total !== null && !isCount(value.total)) return null;
+	return value.total === undefined || value.total === null
+		? { daily: value.daily, monthly: value.monthly }
+		: { daily: value.daily, monthly: value.monthly, total: value.total };
+}
+
+// Fields left out keep the tier's current values; a new tier must provide limits for every resource
+function parseTierBody(tier: string, body: any, existing: TierConfig | undefined): TierConfig | string {
+	const entitlementIds = body.entitlement_ids ?? existing?.entitlementIds ?? [];
+	if (!isStringArray(entitlementIds)) return 'entitlement_ids must be an array of strings';
+
+	const priority = body.priority ?? existing?.priority ?? 0;
+	if (!Number.isInteger(priority)) return 'priority must be an integer';
+
+	const limits = { ...existing?.limits } as Record<ResourceType, Quota>;
+	for (const [resource, value] of Object.entries(body.limits ?? {})) {
+		if (!RESOURCE_TYPES.includes(resource as ResourceType)) return `Unknown resource in limits: ${resource}`;
+		const quota = parseQuota(value);
+		if (!quota) return `limits.${resource} needs non-negative integer daily and monthly (and optional total)`;
+		limits[resource as ResourceType] = quota;
+	}
+	const missing = RESOURCE_TYPES.filter((resource) => !limits[resource]);
+	if (missing.length > 0) return `Missing limits for: ${missing.join(', ')}`;
+
+	const features: TierFeatures = { ...DEFAULT_TIER_FEATURES, ...existing?.features };
+	const featuresBody = body.features ?? {};
+	if (featuresBody.voices !== undefined) {
+		if (!isStringArray(featuresBody.voices) || featuresBody.voices.length === 0)
+			return 'features.voices must be a non-empty array of strings';
+		const unknown = featuresBody.voices.filter((voice: string) => !findVoice(voice));
+		if (unknown.length > 0) return `features.voices has voices not in the catalogue: ${unknown.join(', ')}`;
+		features.voices = featuresBody.voices;
+	}
+	if (featuresBody.live_modes !== undefined) {
+		if (!isStringArray(featuresBody.live_modes) || !featuresBody.live_modes.every((mode: string) => mode in LIVE_MODES)) {
+			return `features.live_modes must only contain: ${Object.keys(LIVE_MODES).join(', ')}`;
+		}
+		features.liveModes = featuresBody.live_modes as LiveMode[];
+	}
+	if (featuresBody.max_image_base64_length !== undefined) {
+		if (!isCount(featuresBody.max_image_base64_length)) return 'features.max_image_base64_length must be a non-negative integer';
+		features.maxImageBase64Length = featuresBody.max_image_base64_length;
+	}
+
+	const rateLimits = { ...DEFAULT_RATE_LIMITS, ...existing?.rateLimits };
+	for (const [resource, value] of Object.entries(body.rate_limits ?? {})) {
+		if (!RESOURCE_TYPES.includes(resource as ResourceType)) return `Unknown resource in rate_limits: ${resource}`;
+		const rules = parseRateLimitRules(value);
+		if (!rules) return `rate_limits.${resource} must be a list of { requests, window_seconds } with positive integers`;
+		rateLimits[resource as ResourceType] = rules;
+	}
+
+	return { tier, entitlementIds, priority, limits, features, rateLimits };
+}
+
+export async function handleListTiers(request: IRequest, env: Env) {
+	const configs = [...(await getTierConfigs(env)).values()].sort((a, b) => a.priority - b.priority || a.tier.localeCompare(b.tier));
+	return jsonResponse({ tiers: configs.map(toTierJson) });
+}
+
+export async function handleSaveTier(request: IRequest, env: Env) {
+	const tier = decodeURIComponent(request.params.tier);
+	if (!/^[A-Z][A-Z0-9_]*$/.test(tier)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'Tier names are upper-case letters, digits and underscores (e.g. "PLUS")' });
+	}
+
+	let body;
+	try {
+		body = (await request.json()) as any;
+	} catch (e) {
+		return errorResponse(request, 'INVALID_JSON');
+	}
+
+	// Read through the database, not the cache, so concurrent edits are not lost to a stale copy
+	clearTierConfigCache();
+	const existing = (await getTierConfigs(env)).get(tier);
+	const config = parseTierBody(tier, body, existing);
+	if (typeof config === 'string') {
+		return errorResponse(request, 'INVALID_REQUEST', { message: config });
+	}
+
+	await saveTierConfig(env.users_db, config);
+	clearTierConfigCache();
+	console.log(`[Admin] Saved tier ${tier}:`, JSON.stringify(config));
+	return jsonResponse(toTierJson(config), existing ? 200 : 201);
+}
+
+export async function handleDeleteTier(request: IRequest, env: Env) {
+	const tier = decodeURIComponent(request.params.tier);
+	if (BUILT_IN_TIERS.includes(tier)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `${tier} cannot be deleted` });
+	}
+
+	// Make sure the table has been seeded, otherwise a later seed would bring the tier back
+	await getTierConfigs(env);
+	if (!(await deleteTierConfig(env.users_db, tier))) {
+		return errorResponse(request, 'NOT_FOUND', { message: 'Tier not found' });
+	}
+	clearTierConfigCache();
+	console.log(`[Admin] Deleted tier ${tier}`);
+	return new Response(null, { status: 204 });
+}
+
+function toEntitlementJson(entitlement: UserEntitlement) {
+	return {
+		entitlement_id: entitlement.entitlementId,
+		status: entitlement.status,
+		expires_at: entitlement.expiresAt,
+		is_trial: entitlement.isTrial === 1,
+		auto_renew: entitlement.autoRenew === 1,
+		original_app_user_id: entitlement.originalAppUserId,
+		updated_at: entitlement.updatedAt,
+	};
+}
+
+function toPurchaseJson(purchase: CreditPurchase) {
+	return {
+		id: purchase.id,
+		product_id: purchase.productId,
+		amount_seconds: purchase.amountSeconds,
+		source: purchase.source,
+		created_at: purchase.createdAt,
+	};
+}
+
+function toOverrideJson(override: QuotaOverride) {
+	return {
+		resource_type: override.resourceType,
+		daily: override.daily,
+		monthly: override.monthly,
+		total: override.total,
+		reason: override.reason,
+		expires_at: override.expiresAt,
+		active: override.expiresAt > Date.now(),
+		created_at: override.createdAt,
+	};
+}
+
+async function getMembershipJson(env: Env, userId: string) {
+	const membership = await getMembership(env, userId);
+	const entitlements = await getUserEntitlements(env.users_db, userId);
+	return {
+		tier: membership.tier,
+		is_trial_cancelled: membership.isTrialCancelled,
+		entitlements: entitlements.map(toEntitlementJson),
+	};
+}
+
+async function getCreditsJson(env: Env, userId: string) {
+	const [balance, purchases] = await Promise.all([getUserCredits(env.logs_db, userId), listCreditPurchases(env.logs_db, userId)]);
+	return { balance_seconds: balance, purchases: purchases.map(toPurchaseJson) };
+}
+
+async function readJsonBody(request: IRequest): Promise<any | null> {
+	try {
+		return await request.json();
+	} catch (e) {
+		return null;
+	}
+}
+
+export async function handleGetUser(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const user = await findUserById(env.users_db, userId);
+	if (!user) {
+		return errorResponse(request, 'NOT_FOUND', { message: 'User not found' });
+	}
+
+	const [membership, credits, stats, logs, overrides, timezone] = await Promise.all([
+		getMembershipJson(env, userId),
+		getCreditsJson(env, userId),
+		listUsageStats(env.logs_db, userId),
+		listRecentUsageLogs(env.logs_db, userId, RECENT_USAGE_LOGS),
+		listQuotaOverrides(env.users_db, userId),
+		getUserTimeZone(env.logs_db, userId),
+	]);
+
+	return jsonResponse({
+		user_id: user.id,
+		created_at: user.createdAt,
+		timezone,
+		...membership,
+		credits,
+		usage_stats: stats.map((row) => ({
+			endpoint: row.endpoint,
+			period_type: row.periodType,
+			period_value: row.periodValue,
+			count: row.count,
+			duration_seconds: row.durationSeconds,
+			total_tokens: row.totalTokens,
+		})),
+		recent_usage: logs.map((log) => ({
+			id: log.id,
+			endpoint: log.endpoint,
+			model: log.model,
+			provider: log.provider,
+			input_tokens: log.inputTokens,
+			output_tokens: log.outputTokens,
+			cost_micros: log.costMicros,
+			duration_seconds: log.durationSeconds,
+			created_at: log.createdAt,
+		})),
+		quota_overrides: overrides.map(toOverrideJson),
+	});
+}
+
+export async function handleGetUserEntitlements(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	return jsonResponse({ user_id: userId, ...(await getMembershipJson(env, userId)) });
+}
+
+export async function handleGetUserCredits(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	return jsonResponse({ user_id: userId, ...(await getCreditsJson(env, userId)) });
+}
+
+// `reference` (e.g. a support ticket id) makes the grant idempotent: the same reference is only granted once
+export async function handleGrantCredits(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const body = await readJsonBody(request);
+	if (!body) {
+		return errorResponse(request, 'INVALID_JSON');
+	}
+	if (!Number.isInteger(body.amount_seconds) || body.amount_seconds <= 0) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'amount_seconds must be a positive integer' });
+	}
+	if (body.reference !== undefined && (typeof body.reference !== 'string' || !body.reference)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'reference must be a non-empty string' });
+	}
+	if (!(await findUserById(env.users_db, userId))) {
+		return errorResponse(request, 'NOT_FOUND', { message: 'User not found' });
+	}
+
+	const id = body.reference ? `admin:${body.reference}` : `admin:${crypto.randomUUID()}`;
+	try {
+		await addCredits(env.logs_db, {
+			id,
+			userId,
+			productId: ADMIN_CREDIT_PRODUCT_ID,
+			amountSeconds: body.amount_seconds,
+			createdAt: Date.now(),
+			source: 'admin',
+		});
+	} catch (e: any) {
+		// The purchase row is written first, so a repeated reference never reaches the balance
+		if (String(e.cause?.message ?? e.message).includes('UNIQUE constraint failed')) {
+			return errorResponse(request, 'CONFLICT', { message: `Credits for reference ${body.reference} were already granted` });
+		}
+		throw e;
+	}
+
+	console.log(`[Admin] Granted ${body.amount_seconds}s of credits to user ${userId} (${id})`);
+	return jsonResponse({ user_id: userId, ...(await getCreditsJson(env, userId)) }, 201);
+}
+
+// Clears today's daily counters so the user can keep going; monthly and total usage are untouched
+export async function handleResetDailyUsage(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const body = (await readJsonBody(request)) ?? {};
+	const resourceType = body.resource_type;
+	if (resourceType !== undefined && !RESOURCE_TYPES.includes(resourceType)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `resource_type must be one of ${RESOURCE_TYPES.join(', ')}` });
+	}
+
+	const reset = await resetDailyUsage(env.logs_db, userId, resourceType);
+	console.log(`[Admin] Reset daily usage of user ${userId} (${resourceType || 'all resources'}): ${reset} rows`);
+	return jsonResponse({ user_id: userId, reset_rows: reset });
+}
+
+export async function handleListQuotaOverrides(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const overrides = await listQuotaOverrides(env.users_db, userId);
+	return jsonResponse({ user_id: userId, quota_overrides: overrides.map(toOverrideJson) });
+}
+
+export async function handleSetQuotaOverride(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const body = await readJsonBody(request);
+	if (!body) {
+		return errorResponse(request, 'INVALID_JSON');
+	}
+	if (!RESOURCE_TYPES.includes(body.resource_type)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `resource_type must be one of ${RESOURCE_TYPES.join(', ')}` });
+	}
+	const quota = parseQuota(body);
+	if (!quota) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'daily and monthly must be non-negative integers (total is optional)' });
+	}
+	const now = Date.now();
+	if (!Number.isInteger(body.expires_at) || body.expires_at <= now || body.expires_at > now + MAX_OVERRIDE_MS) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'expires_at must be a timestamp in milliseconds within the next 90 days' });
+	}
+	if (!(await findUserById(env.users_db, userId))) {
+		return errorResponse(request, 'NOT_FOUND', { message: 'User not found' });
+	}
+
+	const override: QuotaOverride = {
+		userId,
+		resourceType: body.resource_type as ResourceType,
+		daily: quota.daily,
+		monthly: quota.monthly,
+		total: quota.total ?? null,
+		reason: typeof body.reason === 'string' ? body.reason : null,
+		expiresAt: body.expires_at,
+		createdAt: now,
+	};
+	await saveQuotaOverride(env.users_db, override);
+	console.log(`[Admin] Set ${override.resourceType} override for user ${userId}:`, JSON.stringify(quota));
+	return jsonResponse(toOverrideJson(override));
+}
+
+export async function handleDeleteQuotaOverride(request: IRequest, env: Env) {
+	const userId = decodeURIComponent(request.params.id);
+	const resourceType = new URL(request.url).searchParams.get('resource_type') as ResourceType;
+	if (!RESOURCE_TYPES.includes(resourceType)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `resource_type must be one of ${RESOURCE_TYPES.join(', ')}` });
+	}
+
+	if (!(await deleteQuotaOverride(env.users_db, userId, resourceType))) {
+		return errorResponse(request, 'NOT_FOUND', { message: 'Override not found' });
+	}
+	console.log(`[Admin] Removed ${resourceType} override for user ${userId}`);
+	return new Response(null, { status: 204 });
+}
+
+// One batch of the TTS format backfill; call again with next_cursor until it comes back null
+export async function handleTranscodeTts(request: IRequest, env: Env) {
+	const body = await readJsonBody(request);
+	if (!body) {
+		return errorResponse(request, 'INVALID_JSON');
+	}
+	const targets = AUDIO_FORMAT_NAMES.filter((format) => format !== DEFAULT_AUDIO_FORMAT);
+	if (!targets.includes(body.format)) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `format must be one of ${targets.join(', ')}` });
+	}
+	const limit = body.limit ?? DEFAULT_TRANSCODE_BATCH;
+	if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_TRANSCODE_BATCH) {
+		return errorResponse(request, 'INVALID_REQUEST', { message: `limit must be an integer from 1 to ${MAX_TRANSCODE_BATCH}` });
+	}
+	if (body.cursor !== undefined && typeof body.cursor !== 'string') {
+		return errorResponse(request, 'INVALID_REQUEST', { message: 'cursor must be a string' });
+	}
+
+	const result = await transcodeTtsBatch(env, body.format, body.cursor, limit);
+	console.log(
+		`[Admin] Transcoded TTS audio to ${body.format}: ${result.transcoded} done, ${result.skipped} skipped, ${result.failed} failed`,
+	);
+	return jsonResponse({
+		format: body.format,
+		transcoded: result.transcoded,
+		skipped: result.skipped,
+		failed: result.failed,
+		next_cursor: result.nextCursor,
+	});
+}
@@ -1,17 +1,20 @@
 import { IRequest } from 'itty-router';
 import { createUser, findUserByCredential, findUserByRefreshToken, updateRefreshToken } from '../models/user';
 import { sign } from '../utils/jwt';
+import { errorResponse } from '../utils/errors';
+import { isValidTimeZone } from '../utils/timezone';
+import { saveUserTimeZone } from '../models/usage';
 
 export async function handleLogin(request: IRequest, env: Env) {
-	const body = (await request.json()) as { credential: string };
-	const { credential } = body;
+	const body = (await request.json()) as { credential: string; timezone?: string };
+	const { credential, timezone } = body;
 
 	if (!credential) {
-		return new Response('Credential is required', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['credential'] } });
 	}
 
 	if (credential.length !== 32) {
-		return new Response('Credential must be a 32-character string', { status: 400 });
+		return errorResponse(request, 'INVALID_CREDENTIAL');
 	}
 
 	let user = await findUserByCredential(env.users_db, credential);
@@ -35,6 +38,16 @@ export async function handleLogin(request: IRequest, env: Env) {
 		}
 	}
 
+	// An unrecognised zone must not block login; usage keeps its current periods
+	if (timezone && isValidTimeZone(timezone)) {
+		const nextChangeAt = await saveUserTimeZone(env.logs_db, user.id, timezone);
+		if (nextChangeAt) {
+			console.warn(`[Auth] Keeping the current timezone of ${user.id}; it can change again at ${new Date(nextChangeAt).toISOString()}`);
+		}
+	} else if (timezone) {
+		console.warn(`[Auth] Ignoring invalid timezone at login: ${timezone}`);
+	}
+
 	const now = Math.floor(Date.now() / 1000);
 	const jwtPayload = {
 		uid: user.id,
@@ -60,18 +73,18 @@ export async function handleRefresh(request: IRequest, env: Env) {
 	const { refresh_token } = body;
 
 	if (!refresh_token) {
-		return new Response('Refresh token is required', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['refresh_token'] } });
 	}
 
 	const user = await findUserByRefreshToken(env.users_db, refresh_token);
 
 	if (!user) {
-		return new Response('Invalid refresh token', { status: 401 });
+		return errorResponse(request, 'REFRESH_TOKEN_INVALID');
 	}
 
 	// Check if refresh token is expired
 	if (user.refreshTokenExpiresAt && user.refreshTokenExpiresAt < Date.now()) {
-		return new Response('Refresh token expired', { status: 401 });
+		return errorResponse(request, 'REFRESH_TOKEN_EXPIRED');
 	}
 
 	const now = Math.floor(Date.now() / 1000);
@@ -1,13 +1,16 @@
 import { upsertUserEntitlement } from '../models/subscription';
 import { findUserByCredential } from '../models/user';
 import { createDb } from '../db';
-import { creditPurchases, userCredits } from '../db/schema';
+import { creditPurchases } from '../db/schema';
+import { addCredits } from '../models/usage';
 import { sql } from 'drizzle-orm';
+import { errorResponse } from '../utils/errors';
+import { CREDIT_PACKAGES } from '../config/limits';
 
 export async function handleRevenueCatWebhook(request: Request, env: Env): Promise<Response> {
 	const authHeader = request.headers.get('Authorization');
 	if (!authHeader || authHeader !== env.REVENUECAT_WEBHOOK_SECRET) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	try {
@@ -15,7 +18,7 @@ export async function handleRevenueCatWebhook(request: Request, env: Env): Promi
 		const event = payload.event;
 
 		if (!event) {
-			return new Response('Invalid payload', { status: 400 });
+			return errorResponse(request, 'INVALID_REQUEST', { message: 'Invalid payload' });
 		}
 
 		console.log('[revenuecat-event]', event);
@@ -30,7 +33,7 @@ export async function handleRevenueCatWebhook(request: Request, env: Env): Promi
 
 		if (!appUserId) {
 			console.error('[RevenueCat] Missing app_user_id in event');
-			return new Response('Missing app_user_id', { status: 400 });
+			return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['app_user_id'] } });
 		}
 
 		// 1. Resolve internal UUID from credentials (appUserId)
@@ -119,7 +122,7 @@ export async function handleRevenueCatWebhook(request: Request, env: Env): Promi
 		return new Response('OK', { status: 200 });
 	} catch (error) {
 		console.error('Error processing RevenueCat webhook:', error);
-		return new Response('Internal Server Error', { status: 500 });
+		return errorResponse(request, 'INTERNAL_ERROR');
 	}
 }
 
@@ -128,16 +131,13 @@ async function handleConsumablePurchase(env: Env, userId: string, event: any) {
 	const productId = event.product_id;
 	const purchasedAt = event.purchased_at_ms || Date.now();
 
-	let amountSeconds = 0;
-	if (productId === 'packages_499') {
-		amountSeconds = 3600; // 1 hour
-	} else if (productId === 'packages_1999') {
-		amountSeconds = 36000; // 10 hours
-	} else {
+	const creditPackage = CREDIT_PACKAGES.find((p) => p.productId === productId);
+	if (!creditPackage) {
 		// Unknown product, maybe ignore?
 		console.warn(`[Consumable] Unknown product_id: ${productId}, ignoring.`);
 		return;
 	}
+	const amountSeconds = creditPackage.amountSeconds;
 
 	const db = createDb(env.logs_db); // Usage logs DB contains credit tables
 
@@ -156,34 +156,15 @@ async function handleConsumablePurchase(env: Env, userId: string, event: any) {
 			return;
 		}
 
-		await db
-			.insert(creditPurchases)
-			.values({
-				id: transactionId,
-				userId: userId,
-				productId: productId,
-				amountSeconds: amountSeconds,
-				createdAt: purchasedAt,
-				source: 'revenuecat',
-			})
-			.execute();
-
-		// 2. Update Balance
-		await db
-			.insert(userCredits)
-			.values({
-				userId: userId,
-				balanceSeconds: amountSeconds,
-				updatedAt: Date.now(),
-			})
-			.onConflictDoUpdate({
-				target: userCredits.userId,
-				set: {
-					balanceSeconds: sql`${userCredits.balanceSeconds} + ${amountSeconds}`,
-					updatedAt: Date.now(),
-				},
-			})
-			.execute();
+		// 2. Record purchase and update balance
+		await addCredits(env.logs_db, {
+			id: transactionId,
+			userId: userId,
+			productId: productId,
+			amountSeconds: amountSeconds,
+			createdAt: purchasedAt,
+			source: 'revenuecat',
+		});
 
 		console.log(`[Consumable] Added ${amountSeconds}s to user ${userId} for product ${productId}.`);
 	} catch (e: any) {
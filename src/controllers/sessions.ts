@@ -0,0 +1,110 @@
+import { IRequest } from 'itty-router';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { LiveSessionRecord, getLiveSession, getTranscriptTurns, listLiveSessions } from '../models/live_session';
+import { TranscriptFormat, formatTranscriptSrt, formatTranscriptText } from '../services/transcript';
+import { errorResponse } from '../utils/errors';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function toSessionJson(session: LiveSessionRecord) {
+	return {
+		id: session.id,
+		source_language: session.sourceLang,
+		target_language: session.targetLang,
+		mode: session.mode,
+		transcript_enabled: session.transcriptEnabled === 1,
+		started_at: session.startedAt,
+		ended_at: session.endedAt,
+		duration_seconds: session.durationSeconds,
+	};
+}
+
+// `?format=` wins over the Accept header; JSON is the default
+function getTranscriptFormat(request: IRequest): TranscriptFormat | null {
+	const format = new URL(request.url).searchParams.get('format');
+	if (format) {
+		return format === 'json' || format === 'text' || format === 'srt' ? format : null;
+	}
+	const accept = request.headers.get('Accept') || '';
+	if (accept.includes('application/x-subrip')) return 'srt';
+	if (accept.includes('text/plain')) return 'text';
+	return 'json';
+}
+
+export async function handleListSessions(request: IRequest, env: Env) {
+	const authReq = request as AuthenticatedRequest;
+	const params = new URL(request.url).searchParams;
+
+	const limit = Math.min(Math.max(parseInt(params.get('limit') || '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+	const before = params.get('before') ? Number(params.get('before')) : undefined;
+	if (before !== undefined && !Number.isFinite(before)) {
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'before', expected: 'a timestamp in milliseconds' } });
+	}
+
+	try {
+		const sessions = await listLiveSessions(env.logs_db, authReq.userId, limit, before);
+		return new Response(
+			JSON.stringify({
+				sessions: sessions.map(toSessionJson),
+				// Pass back as `before` to fetch the next page
+				next_before: sessions.length === limit ? sessions[sessions.length - 1].startedAt : null,
+			}),
+			{ headers: { 'Content-Type': 'application/json' } },
+		);
+	} catch (e: any) {
+		console.error('Error in handleListSessions:', e);
+		return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: e.message } });
+	}
+}
+
+export async function handleGetTranscript(request: IRequest, env: Env) {
+	const authReq = request as AuthenticatedRequest;
+
+	const format = getTranscriptFormat(request);
+	if (!format) {
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'format', expected: ['json', 'text', 'srt'] } });
+	}
+
+	try {
+		const session = await getLiveSession(env.logs_db, authReq.userId, request.params.id);
+		if (!session) {
+			return errorResponse(request, 'SESSION_NOT_FOUND');
+		}
+		if (session.transcriptEnabled !== 1) {
+			return errorResponse(request, 'TRANSCRIPT_NOT_RECORDED');
+		}
+
+		const turns = await getTranscriptTurns(env.logs_db, session.id);
+
+		if (format === 'text') {
+			return new Response(formatTranscriptText(turns), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+		}
+		if (format === 'srt') {
+			return new Response(formatTranscriptSrt(turns), {
+				headers: {
+					'Content-Type': 'application/x-subrip; charset=utf-8',
+					'Content-Disposition': `attachment; filename="${session.id}.srt"`,
+				},
+			});
+		}
+
+		return new Response(
+			JSON.stringify({
+				session: toSessionJson(session),
+				turns: turns.map((turn) => ({
+					seq: turn.seq,
+					role: turn.role,
+					direction: turn.direction,
+					text: turn.text,
+					start_ms: turn.startMs,
+					end_ms: turn.endMs,
+				})),
+			}),
+			{ headers: { 'Content-Type': 'application/json' } },
+		);
+	} catch (e: any) {
+		console.error('Error in handleGetTranscript:', e);
+		return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: e.message } });
+	}
+}
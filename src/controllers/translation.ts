@@ -1,16 +1,30 @@
 import { IRequest } from 'itty-router';
-import { AuthenticatedRequest, withAuth } from '../middleware/auth';
+import { AuthenticatedRequest, getOptionalUserId, getQuotaExceededBody, getRemainingQuota, withAuth } from '../middleware/auth';
 import { GeminiService } from '../services/gemini';
 import { CorrectionRequest, OpenRouterService } from '../services/openrouter';
+import { createStaticSseResponse } from '../services/stream';
+import { buildTranslationCacheKey, getImageCacheContent } from '../services/cache';
+import { LiveSetupOptions, buildLiveSetup } from '../services/live_setup';
+import {
+	TranslationCacheKey,
+	findCachedTranslation,
+	findCachedTranslations,
+	getCacheKeyId,
+	saveCachedTranslation,
+} from '../models/translation_cache';
+import { BATCH_LIMITS } from '../config/limits';
+import { DEFAULT_LIVE_MODE, LIVE_MODES, isLiveMode } from '../config/live_modes';
+import { DEFAULT_VOICE, VOICE_NAMES, findVoice } from '../config/voices';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getTierConfig, getUserLimits } from '../services/tiers';
 
 import { getLanguageName, normalizeLanguageTag } from '../utils/languages';
 
 const geminiService = new GeminiService();
 const openRouterService = new OpenRouterService();
 
-import { logUsage } from '../models/usage';
-import { PRICING_PER_1M, PRICING_PER_1M_LIVE } from '../config/pricing';
-import { aggregateUsage, calculateCostFromBreakdown } from '../utils/cost';
+import { getUserCredits } from '../models/usage';
+import { errorBody, errorResponse } from '../utils/errors';
 
 function isValidLanguageCode(code: string): boolean {
 	try {
@@ -27,18 +41,17 @@ export async function handleTranslation(request: IRequest, env: Env, ctx: Execut
 	// Validate auth
 	if (!authReq.userId) {
 		console.error('[Live] Unauthorized request');
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	const url = new URL(request.url);
-	const startTime = Date.now();
 
 	console.log(`[Live] New connection request from ${authReq.userId}. Params: ${url.searchParams.toString()}`);
 
 	// 1. Check WebSocket Upgrade
 	if (request.headers.get('Upgrade') !== 'websocket') {
 		console.error('[Live] Missing websocket upgrade header');
-		return new Response('Please connect via WebSocket', { status: 426 });
+		return errorResponse(request, 'WEBSOCKET_REQUIRED');
 	}
 
 	// 2. Parse Params
@@ -53,306 +66,68 @@ export async function handleTranslation(request: IRequest, env: Env, ctx: Execut
 
 	if ((sourceLangCode && !isValidLanguageCode(sourceLangCode)) || (targetLangCode && !isValidLanguageCode(targetLangCode))) {
 		console.error(`[Live] Invalid language codes: ${sourceLangCode}, ${targetLangCode}`);
-		return new Response('Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW").', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode || 'en');
 	const targetLangName = getLanguageName(targetLangCode || 'zh');
 
-	console.log(`[Live] Languages: ${sourceLangName} (${sourceLangCode}) <-> ${targetLangName} (${targetLangCode})`);
+	const modeParam = params.get('mode') || DEFAULT_LIVE_MODE;
+	if (!isLiveMode(modeParam)) {
+		console.error(`[Live] Invalid mode: ${modeParam}`);
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'mode', value: modeParam, expected: Object.keys(LIVE_MODES) } });
+	}
+
+	const tier = authReq.membershipTier || 'FREE';
+	const { features } = await getTierConfig(env, tier);
+	if (!features.liveModes.includes(modeParam)) {
+		return errorResponse(request, 'MODE_NOT_AVAILABLE', { details: { mode: modeParam, tier, available_modes: features.liveModes } });
+	}
+
+	console.log(`[Live] Languages: ${sourceLangName} (${sourceLangCode}) <-> ${targetLangName} (${targetLangCode}), mode: ${modeParam}`);
 
 	// Validate params?
 	// old.ts didn't really validate existence, just defaults.
 
 	const voiceParam = params.get('voice');
-	const allowedVoices = ['Kore'];
-	const voiceName = voiceParam && allowedVoices.includes(voiceParam) ? voiceParam : 'Kore';
-
-	// 3. System Prompt
-	const systemPrompt = `
-    你是专业的双向实时语音翻译员。
-    你将听到 ${sourceLangName} 或 ${targetLangName} 的语音。
-    你必须检测语言并将其翻译成另一种语言（${sourceLangName} -> ${targetLangName} 或 ${targetLangName} -> ${sourceLangName}）。
-    仅输出翻译后的文本和音频。不要回复对话性文本，只提供翻译。
-
-    1.因此请你根据前后文进行翻译。
-    2.你听到的两种语言分别是2个不同身份的人在说话,所以你要理解这两个人的关系进行翻译.
-    3.如果说A语言,一定要翻译成B语言,无论说什么都不要理解回复,而是直接翻译.
-    4.如果说B语言,一定要翻译成A语言,无论说什么都不要理解回复,而是直接翻译.
-    `;
-
-	const modelNameShort = 'gemini-2.5-flash-native-audio-preview-12-2025'; // Key for pricing
-	const modelVersion = `models/${modelNameShort}`; // Full model string for API
-
-	// 4. Setup Message
-	const setupToGemini = {
-		setup: {
-			model: modelVersion,
-			generationConfig: {
-				responseModalities: ['AUDIO'],
-				speechConfig: {
-					voiceConfig: {
-						prebuiltVoiceConfig: {
-							voiceName: voiceName,
-						},
-					},
-				},
-			},
-			systemInstruction: {
-				parts: [{ text: systemPrompt }],
-			},
-			realtimeInputConfig: {
-				automaticActivityDetection: {
-					disabled: params.get('vad') === '1' ? false : true,
-					startOfSpeechSensitivity: 'START_SENSITIVITY_HIGH',
-					endOfSpeechSensitivity: 'END_SENSITIVITY_LOW',
-					prefixPaddingMs: 20,
-					silenceDurationMs: 1000,
-				},
-			},
-			inputAudioTranscription: {},
-			outputAudioTranscription: {},
-		},
+	if (voiceParam && !findVoice(voiceParam)) {
+		return errorResponse(request, 'VOICE_NOT_AVAILABLE', { details: { voice: voiceParam, voices: VOICE_NAMES } });
+	}
+	if (voiceParam && !features.voices.includes(voiceParam)) {
+		return errorResponse(request, 'VOICE_NOT_IN_TIER', { details: { voice: voiceParam, tier, voices: features.voices } });
+	}
+	const voiceName = voiceParam || features.voices[0] || DEFAULT_VOICE;
+
+	// 3. Setup Message (system prompt, modalities and VAD come from the mode preset)
+	const setupOptions: LiveSetupOptions = {
+		userId: authReq.userId,
+		mode: modeParam,
+		sourceLanguage: sourceLangCode,
+		targetLanguage: targetLangCode,
+		voice: voiceName,
+		vad: params.get('vad') === '1',
 	};
-
-	// 5. Build Target URL
-	const targetUrl =
-		'https://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=' +
-		env.GEMINI_API_KEY;
-
-	try {
-		console.log(`[Live] API Key used: ${env.GEMINI_API_KEY}`);
-		console.log(`[Live] Connecting to Gemini: ${targetUrl.replace(env.GEMINI_API_KEY, '***')}`);
-
-		const proxyHeaders = new Headers(request.headers);
-
-		// 2. 剔除会导致 Google 混淆的鉴权头
-		proxyHeaders.delete('Authorization');
-		proxyHeaders.delete('Host'); // 最好也把 Host 删掉，让 fetch 自动生成
-
-		const response = await fetch(targetUrl, {
-			headers: proxyHeaders,
-			// @ts-ignore
-			webSocket: true,
-		});
-
-		const serverWebSocket = response.webSocket;
-		if (!serverWebSocket) {
-			console.error(`[Live] Failed to webSocket upgrade with Gemini. Status: ${response.status} ${response.statusText}`);
-			const text = await response.text();
-			console.error(`[Live] Error body: ${text}`);
-			return new Response('Failed to connect to Gemini backend', { status: 500 });
-		}
-
-		console.log('[Live] Connected to Gemini. Accepting client connection.');
-
-		// 6. WebSocket Pair
-		const pair = new WebSocketPair();
-		const client = pair[0];
-		const worker = pair[1];
-		worker.accept();
-		serverWebSocket.accept();
-
-		// 7. Send Setup
-		serverWebSocket.send(JSON.stringify(setupToGemini));
-
-		// Usage Tracking State
-		let usageMetadata: {
-			promptTokenCount: number;
-			candidatesTokenCount: number;
-			totalTokenCount: number;
-			promptTokensDetails: {
-				modality: 'AUDIO' | 'TEXT';
-				tokenCount: number;
-			}[];
-			responseTokensDetails: {
-				modality: 'AUDIO' | 'TEXT';
-				tokenCount: number;
-			}[];
-		} = {
-			promptTokenCount: 0,
-			candidatesTokenCount: 0,
-			totalTokenCount: 0,
-			promptTokensDetails: [
-				{
-					modality: 'AUDIO',
-					tokenCount: 0,
-				},
-				{
-					modality: 'TEXT',
-					tokenCount: 0,
-				},
-			],
-			responseTokensDetails: [
-				{
-					modality: 'TEXT',
-					tokenCount: 0,
-				},
-				{
-					modality: 'AUDIO',
-					tokenCount: 0,
-				},
-			],
-		};
-		// Store all usage events for final logging
-		const allUsageEvents: any[] = [];
-
-		// 8. Forwarding & Interception
-		worker.addEventListener('message', (event) => {
-			const data = event.data;
-			if (typeof data === 'string') {
-				try {
-					const json = JSON.parse(data);
-					if (json.setup) {
-						// Drop client setup
-						return;
-					}
-				} catch (e) {}
-				serverWebSocket.send(data);
-			} else {
-				serverWebSocket.send(data);
-			}
-		});
-
-		serverWebSocket.addEventListener('message', (event) => {
-			const data = event.data;
-
-			if (typeof data === 'string') {
-				try {
-					const json = JSON.parse(data);
-
-					// Debug: Log all keys in the message to see what we are getting
-					// console.log('[Live] Message Keys:', Object.keys(json));
-
-					// Extract Usage
-					if (json.usageMetadata) {
-						console.log('[Live] Received usage update:', JSON.stringify(json.usageMetadata));
-						usageMetadata = json.usageMetadata;
-						allUsageEvents.push(json.usageMetadata);
-					}
-					// Also check nested? Gemini docs vary.
-					// Usually top level BidiGenerateContentResponse has usageMetadata.
-				} catch (e) {}
-			} else {
-				// Binary data (audio) or potentially JSON-as-Binary
-				try {
-					// Fallback: Gemini sometimes sends JSON messages as binary frames (ArrayBuffer)
-					// Try to decode and parse
-					if (data instanceof ArrayBuffer) {
-						const text = new TextDecoder().decode(data);
-						if (text.startsWith('{') && text.includes('usageMetadata')) {
-							console.log('[Live] Decoded binary frame as text, checking for usage...');
-							const json = JSON.parse(text);
-							if (json.usageMetadata) {
-								console.log('[Live] Received usage update (from binary):', JSON.stringify(json.usageMetadata));
-								usageMetadata = json.usageMetadata;
-								allUsageEvents.push(json.usageMetadata);
-							}
-						}
-					}
-				} catch (e) {
-					// Not JSON or decoding failed, treat as normal audio binary
-				}
-				// console.log('[debug]mesage中二进制的data', data);
-			}
-			worker.send(data);
-		});
-
-		// 9. Close & Log
-		// We need to ensure we log only once.
-		let logged = false;
-
-		const closeHandler = async (evt: any) => {
-			if (logged) return;
-			logged = true;
-
-			if (evt instanceof ErrorEvent || (evt && evt.error)) {
-				console.error('[Live] Connection Error Details:', evt.message || evt.error);
-			}
-
-			console.log('[Live] Connection closing. Source:', evt && evt.type ? evt.type : 'unknown');
-
-			try {
-				worker.close(1000, 'Work complete');
-			} catch {}
-			try {
-				serverWebSocket.close(1000, 'Work complete');
-			} catch {}
-
-			// Log Usage
-			// Log Usage
-			const compiledUsage = aggregateUsage(allUsageEvents);
-			console.log(`[Live] Aggregated Usage:`, JSON.stringify(compiledUsage));
-
-			if (compiledUsage.input.total > 0 || compiledUsage.output.total > 0) {
-				const cost = calculateCostFromBreakdown(modelNameShort, compiledUsage, PRICING_PER_1M_LIVE);
-
-				if (cost > 0) {
-					const audio_input_tokens = compiledUsage.input.audio;
-					const audio_output_tokens = compiledUsage.output.audio;
-
-					// Use 'live_translation' as endpoint
-					const endTime = Date.now();
-					const durationSeconds = Math.ceil((endTime - startTime) / 1000);
-
-					// Detailed Accumulation Logging
-					console.log('--- Session Usage Summary ---');
-					console.log(`Total Usage Updates Received: ${allUsageEvents.length}`);
-					console.log(`Duration: ${durationSeconds}s`);
-					console.log(`Aggregated Breakdown:`, JSON.stringify(compiledUsage, null, 2));
-
-					console.log(`Accumulated (Sum) Prompt Tokens: ${compiledUsage.input.total}`);
-					console.log(`Accumulated (Sum) Response Tokens: ${compiledUsage.output.total}`);
-					console.log('--- End Summary ---');
-
-					console.log(`[Live] Usage logged. Duration: ${durationSeconds}s, Cost: ${cost} micros`);
-
-					// Critical: Wrap async DB write in ctx.waitUntil
-					ctx.waitUntil(
-						logUsage(
-							env.logs_db,
-							authReq.userId,
-							modelNameShort,
-							audio_input_tokens,
-							audio_output_tokens,
-							cost,
-							'live_translation',
-							undefined,
-							durationSeconds,
-							authReq.membershipTier,
-						).catch((err) => console.error('[Live] Failed to log usage:', err)),
-					);
-				} else {
-					// Fallback to standard Text Pricing if model not in MultiModal config found (unlikely)
-				}
-			} else {
-				console.log('[Live] No usage to log (Token usage is 0). This usually means failure before any content generation.');
-			}
-		};
-
-		worker.addEventListener('close', closeHandler);
-		serverWebSocket.addEventListener('close', closeHandler);
-		worker.addEventListener('error', (e) => {
-			const msg = (e as any).message || (e as any).error || JSON.stringify(e);
-			const colo = (request as any).cf?.colo || 'UNKNOWN';
-			console.error(`[Live] Worker WebSocket error (Node: ${colo}): ${msg}`);
-			closeHandler(e);
-		});
-		serverWebSocket.addEventListener('error', (e) => {
-			const msg = (e as any).message || (e as any).error || JSON.stringify(e);
-			const colo = (request as any).cf?.colo || 'UNKNOWN';
-			console.error(`[Live] Gemini WebSocket error (Node: ${colo}): ${msg}`);
-			closeHandler(e);
-		});
-
-		return new Response(null, {
-			status: 101,
-			webSocket: client,
-		});
-	} catch (err: any) {
-		console.error('[Live] Connection failed (catch block):', err);
-		return new Response('Connection failed: ' + err.message, { status: 500 });
-	}
+	const { setup: setupToGemini, model, promptVersion } = buildLiveSetup(setupOptions);
+
+	// 4. Hand the session to its own Durable Object, which owns both sockets and bills the usage
+	const remainingSeconds =
+		(await getRemainingQuota(env, authReq.userId, tier, 'live_translation')) + (await getUserCredits(env.logs_db, authReq.userId));
+
+	const session = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+	await session.init({
+		...setupOptions,
+		tier,
+		quota: await getUserLimits(env, authReq.userId, tier, 'live_translation'),
+		model,
+		promptVersion,
+		setup: setupToGemini,
+		remainingSeconds,
+		quotaRate: LIVE_MODES[modeParam].quotaRate,
+		// Opt-in: transcripts are only stored when the client asks for them
+		transcript: params.get('transcript') === '1',
+	});
+	// itty-router's request proxy cannot be passed across to the object, so forward a plain copy
+	return session.fetch(new Request(request.url, { headers: request.headers }));
 }
 
 export async function handleTextTranslation(request: IRequest, env: Env, ctx: ExecutionContext) {
@@ -361,7 +136,7 @@ export async function handleTextTranslation(request: IRequest, env: Env, ctx: Ex
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	// Validate language codes
@@ -375,34 +150,26 @@ export async function handleTextTranslation(request: IRequest, env: Env, ctx: Ex
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!text || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: text, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW")', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
 	}
 
 	// 1. Check Cache (Allow quota exceeded users to access cached content)
-	const cachedResult = await geminiService.findInCache(env, text, sourceLangCode, targetLangCode);
+	const cacheKey = await buildTranslationCacheKey(
+		'text_translation',
+		sourceLangCode,
+		targetLangCode,
+		text,
+		await getOptionalUserId(request, env),
+	);
+	const cachedResult = await findCachedTranslation(env.words_db, cacheKey);
 	if (cachedResult) {
 		console.log('Cache hit for:', text);
 		// Return cached result as SSE
-		const mimicResponse = {
-			candidates: [
-				{
-					content: { parts: [{ text: cachedResult }] },
-				},
-			],
-		};
-		const sseData = `data: ${JSON.stringify(mimicResponse)}\n\n`;
-
-		return new Response(sseData, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				Connection: 'keep-alive',
-			},
-		});
+		return createStaticSseResponse(cachedResult, { cached: true, model: cacheKey.model });
 	}
 
 	// 2. Cache Miss: Perform Authentication and Quota Check
@@ -414,7 +181,7 @@ export async function handleTextTranslation(request: IRequest, env: Env, ctx: Ex
 	// Auth success
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -430,10 +197,11 @@ export async function handleTextTranslation(request: IRequest, env: Env, ctx: Ex
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	} catch (error: any) {
 		console.error('Translation Error:', error);
-		return new Response(`Translation failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -443,7 +211,7 @@ export async function handleLongTextTranslation(request: IRequest, env: Env, ctx
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	console.log('[LongText] Request Body:', JSON.stringify(body));
@@ -456,11 +224,24 @@ export async function handleLongTextTranslation(request: IRequest, env: Env, ctx
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!text || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: text, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code: must be a valid BCP-47 language tag', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
+	}
+
+	// Check Cache First (before auth to save quota)
+	const cacheKey = await buildTranslationCacheKey(
+		'long_text_translation',
+		sourceLangCode,
+		targetLangCode,
+		text,
+		await getOptionalUserId(request, env),
+	);
+	const cachedResult = await findCachedTranslation(env.words_db, cacheKey);
+	if (cachedResult) {
+		return createStaticSseResponse(cachedResult, { cached: true, model: cacheKey.model });
 	}
 
 	// Auth Check
@@ -471,7 +252,7 @@ export async function handleLongTextTranslation(request: IRequest, env: Env, ctx
 
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -487,26 +268,20 @@ export async function handleLongTextTranslation(request: IRequest, env: Env, ctx
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	} catch (error: any) {
 		console.error('Long Text Translation Error:', error);
-		return new Response(`Translation failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
 export async function handleImageTranslation(request: IRequest, env: Env, ctx: ExecutionContext) {
-	const authReq = request as AuthenticatedRequest;
-
-	// Validate that auth middleware actually ran
-	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
-	}
-
 	let body;
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	const imageBase64 = body.image;
@@ -519,11 +294,11 @@ export async function handleImageTranslation(request: IRequest, env: Env, ctx: E
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!imageBase64 || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: image, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['image', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW")', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
 	}
 
 	// Validate Image Size (Approx 5MB Limit)
@@ -531,7 +306,37 @@ export async function handleImageTranslation(request: IRequest, env: Env, ctx: E
 	// User requested max 1024x1024, usually < 1MB.
 	// Let's set limit to 5,000,000 characters just to be safe but not too restrictive.
 	if (imageBase64.length > 5_000_000) {
-		return new Response('Image too large. Limit is approx 3MB.', { status: 413 });
+		return errorResponse(request, 'IMAGE_TOO_LARGE', { details: { max_base64_length: 5_000_000 } });
+	}
+
+	// Check Cache First (before auth to save quota)
+	const cacheKey = await buildTranslationCacheKey(
+		'image_translation',
+		sourceLangCode,
+		targetLangCode,
+		getImageCacheContent(imageBase64, promptUser),
+		await getOptionalUserId(request, env),
+	);
+	const cachedResult = await findCachedTranslation(env.words_db, cacheKey);
+	if (cachedResult) {
+		return createStaticSseResponse(cachedResult, { cached: true, model: cacheKey.model });
+	}
+
+	// Cache Miss: Perform Authentication and Quota Check
+	const authResponse = await withAuth(request, env, ctx);
+	if (authResponse) {
+		return authResponse;
+	}
+
+	const authReq = request as AuthenticatedRequest;
+	if (!authReq.userId) {
+		return errorResponse(request, 'UNAUTHORIZED');
+	}
+
+	// The size cap above applies to everyone; tiers may allow less
+	const { features } = await getTierConfig(env, authReq.membershipTier);
+	if (imageBase64.length > features.maxImageBase64Length) {
+		return errorResponse(request, 'IMAGE_TOO_LARGE', { details: { tier: authReq.membershipTier, max_base64_length: features.maxImageBase64Length } });
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -552,10 +357,11 @@ export async function handleImageTranslation(request: IRequest, env: Env, ctx: E
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	} catch (error: any) {
 		console.error('Image Translation Error:', error);
-		return new Response(`Image Translation failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -563,14 +369,14 @@ export async function handleRecognition(request: IRequest, env: Env, ctx: Execut
 	const authReq = request as AuthenticatedRequest;
 
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	let body;
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	// Input: audio (base64), source_language, target_language
@@ -582,11 +388,11 @@ export async function handleRecognition(request: IRequest, env: Env, ctx: Execut
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!audioBase64 || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: audio, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['audio', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -602,10 +408,11 @@ export async function handleRecognition(request: IRequest, env: Env, ctx: Execut
 			targetLangCode,
 			sourceLangName,
 			targetLangName,
+			ctx,
 		);
 
 		if (!recognizedText) {
-			return new Response('Failed to recognize intent', { status: 500 });
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: 'Failed to recognize intent' } });
 		}
 
 		// Return simple JSON
@@ -614,7 +421,7 @@ export async function handleRecognition(request: IRequest, env: Env, ctx: Execut
 		});
 	} catch (error: any) {
 		console.error('Recognition Error:', error);
-		return new Response(`Recognition failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -624,13 +431,13 @@ export async function handleClassifyText(request: IRequest, env: Env, ctx: Execu
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	const text = body.text;
 
 	if (!text) {
-		return new Response('Missing required field: text', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text'] } });
 	}
 
 	// Authentication and Quota Check
@@ -641,7 +448,7 @@ export async function handleClassifyText(request: IRequest, env: Env, ctx: Execu
 
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	try {
@@ -651,7 +458,7 @@ export async function handleClassifyText(request: IRequest, env: Env, ctx: Execu
 		});
 	} catch (error: any) {
 		console.error('Classification Error:', error);
-		return new Response(`Classification failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -661,7 +468,7 @@ export async function handleSmartTextTranslation(request: IRequest, env: Env, ct
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	const text = body.text;
@@ -672,11 +479,24 @@ export async function handleSmartTextTranslation(request: IRequest, env: Env, ct
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!text || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: text, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW")', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
+	}
+
+	// Check Cache First (before auth to save quota)
+	const cacheKey = await buildTranslationCacheKey(
+		'smart_translation',
+		sourceLangCode,
+		targetLangCode,
+		text,
+		await getOptionalUserId(request, env),
+	);
+	const cachedResult = await findCachedTranslation(env.words_db, cacheKey);
+	if (cachedResult) {
+		return createStaticSseResponse(cachedResult, { cached: true, model: cacheKey.model });
 	}
 
 	// Auth Check
@@ -688,7 +508,7 @@ export async function handleSmartTextTranslation(request: IRequest, env: Env, ct
 	// Auth success
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -704,10 +524,11 @@ export async function handleSmartTextTranslation(request: IRequest, env: Env, ct
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	} catch (error: any) {
 		console.error('Smart Translation Error:', error);
-		return new Response(`Smart translation failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -717,7 +538,7 @@ export async function handleWordTranslation(request: IRequest, env: Env, ctx: Ex
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	const text = body.text;
@@ -728,34 +549,26 @@ export async function handleWordTranslation(request: IRequest, env: Env, ctx: Ex
 	if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
 
 	if (!text || !sourceLangCode || !targetLangCode) {
-		return new Response('Missing required fields: text, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text', 'source_language', 'target_language'] } });
 	}
 
 	if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
-		return new Response('Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW")', { status: 400 });
+		return errorResponse(request, 'INVALID_LANGUAGE');
 	}
 
 	// 1. Check Cache First (before auth to save quota)
-	const cachedResult = await geminiService.findInCache(env, text, sourceLangCode, targetLangCode);
+	const cacheKey = await buildTranslationCacheKey(
+		'word_translation',
+		sourceLangCode,
+		targetLangCode,
+		text,
+		await getOptionalUserId(request, env),
+	);
+	const cachedResult = await findCachedTranslation(env.words_db, cacheKey);
 
 	if (cachedResult) {
 		// Return cached result as SSE
-		const mimicResponse = {
-			candidates: [
-				{
-					content: { parts: [{ text: cachedResult }] },
-				},
-			],
-		};
-
-		const sseData = `data: ${JSON.stringify(mimicResponse)}\n\n`;
-		return new Response(sseData, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				Connection: 'keep-alive',
-			},
-		});
+		return createStaticSseResponse(cachedResult, { cached: true, model: cacheKey.model });
 	}
 
 	// 2. Cache Miss: Perform Authentication and Quota Check
@@ -767,7 +580,7 @@ export async function handleWordTranslation(request: IRequest, env: Env, ctx: Ex
 	// Auth success
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	const sourceLangName = getLanguageName(sourceLangCode);
@@ -783,10 +596,11 @@ export async function handleWordTranslation(request: IRequest, env: Env, ctx: Ex
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	} catch (error: any) {
 		console.error('Word Translation Error:', error);
-		return new Response(`Word translation failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
@@ -796,7 +610,7 @@ export async function handleInputCorrection(request: IRequest, env: Env, ctx: Ex
 	try {
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
 	const { original, translated, sourceLang, targetLang, original_input, translated_output, source_language, target_language } = body;
@@ -808,7 +622,7 @@ export async function handleInputCorrection(request: IRequest, env: Env, ctx: Ex
 
 	// Validate required fields
 	if (!finalOriginal || !finalTranslated || !finalSourceLang || !finalTargetLang) {
-		return new Response('Missing required fields: original_input, translated_output, source_language, target_language', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['original_input', 'translated_output', 'source_language', 'target_language'] } });
 	}
 
 	// Auth check (Optional: decide if correction needs auth, assuming yes based on other endpoints)
@@ -819,11 +633,11 @@ export async function handleInputCorrection(request: IRequest, env: Env, ctx: Ex
 
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	try {
-		const correctedText = await openRouterService.correctInput(
+		const { text, model, usage, costMicros } = await openRouterService.correctInput(
 			env,
 			{
 				original: finalOriginal,
@@ -836,31 +650,175 @@ export async function handleInputCorrection(request: IRequest, env: Env, ctx: Ex
 		);
 
 		// Mimic Gemini response structure
-		const responseData = {
-			candidates: [
-				{
-					content: {
-						parts: [
-							{
-								text: correctedText,
-							},
-						],
-					},
-				},
-			],
-		};
-
-		const sseData = `data: ${JSON.stringify(responseData)}\n\n`;
-
-		return new Response(sseData, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				Connection: 'keep-alive',
-			},
-		});
+		return createStaticSseResponse(text, { model, usage, cost_micros: costMicros });
 	} catch (error: any) {
 		console.error('Input Correction Error:', error);
-		return new Response(`Input Correction failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
+
+interface BatchItemResult {
+	index: number;
+	text: string;
+	translation: string | null;
+	cached: boolean;
+	// The `error` of an errorBody, as the endpoint would have answered the item on its own
+	error: ReturnType<typeof errorBody>['error'] | null;
+}
+
+interface PendingBatchItem {
+	result: BatchItemResult;
+	cacheKey: TranslationCacheKey;
+	sourceLangName: string;
+	targetLangName: string;
+}
+
+async function isRateLimited(response: Response): Promise<boolean> {
+	const body = (await response.clone().json()) as any;
+	return body.error?.code === 'RATE_LIMITED';
+}
+
+// Groups items by language pair into as few prompts as possible
+function packByLanguagePair(items: PendingBatchItem[]): PendingBatchItem[][] {
+	const groups = new Map<string, PendingBatchItem[]>();
+	for (const item of items) {
+		const pair = `${item.cacheKey.sourceLang}|${item.cacheKey.targetLang}`;
+		groups.set(pair, [...(groups.get(pair) || []), item]);
+	}
+	const packs: PendingBatchItem[][] = [];
+	for (const group of groups.values()) {
+		for (let i = 0; i < group.length; i += BATCH_LIMITS.itemsPerPrompt) {
+			packs.push(group.slice(i, i + BATCH_LIMITS.itemsPerPrompt));
+		}
+	}
+	return packs;
+}
+
+export async function handleBatchTranslation(request: IRequest, env: Env, ctx: ExecutionContext) {
+	let body;
+	try {
+		body = (await request.json()) as any;
+	} catch (e) {
+		return errorResponse(request, 'INVALID_JSON');
+	}
+
+	const items = body.items;
+	if (!Array.isArray(items) || items.length === 0) {
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['items'] } });
+	}
+	if (items.length > BATCH_LIMITS.maxItems) {
+		return errorResponse(request, 'TOO_MANY_ITEMS', { details: { max_items: BATCH_LIMITS.maxItems } });
+	}
+
+	// Invalid items fail individually so the rest of the batch still goes through
+	const userId = await getOptionalUserId(request, env);
+	const results: BatchItemResult[] = [];
+	const pending: PendingBatchItem[] = [];
+	for (let index = 0; index < items.length; index++) {
+		const item = items[index] || {};
+		const text = typeof item.text === 'string' ? item.text : '';
+		const result: BatchItemResult = { index, text, translation: null, cached: false, error: null };
+		results.push(result);
+
+		let sourceLangCode = item.source_language || item.source_lang;
+		let targetLangCode = item.target_language || item.target_lang;
+		if (sourceLangCode) sourceLangCode = normalizeLanguageTag(sourceLangCode);
+		if (targetLangCode) targetLangCode = normalizeLanguageTag(targetLangCode);
+
+		if (!text.trim() || !sourceLangCode || !targetLangCode) {
+			const fields: string[] = [];
+			if (!text.trim()) fields.push('text');
+			if (!sourceLangCode) fields.push('source_language');
+			if (!targetLangCode) fields.push('target_language');
+			result.error = errorBody(request, 'MISSING_FIELDS', { details: { fields } }).error;
+		} else if (!isValidLanguageCode(sourceLangCode) || !isValidLanguageCode(targetLangCode)) {
+			result.error = errorBody(request, 'INVALID_LANGUAGE').error;
+		} else if (text.length > BATCH_LIMITS.maxTextLength) {
+			result.error = errorBody(request, 'TEXT_TOO_LONG', { details: { max_length: BATCH_LIMITS.maxTextLength } }).error;
+		} else {
+			pending.push({
+				result,
+				cacheKey: await buildTranslationCacheKey('batch_translation', sourceLangCode, targetLangCode, text, userId),
+				sourceLangName: getLanguageName(sourceLangCode),
+				targetLangName: getLanguageName(targetLangCode),
+			});
+		}
+	}
+
+	// 1. One cache lookup for the whole batch; hits are served even when the quota is exhausted
+	const cached = await findCachedTranslations(env.words_db, pending.map((p) => p.cacheKey));
+	const misses = pending.filter((p) => {
+		const hit = cached.get(getCacheKeyId(p.cacheKey));
+		if (hit === undefined) return true;
+		p.result.translation = hit;
+		p.result.cached = true;
+		return false;
+	});
+
+	if (misses.length > 0) {
+		// 2. Auth once, counting each prompt sent for the misses within the quota against the rate limit. An exhausted
+		// quota fails the misses but keeps the cache hits; a rate-limited caller is told when to retry instead.
+		const authResponse = await withAuth(request, env, ctx, {
+			rateLimitCost: async (userId, tier) =>
+				packByLanguagePair(misses.slice(0, await getRemainingQuota(env, userId, tier, 'text_translation'))).length,
+		});
+		if (authResponse && (authResponse.status !== 429 || (await isRateLimited(authResponse)))) {
+			return authResponse;
+		}
+		const authReq = request as AuthenticatedRequest;
+		const remaining = authResponse ? 0 : await getRemainingQuota(env, authReq.userId, authReq.membershipTier, 'text_translation');
+
+		// Misses past the quota fail with the error the endpoint would have answered them with
+		if (misses.length > remaining) {
+			const { error } = authResponse
+				? ((await authResponse.json()) as ReturnType<typeof errorBody>)
+				: await getQuotaExceededBody(request, env, authReq.userId, authReq.membershipTier, 'text_translation', remaining);
+			for (const miss of misses.slice(remaining)) {
+				miss.result.error = error;
+			}
+		}
+
+		// 3. Pack the allowed misses by language pair into as few prompts as possible
+		await mapWithConcurrency(packByLanguagePair(misses.slice(0, remaining)), BATCH_LIMITS.concurrency, async (pack) => {
+			try {
+				const translations = await openRouterService.translateBatch(
+					env,
+					authReq.userId,
+					pack.map((p) => p.result.text),
+					pack[0].sourceLangName,
+					pack[0].targetLangName,
+					ctx,
+				);
+				pack.forEach((p, i) => {
+					const translation = translations[i];
+					if (!translation) {
+						p.result.error = errorBody(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: 'No translation returned' } }).error;
+						return;
+					}
+					p.result.translation = translation;
+					ctx.waitUntil(
+						saveCachedTranslation(env.words_db, p.cacheKey, p.result.text, translation).catch((e) =>
+							console.error('[Batch] Failed to save cache:', e),
+						),
+					);
+				});
+			} catch (error: any) {
+				console.error('[Batch] Pack failed:', error);
+				for (const p of pack) {
+					p.result.error = errorBody(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } }).error;
+				}
+			}
+		});
+	}
+
+	const summary = {
+		total: results.length,
+		cached: results.filter((r) => r.cached).length,
+		translated: results.filter((r) => !r.cached && r.translation !== null).length,
+		failed: results.filter((r) => r.error !== null).length,
+	};
+
+	return new Response(JSON.stringify({ results, summary }), {
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
@@ -1,5 +1,5 @@
 import { IRequest } from 'itty-router';
-import { AuthenticatedRequest, withAuth } from '../middleware/auth';
+import { AuthenticatedRequest, getOptionalUserId, withAuth, withUser } from '../middleware/auth';
 import {
 	logTts,
 	findTtsLogByHash,
@@ -12,12 +12,118 @@ import { logUsage } from '../models/usage';
 import { PRICING_PER_1M } from '../config/pricing';
 import { normalizeLanguageTag } from '../utils/languages';
 import { calculateCost } from '../utils/cost';
+import { renderPrompt } from '../services/prompts';
+import { errorResponse } from '../utils/errors';
+import { DEFAULT_VOICE, VOICES, VOICE_NAMES, findVoice } from '../config/voices';
+import { getMembership, getTierConfig } from '../services/tiers';
+import {
+	AUDIO_FORMATS,
+	AUDIO_FORMAT_NAMES,
+	AudioFormat,
+	DEFAULT_AUDIO_FORMAT,
+	createStreamingWavHeader,
+	encodePcm,
+	isAudioFormat,
+} from '../utils/audio_formats';
+import { decodeBase64 } from '../utils/audio';
+import { readSseData } from '../services/stream';
+import { LONG_TTS_LIMITS } from '../config/limits';
+import {
+	SpeechError,
+	SpeechSegmentTiming,
+	TTS_SAMPLE_RATE,
+	calculateHash,
+	getTtsPromptVersion,
+	synthesizeLongText,
+} from '../services/speech';
+import { AlignmentDocument, buildAlignment } from '../services/alignment';
+
+// Stitched long-text audio keeps its sentence timings next to it in R2
+function getTimingsKey(audioKey: string): string {
+	return audioKey.replace(/\.[^./]+$/, '') + '.timings.json';
+}
+
+// As does its alignment document, which tts_logs.alignment_url points at
+function getAlignmentKey(audioKey: string): string {
+	return audioKey.replace(/\.[^./]+$/, '') + '.alignment.json';
+}
+
+async function getSegmentTimings(env: Env, storedUrl: string): Promise<SpeechSegmentTiming[] | null> {
+	if (!storedUrl.startsWith('r2://')) return null;
+	const object = await env.TTS_BUCKET.get(getTimingsKey(storedUrl.substring(5)));
+	return object ? ((await object.json()) as SpeechSegmentTiming[]) : null;
+}
+
+async function getAlignment(env: Env, alignmentUrl: string): Promise<AlignmentDocument | null> {
+	if (!alignmentUrl.startsWith('r2://')) return null;
+	const object = await env.TTS_BUCKET.get(alignmentUrl.substring(5));
+	return object ? ((await object.json()) as AlignmentDocument) : null;
+}
+
+// Unknown voices are refused before anything else
+function checkVoice(request: IRequest, voiceName: string): Response | undefined {
+	if (!findVoice(voiceName)) {
+		return errorResponse(request, 'VOICE_NOT_AVAILABLE', { details: { voice: voiceName, voices: VOICE_NAMES } });
+	}
+}
+
+async function checkTierVoice(request: AuthenticatedRequest, env: Env, voiceName: string): Promise<Response | undefined> {
+	const { features } = await getTierConfig(env, request.membershipTier);
+	if (!features.voices.includes(voiceName)) {
+		return errorResponse(request, 'VOICE_NOT_IN_TIER', {
+			details: { voice: voiceName, tier: request.membershipTier, voices: features.voices },
+		});
+	}
+}
+
+// Cached audio is served without auth only in the voices FREE users get. Any other voice needs a signed-in caller whose
+// tier includes it, even for a cache hit.
+async function checkCachedVoice(request: IRequest, env: Env, voiceName: string): Promise<Response | undefined> {
+	const { features } = await getTierConfig(env, 'FREE');
+	if (features.voices.includes(voiceName)) return;
+
+	const unauthenticated = await withUser(request, env);
+	if (unauthenticated) return unauthenticated;
+	const authReq = request as AuthenticatedRequest;
+	authReq.membershipTier = (await getMembership(env, authReq.userId)).tier;
+	return checkTierVoice(authReq, env, voiceName);
+}
+
+function checkFormat(request: IRequest, format: unknown): Response | undefined {
+	if (!isAudioFormat(format)) {
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'format', expected: AUDIO_FORMAT_NAMES } });
+	}
+}
+
+// Dev builds have no public R2 domain, so audio is played back through /tts/preview
+function getAudioUrl(env: Env, storedUrl: string, textHash: string, voiceName: string, format: AudioFormat): string {
+	if (env.ENVIRONMENT === 'production') {
+		// storedUrl is r2://key, we need just the key
+		const key = storedUrl.startsWith('r2://') ? storedUrl.substring(5) : storedUrl;
+		return `${env.R2_PUBLIC_DOMAIN}/${key}`;
+	}
+	// WAV links keep their original shape
+	const formatParam = format === DEFAULT_AUDIO_FORMAT ? '' : `&format=${format}`;
+	return `https://kiwi-api-local.jianda.com/tts/preview?hash=${textHash}&voice=${encodeURIComponent(voiceName)}${formatParam}`;
+}
 
-async function calculateHash(text: string): Promise<string> {
-	const msgUint8 = new TextEncoder().encode(text);
-	const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8);
-	const hashArray = Array.from(new Uint8Array(hashBuffer));
-	return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+// The catalogue, marking the voices the caller's tier may use (FREE's when not signed in)
+export async function handleListVoices(request: IRequest, env: Env) {
+	const userId = await getOptionalUserId(request, env);
+	const tier = userId ? (await getMembership(env, userId)).tier : 'FREE';
+	const { features } = await getTierConfig(env, tier);
+
+	return Response.json({
+		tier,
+		default_voice: features.voices[0] || DEFAULT_VOICE,
+		voices: VOICES.map((voice) => ({
+			name: voice.name,
+			gender: voice.gender,
+			style: voice.style,
+			languages: voice.languages,
+			available: features.voices.includes(voice.name),
+		})),
+	});
 }
 
 export async function handleTtsPreview(request: IRequest, env: Env, ctx: ExecutionContext) {
@@ -25,13 +131,18 @@ export async function handleTtsPreview(request: IRequest, env: Env, ctx: Executi
 	const hash = url.searchParams.get('hash');
 
 	if (!hash) {
-		return new Response('Missing hash', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['hash'] } });
 	}
 
-	const log = await findLatestTtsLogByTextHash(env.words_db, hash);
+	const format = url.searchParams.get('format') || DEFAULT_AUDIO_FORMAT;
+	const invalidFormat = checkFormat(request, format);
+	if (invalidFormat) return invalidFormat;
+
+	// Older links carry only the hash and play whichever voice was generated last
+	const log = await findLatestTtsLogByTextHash(env.words_db, hash, url.searchParams.get('voice') || undefined, format as AudioFormat);
 
 	if (!log || !log.url) {
-		return new Response('Not found', { status: 404 });
+		return errorResponse(request, 'AUDIO_NOT_FOUND');
 	}
 
 	if (!log.url.startsWith('r2://')) {
@@ -39,26 +150,157 @@ export async function handleTtsPreview(request: IRequest, env: Env, ctx: Executi
 		// User said: "local has no network URL", implying R2 local storage.
 		// If storedUrl is not r2 scheme, we might just return it?
 		// But let's assume valid R2 keys.
-		return new Response('Invalid resource type', { status: 400 });
+		console.error(`[TTS] Preview of ${hash} points at a non-R2 url: ${log.url}`);
+		return errorResponse(request, 'AUDIO_NOT_FOUND');
 	}
 
 	const key = log.url.substring(5); // Remove r2://
 	const object = await env.TTS_BUCKET.get(key);
 
 	if (!object) {
-		return new Response('Object not found in R2', { status: 404 });
+		return errorResponse(request, 'AUDIO_NOT_FOUND');
 	}
 
 	const headers = new Headers();
 	object.writeHttpMetadata(headers);
 	headers.set('etag', object.httpEtag);
-	headers.set('Content-Type', 'audio/wav'); // Force audio/wav for preview
+	headers.set('Content-Type', AUDIO_FORMATS[format as AudioFormat].contentType);
 
 	return new Response(object.body, {
 		headers,
 	});
 }
 
+// Speaks `text` sentence by sentence, logs what the generated sentences cost and stores the stitched audio in R2 with
+// its timings (and alignment). A failure comes back as the error response to send.
+async function storeSegmentedSpeech(
+	request: AuthenticatedRequest,
+	env: Env,
+	ctx: ExecutionContext,
+	options: {
+		text: string;
+		voiceName: string;
+		languageCode?: string;
+		format: AudioFormat;
+		modelName: string;
+		alignment: boolean;
+	}
+) {
+	const { text, voiceName, languageCode, format, modelName } = options;
+
+	// Nowhere to keep the audio and its timings, so nothing is generated (or billed)
+	if (!env.TTS_BUCKET) {
+		return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: 'Audio storage is not configured' } });
+	}
+
+	const logSpeechUsage = (usage: { inputTokens: number; outputTokens: number; costMicros: number; promptVersion: string | null }) =>
+		ctx.waitUntil(
+			logUsage(
+				env.logs_db,
+				request.userId,
+				modelName,
+				usage.inputTokens,
+				usage.outputTokens,
+				usage.costMicros,
+				'tts',
+				undefined,
+				0,
+				request.membershipTier,
+				{ promptVersion: usage.promptVersion ?? undefined }
+			).catch((err) => console.error('LogUsage TTS Error', err))
+		);
+
+	let speech;
+	try {
+		speech = await synthesizeLongText(env, ctx, text, { userId: request.userId, voiceName, languageCode, modelName });
+	} catch (error: any) {
+		console.error('Long Text TTS Error:', error);
+		// Sentences generated before the failure are cached and paid for
+		if (error instanceof SpeechError && error.usage?.generated) {
+			logSpeechUsage(error.usage);
+		}
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', {
+			details: { upstream_status: error.upstreamStatus, reason: error.message, segment: error.segment },
+		});
+	}
+
+	// A paragraph stitched entirely from cached sentences cost nothing
+	if (speech.usage.generated > 0) {
+		logSpeechUsage(speech.usage);
+	}
+
+	const { extension, contentType } = AUDIO_FORMATS[format];
+	const key = `tts/${request.userId}/${crypto.randomUUID()}.${extension}`;
+	try {
+		const audio = encodePcm(speech.pcm, format, TTS_SAMPLE_RATE);
+		await env.TTS_BUCKET.put(key, audio, { httpMetadata: { contentType } });
+		await env.TTS_BUCKET.put(getTimingsKey(key), JSON.stringify(speech.segments), { httpMetadata: { contentType: 'application/json' } });
+		const alignment = options.alignment ? buildAlignment(speech.pcm, speech.segments, languageCode) : null;
+		if (alignment) {
+			await env.TTS_BUCKET.put(getAlignmentKey(key), JSON.stringify(alignment), { httpMetadata: { contentType: 'application/json' } });
+		}
+		return { key, audio, segments: speech.segments, alignment };
+	} catch (error: any) {
+		// The sentences are cached and already logged, so a retry only pays for the stitching
+		console.error('Long Text TTS Storage Error:', error);
+		return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: error.message } });
+	}
+}
+
+// Long texts, and texts that need an alignment, are spoken sentence by sentence so each sentence's length is known
+async function handleSegmentedTts(
+	request: AuthenticatedRequest,
+	env: Env,
+	ctx: ExecutionContext,
+	options: {
+		text: string;
+		textHash: string;
+		voiceName: string;
+		languageCode?: string;
+		format: AudioFormat;
+		modelName: string;
+		promptVersion: string;
+		alignment: boolean;
+	}
+) {
+	const { text, textHash, voiceName, languageCode, format, modelName, promptVersion } = options;
+	const stored = await storeSegmentedSpeech(request, env, ctx, options);
+	if (stored instanceof Response) return stored;
+	const { key, segments, alignment } = stored;
+
+	// The sentences carry the cost, so the paragraph's own cache entry is free
+	ctx.waitUntil(
+		logTts(env.words_db, {
+			userId: request.userId,
+			inputTokens: 0,
+			outputTokens: 0,
+			text,
+			costMicros: 0,
+			textHash,
+			voiceName,
+			modelName,
+			promptVersion,
+			languageCode,
+			url: `r2://${key}`,
+			format,
+			alignmentUrl: alignment ? `r2://${getAlignmentKey(key)}` : undefined,
+		}).catch((err) => console.error('LogTts Error', err))
+	);
+
+	return new Response(
+		JSON.stringify({
+			audio_url: getAudioUrl(env, `r2://${key}`, textHash, voiceName, format),
+			segments,
+			...(alignment && { alignment }),
+		}),
+		{
+			headers: {
+				'Content-Type': 'application/json',
+			},
+		}
+	);
+}
+
 export async function handleTts(request: IRequest, env: Env, ctx: ExecutionContext) {
 	// Parse body first to check cache
 	let body;
@@ -68,43 +310,58 @@ export async function handleTts(request: IRequest, env: Env, ctx: ExecutionConte
 		// If we consume it here, we pass the data.
 		body = (await request.json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
-	let { text, voiceName = 'Kore', languageCode } = body;
+	let { text, voiceName = DEFAULT_VOICE, languageCode, format = DEFAULT_AUDIO_FORMAT, alignment = false } = body;
 
 	if (languageCode) {
 		languageCode = normalizeLanguageTag(languageCode);
 	}
 
 	if (!text) {
-		return new Response('Missing required fields', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text'] } });
 	}
 
-	if (voiceName !== 'Kore') {
-		return new Response('Only "Kore" voice is supported currently', { status: 400 });
+	const invalidVoice = checkVoice(request, voiceName);
+	if (invalidVoice) return invalidVoice;
+	const invalidFormat = checkFormat(request, format);
+	if (invalidFormat) return invalidFormat;
+	if (typeof alignment !== 'boolean') {
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'alignment', expected: 'a boolean' } });
+	}
+	if (text.length > LONG_TTS_LIMITS.maxTextLength) {
+		return errorResponse(request, 'TEXT_TOO_LONG', { details: { max_length: LONG_TTS_LIMITS.maxTextLength } });
 	}
+	// Paragraphs are spoken sentence by sentence and come with a timing map
+	const isLongText = text.length > LONG_TTS_LIMITS.segmentAbove;
 
 	const modelNameShort = 'gemini-2.5-flash-preview-tts';
 	const textHash = await calculateHash(text);
+	const promptVersion = getTtsPromptVersion(await getOptionalUserId(request, env));
+
+	const voiceNotAllowed = await checkCachedVoice(request, env, voiceName);
+	if (voiceNotAllowed) return voiceNotAllowed;
 
 	// Check Cache - allow unauthenticated access for cached content
-	const cachedLog = await findTtsLogByHash(env.words_db, textHash, voiceName, modelNameShort, languageCode);
+	const cachedLog = await findTtsLogByHash(
+		env.words_db,
+		textHash,
+		voiceName,
+		modelNameShort,
+		promptVersion,
+		languageCode,
+		format,
+		alignment
+	);
 	if (cachedLog && cachedLog.url) {
-		let audioUrl;
-		if (env.ENVIRONMENT === 'production') {
-			// Production: Use R2 public domain
-			// storedUrl is r2://key, we need just the key
-			const key = cachedLog.url.startsWith('r2://') ? cachedLog.url.substring(5) : cachedLog.url;
-			audioUrl = `${env.R2_PUBLIC_DOMAIN}/${key}`;
-		} else {
-			// Dev: Use local preview endpoint
-			audioUrl = `https://kiwi-api-local.jianda.com/tts/preview?hash=${textHash}`;
-		}
+		const audioUrl = getAudioUrl(env, cachedLog.url, textHash, voiceName, format);
 
 		return new Response(
 			JSON.stringify({
 				audio_url: audioUrl,
+				...(isLongText && { segments: await getSegmentTimings(env, cachedLog.url) }),
+				...(alignment && { alignment: await getAlignment(env, cachedLog.alignmentUrl!) }),
 			}),
 			{
 				headers: {
@@ -124,24 +381,35 @@ export async function handleTts(request: IRequest, env: Env, ctx: ExecutionConte
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
 		// Should have been caught by withAuth, but double check
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
+	}
+
+	const voiceNotInTier = await checkTierVoice(authReq, env, voiceName);
+	if (voiceNotInTier) return voiceNotInTier;
+
+	if (isLongText || alignment) {
+		return handleSegmentedTts(authReq, env, ctx, {
+			text,
+			textHash,
+			voiceName,
+			languageCode,
+			format,
+			modelName: modelNameShort,
+			promptVersion,
+			alignment,
+		});
 	}
 
 	const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelNameShort}:generateContent?key=${env.GEMINI_API_KEY}`;
 
-	const prompt = `
-Please generate speech for the following text.
-The text is expected to be in language code: "${languageCode || 'unknown'}".
-However, this language code is only a reference. If the text appears to be in a different language, please ignore the reference and speak in the detected language.
-Text to speak: "${text}"
-`;
+	const prompt = renderPrompt('tts', { languageCode: languageCode || 'unknown', text }, authReq.userId);
 
 	const payload = {
 		contents: [
 			{
 				parts: [
 					{
-						text: prompt,
+						text: prompt.text,
 					},
 				],
 			},
@@ -169,7 +437,7 @@ Text to speak: "${text}"
 
 		if (!response.ok) {
 			const errorText = await response.text();
-			return new Response(`Gemini API Error: ${response.status} ${errorText}`, { status: response.status });
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { upstream_status: response.status, reason: errorText } });
 		}
 
 		const data = (await response.json()) as any;
@@ -180,7 +448,7 @@ Text to speak: "${text}"
 		const part = candidate?.content?.parts?.[0];
 
 		if (!part || !part.inlineData || !part.inlineData.data) {
-			return new Response('No audio generated', { status: 500 });
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: 'No audio generated' } });
 		}
 
 		const base64Audio = part.inlineData.data;
@@ -202,28 +470,16 @@ Text to speak: "${text}"
 
 		// Store in R2
 		const fileId = crypto.randomUUID();
-		const key = `tts/${authReq.userId}/${fileId}.wav`; // Using .wav even if it's raw PCM?
-		// User said: "base64 --decode > out.pcm ... ffmpeg ... > out.wav".
-		// Gemini returns PCM 24kHz usually? Or WAV?
-		// Verification: The user provided curl example pipes to `out.pcm` and uses ffmpeg to wav.
-		// So it is likely Raw PCM 24kHz 16-bit Mono (common for Gemini).
-		// If I assume it's PCM, and I returning it, the client might need to wrap it.
-		// BUT the user says "ffmpeg -f ... -i out.pcm out.wav".
-		// If I return the raw bytes, it's PCM.
-		// If I want to be helpful, I could try to add a WAV header?
-		// Adding a WAV header in JS is easy if I know the sample rate (24000) and format (s16le).
-		// Let's add a WAV header to make it usable directly.
-
-		const wavHeader = createWavHeader(bytes.length, 24000, 1, 16);
-		const wavFile = new Uint8Array(wavHeader.length + bytes.length);
-		wavFile.set(wavHeader);
-		wavFile.set(bytes, wavHeader.length);
+		const { extension, contentType } = AUDIO_FORMATS[format as AudioFormat];
+		const key = `tts/${authReq.userId}/${fileId}.${extension}`;
+		// Gemini returns raw 24kHz 16-bit mono PCM, so it is wrapped in a WAV header or encoded before storing
+		const audioFile = encodePcm(bytes, format, 24000);
 
 		let storedUrl = '';
 		if (env.TTS_BUCKET) {
-			await env.TTS_BUCKET.put(key, wavFile, {
+			await env.TTS_BUCKET.put(key, audioFile, {
 				httpMetadata: {
-					contentType: 'audio/wav',
+					contentType,
 				},
 			});
 			// Reserve URL (e.g., if we had a public domain)
@@ -243,8 +499,10 @@ Text to speak: "${text}"
 					textHash: await calculateHash(text),
 					voiceName,
 					modelName: modelNameShort,
+					promptVersion: prompt.id,
 					languageCode,
 					url: storedUrl,
+					format,
 				}).catch((err) => console.error('LogTts Error', err)),
 				logUsage(
 					env.logs_db,
@@ -256,18 +514,13 @@ Text to speak: "${text}"
 					'tts',
 					undefined,
 					0,
-					authReq.membershipTier
+					authReq.membershipTier,
+					{ promptVersion: prompt.id }
 				).catch((err) => console.error('LogUsage TTS Error', err)),
 			])
 		);
 
-		let audioUrl;
-		if (env.ENVIRONMENT === 'production') {
-			const key = storedUrl.startsWith('r2://') ? storedUrl.substring(5) : storedUrl;
-			audioUrl = `${env.R2_PUBLIC_DOMAIN}/${key}`;
-		} else {
-			audioUrl = `https://kiwi-api-local.jianda.com/tts/preview?hash=${await calculateHash(text)}`;
-		}
+		const audioUrl = getAudioUrl(env, storedUrl, textHash, voiceName, format);
 
 		return new Response(
 			JSON.stringify({
@@ -281,50 +534,90 @@ Text to speak: "${text}"
 		);
 	} catch (error: any) {
 		console.error('TTS Error:', error);
-		return new Response(`TTS failed: ${error.message}`, { status: 500 });
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: error.message } });
 	}
 }
 
-function createWavHeader(dataLength: number, sampleRate: number, numChannels: number, bitsPerSample: number): Uint8Array {
-	const blockAlign = (numChannels * bitsPerSample) / 8;
-	const byteRate = sampleRate * blockAlign;
-	const buffer = new ArrayBuffer(44);
-	const view = new DataView(buffer);
-
-	// RIFF string
-	writeString(view, 0, 'RIFF');
-	// File size (data + 36)
-	view.setUint32(4, 36 + dataLength, true);
-	// WAVE string
-	writeString(view, 8, 'WAVE');
-	// fmt string
-	writeString(view, 12, 'fmt ');
-	// Subchunk1Size
-	view.setUint32(16, 16, true);
-	// AudioFormat (1 = PCM)
-	view.setUint16(20, 1, true);
-	// NumChannels
-	view.setUint16(22, numChannels, true);
-	// SampleRate
-	view.setUint32(24, sampleRate, true);
-	// ByteRate
-	view.setUint32(28, byteRate, true);
-	// BlockAlign
-	view.setUint16(32, blockAlign, true);
-	// BitsPerSample
-	view.setUint16(34, bitsPerSample, true);
-	// data string
-	writeString(view, 36, 'data');
-	// Subchunk2Size
-	view.setUint32(40, dataLength, true);
-
-	return new Uint8Array(buffer);
-}
+// Forwards Gemini's PCM to the client as each SSE chunk arrives, behind a WAV header with open-ended sizes, while
+// assembling the whole clip for the cache. A client that hangs up does not stop the clip from being cached.
+function createTtsAudioStream(
+	upstream: Response,
+	ctx: ExecutionContext,
+	hooks: { onComplete: (pcm: Uint8Array, usage: any) => Promise<void>; onFailure: () => Promise<void> }
+): Response {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+
+	const processPromise = (async () => {
+		const chunks: Uint8Array[] = [];
+		let usage: any = {};
+		let clientGone = false;
+		let failure: string | null = null;
+
+		const forward = async (bytes: Uint8Array) => {
+			if (clientGone) return;
+			try {
+				await writer.write(bytes);
+			} catch (e) {
+				clientGone = true;
+			}
+		};
 
-function writeString(view: DataView, offset: number, string: string) {
-	for (let i = 0; i < string.length; i++) {
-		view.setUint8(offset + i, string.charCodeAt(i));
-	}
+		try {
+			await forward(createStreamingWavHeader(24000));
+			await readSseData(upstream.body, async (data) => {
+				let parsed: any;
+				try {
+					parsed = JSON.parse(data);
+				} catch (e) {
+					return;
+				}
+				if (parsed.usageMetadata) {
+					usage = parsed.usageMetadata;
+				}
+				for (const part of parsed.candidates?.[0]?.content?.parts ?? []) {
+					if (typeof part.inlineData?.data === 'string') {
+						const pcm = decodeBase64(part.inlineData.data);
+						chunks.push(pcm);
+						// Writing hands the buffer over to the stream, so the client gets its own copy
+						await forward(pcm.slice());
+					}
+				}
+			});
+			if (chunks.length === 0) {
+				failure = 'No audio generated';
+			}
+		} catch (err: any) {
+			failure = err.message || 'Upstream stream interrupted';
+		}
+
+		if (failure) {
+			console.error('TTS Stream Error:', failure);
+			// Aborting cuts the response off, so the client cannot mistake the partial audio for a complete clip
+			await writer.abort(new Error(failure)).catch(() => {});
+			await hooks.onFailure().catch((e) => console.error('TTS Stream onFailure error', e));
+			return;
+		}
+
+		await writer.close().catch(() => {});
+		const pcm = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+		let offset = 0;
+		for (const chunk of chunks) {
+			pcm.set(chunk, offset);
+			offset += chunk.length;
+		}
+		await hooks.onComplete(pcm, usage).catch((e) => console.error('TTS Stream onComplete error', e));
+	})();
+
+	ctx.waitUntil(processPromise);
+
+	return new Response(readable, {
+		status: 200,
+		headers: {
+			'Content-Type': 'audio/wav',
+			'Cache-Control': 'no-cache',
+		},
+	});
 }
 
 export async function handleTts2(request: IRequest, env: Env, ctx: ExecutionContext) {
@@ -334,38 +627,43 @@ export async function handleTts2(request: IRequest, env: Env, ctx: ExecutionCont
 	try {
 		body = (await request.clone().json()) as any;
 	} catch (e) {
-		return new Response('Invalid JSON', { status: 400 });
+		return errorResponse(request, 'INVALID_JSON');
 	}
 
-	let { text, voiceName = 'Kore', languageCode } = body;
+	let { text, voiceName = DEFAULT_VOICE, languageCode, format = DEFAULT_AUDIO_FORMAT, stream = false } = body;
 	if (languageCode) {
 		languageCode = normalizeLanguageTag(languageCode);
 	}
 	if (!text) {
-		return new Response('Missing required fields', { status: 400 });
+		return errorResponse(request, 'MISSING_FIELDS', { details: { fields: ['text'] } });
+	}
+	const invalidVoice = checkVoice(request, voiceName);
+	if (invalidVoice) return invalidVoice;
+	const invalidFormat = checkFormat(request, format);
+	if (invalidFormat) return invalidFormat;
+	// Streamed audio goes out as it is generated, before anything could be encoded
+	if (stream && format !== 'wav') {
+		return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'format', expected: 'wav' } });
 	}
-	if (voiceName !== 'Kore') {
-		return new Response('Only "Kore" voice is supported currently', { status: 400 });
+	if (text.length > LONG_TTS_LIMITS.maxTextLength) {
+		return errorResponse(request, 'TEXT_TOO_LONG', { details: { max_length: LONG_TTS_LIMITS.maxTextLength } });
 	}
 
 	const modelNameShort = 'gemini-2.5-flash-preview-tts';
 	const textHash = await calculateHash(text); // calculateHash is in scope
+	const promptVersion = getTtsPromptVersion(await getOptionalUserId(request, env));
+
+	const voiceNotAllowed = await checkCachedVoice(request, env, voiceName);
+	if (voiceNotAllowed) return voiceNotAllowed;
 
 	// 2. Check DB Status
 	// Need to import findTtsRequest from models/tts
-	const existingLog = await findTtsRequest(env.words_db, textHash, voiceName, modelNameShort, languageCode);
+	const existingLog = await findTtsRequest(env.words_db, textHash, voiceName, modelNameShort, promptVersion, languageCode, format);
 
 	if (existingLog) {
 		// Scenario A: Completed -> Return URL
 		if (existingLog.status === 'completed' && existingLog.url) {
-			let audioUrl;
-			if (env.ENVIRONMENT === 'production') {
-				const key = existingLog.url.startsWith('r2://') ? existingLog.url.substring(5) : existingLog.url;
-				audioUrl = `${env.R2_PUBLIC_DOMAIN}/${key}`;
-			} else {
-				audioUrl = `https://kiwi-api-local.jianda.com/tts/preview?hash=${textHash}`;
-				// Fallback for dev if no valid public domain
-			}
+			const audioUrl = getAudioUrl(env, existingLog.url, textHash, voiceName, format);
 			return new Response(JSON.stringify({ audio_url: audioUrl }), {
 				headers: { 'Content-Type': 'application/json' },
 				status: 200,
@@ -389,7 +687,10 @@ export async function handleTts2(request: IRequest, env: Env, ctx: ExecutionCont
 		return authResponse;
 	}
 	const authReq = request as AuthenticatedRequest;
-	if (!authReq.userId) return new Response('Unauthorized', { status: 401 });
+	if (!authReq.userId) return errorResponse(request, 'UNAUTHORIZED');
+
+	const voiceNotInTier = await checkTierVoice(authReq, env, voiceName);
+	if (voiceNotInTier) return voiceNotInTier;
 
 	// Insert Pending Log
 	// Need to import createPendingTtsLog, updateTtsLogStatus
@@ -399,26 +700,99 @@ export async function handleTts2(request: IRequest, env: Env, ctx: ExecutionCont
 		textHash,
 		voiceName,
 		modelName: modelNameShort,
+		promptVersion,
 		languageCode,
+		format,
 	});
 
+	const markFailed = () =>
+		updateTtsLogStatus(env.words_db, textHash, voiceName, promptVersion, format, {
+			status: 'failed',
+			inputTokens: 0,
+			outputTokens: 0,
+			costMicros: 0,
+		});
+
+	// Long texts are spoken sentence by sentence and stitched as in /translation/tts, so even with `stream` the
+	// audio is only sent once it is complete
+	if (text.length > LONG_TTS_LIMITS.segmentAbove) {
+		try {
+			const stored = await storeSegmentedSpeech(authReq, env, ctx, {
+				text,
+				voiceName,
+				languageCode,
+				format,
+				modelName: modelNameShort,
+				alignment: false,
+			});
+			if (stored instanceof Response) {
+				await markFailed();
+				return stored;
+			}
+			// The sentences carry the cost, so the paragraph's own entry is free
+			await updateTtsLogStatus(env.words_db, textHash, voiceName, promptVersion, format, {
+				url: `r2://${stored.key}`,
+				status: 'completed',
+				inputTokens: 0,
+				outputTokens: 0,
+				costMicros: 0,
+			});
+			return new Response(stored.audio, { headers: { 'Content-Type': AUDIO_FORMATS[format as AudioFormat].contentType } });
+		} catch (e: any) {
+			console.error('TTS2 Long Text Error', e);
+			await markFailed();
+			return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: e.message } });
+		}
+	}
+
 	// Call Gemini
-	const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelNameShort}:generateContent?key=${env.GEMINI_API_KEY}`;
-	const prompt = `
-Please generate speech for the following text.
-The text is expected to be in language code: "${languageCode || 'unknown'}".
-However, this language code is only a reference. If the text appears to be in a different language, please ignore the reference and speak in the detected language.
-Text to speak: "${text}"
-`;
+	const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+	const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelNameShort}:${method}key=${env.GEMINI_API_KEY}`;
+	const prompt = renderPrompt('tts', { languageCode: languageCode || 'unknown', text }, authReq.userId);
 
 	const payload = {
-		contents: [{ parts: [{ text: prompt }] }],
+		contents: [{ parts: [{ text: prompt.text }] }],
 		generationConfig: {
 			responseModalities: ['AUDIO'],
 			speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } } },
 		},
 	};
 
+	const { extension, contentType } = AUDIO_FORMATS[format as AudioFormat];
+
+	// Upload & Update, once the whole file is known
+	const saveAudio = async (audioFile: Uint8Array, usage: any) => {
+		if (!env.TTS_BUCKET) return;
+		const costResult = calculateCost(modelNameShort, usage, PRICING_PER_1M);
+		const key = `tts/${authReq.userId}/${crypto.randomUUID()}.${extension}`;
+		await env.TTS_BUCKET.put(key, audioFile, {
+			httpMetadata: { contentType },
+		});
+
+		await updateTtsLogStatus(env.words_db, textHash, voiceName, promptVersion, format, {
+			url: `r2://${key}`,
+			status: 'completed',
+			inputTokens: costResult.input.total,
+			outputTokens: costResult.output.total,
+			costMicros: costResult.cost,
+		});
+
+		// Also log usage logs
+		await logUsage(
+			env.logs_db,
+			authReq.userId,
+			modelNameShort,
+			costResult.input.total,
+			costResult.output.total,
+			costResult.cost,
+			'tts',
+			undefined,
+			0,
+			authReq.membershipTier,
+			{ promptVersion: prompt.id }
+		).catch((e) => console.error('LogUsage Error', e));
+	};
+
 	try {
 		const response = await fetch(url, {
 			method: 'POST',
@@ -429,13 +803,15 @@ Text to speak: "${text}"
 		if (!response.ok) {
 			const errorText = await response.text();
 			// Update DB to failed
-			await updateTtsLogStatus(env.words_db, textHash, {
-				status: 'failed',
-				inputTokens: 0,
-				outputTokens: 0,
-				costMicros: 0,
+			await markFailed();
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { upstream_status: response.status, reason: errorText } });
+		}
+
+		if (stream) {
+			return createTtsAudioStream(response, ctx, {
+				onComplete: (pcm, usage) => saveAudio(encodePcm(pcm, format, 24000), usage),
+				onFailure: markFailed,
 			});
-			return new Response(`Gemini API Error: ${response.status} ${errorText}`, { status: response.status });
 		}
 
 		const data = (await response.json()) as any;
@@ -443,84 +819,23 @@ Text to speak: "${text}"
 		const part = candidate?.content?.parts?.[0];
 
 		if (!part || !part.inlineData || !part.inlineData.data) {
-			await updateTtsLogStatus(env.words_db, textHash, {
-				status: 'failed',
-				inputTokens: 0,
-				outputTokens: 0,
-				costMicros: 0,
-			});
-			return new Response('No audio generated', { status: 500 });
+			await markFailed();
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: 'No audio generated' } });
 		}
 
-		const base64Audio = part.inlineData.data;
-		const binaryString = atob(base64Audio);
-		const len = binaryString.length;
-		const bytes = new Uint8Array(len);
-		for (let i = 0; i < len; i++) {
-			bytes[i] = binaryString.charCodeAt(i);
-		}
-
-		const usage = data.usageMetadata || {};
-		const costResult = calculateCost(modelNameShort, usage, PRICING_PER_1M);
-		const fileId = crypto.randomUUID();
-		const key = `tts/${authReq.userId}/${fileId}.wav`;
-
-		// Create WAV
-		const wavHeader = createWavHeader(bytes.length, 24000, 1, 16);
-		const wavFile = new Uint8Array(wavHeader.length + bytes.length);
-		wavFile.set(wavHeader);
-		wavFile.set(bytes, wavHeader.length);
-
-		// Async Upload & Update
-		const r2Promise = async () => {
-			if (env.TTS_BUCKET) {
-				await env.TTS_BUCKET.put(key, wavFile, {
-					httpMetadata: { contentType: 'audio/wav' },
-				});
-				const storedUrl = `r2://${key}`;
-
-				await updateTtsLogStatus(env.words_db, textHash, {
-					url: storedUrl,
-					status: 'completed',
-					inputTokens: costResult.input.total,
-					outputTokens: costResult.output.total,
-					costMicros: costResult.cost,
-				});
-
-				// Also log usage logs
-				logUsage(
-					env.logs_db,
-					authReq.userId,
-					modelNameShort,
-					costResult.input.total,
-					costResult.output.total,
-					costResult.cost,
-					'tts',
-					undefined,
-					0,
-					authReq.membershipTier
-				).catch((e) => console.error('LogUsage Error', e));
-			}
-		};
-
-		ctx.waitUntil(r2Promise());
+		const audioFile = encodePcm(decodeBase64(part.inlineData.data), format, 24000);
+		ctx.waitUntil(saveAudio(audioFile, data.usageMetadata || {}));
 
 		// Return Stream/Buffer directly
-		// Status 200, Content-Type audio/wav
-		return new Response(wavFile, {
+		return new Response(audioFile, {
 			status: 200,
 			headers: {
-				'Content-Type': 'audio/wav',
+				'Content-Type': contentType,
 			},
 		});
 	} catch (e: any) {
 		console.error('TTS2 Error', e);
-		await updateTtsLogStatus(env.words_db, textHash, {
-			status: 'failed',
-			inputTokens: 0,
-			outputTokens: 0,
-			costMicros: 0,
-		});
-		return new Response(`Error: ${e.message}`, { status: 500 });
+		await markFailed();
+		return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: e.message } });
 	}
 }
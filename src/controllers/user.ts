@@ -1,39 +1,31 @@
 import { IRequest } from 'itty-router';
 import { AuthenticatedRequest } from '../middleware/auth';
-import { getUsageStats, getUserCredits } from '../models/usage';
-import { getUserEntitlements } from '../models/subscription';
-import { TIER_LIMITS, ResourceType } from '../config/limits';
+import { getUsageStats, getUserCredits, getUserTimeZone, saveUserTimeZone } from '../models/usage';
+import { ResourceType } from '../config/limits';
+import { getMembership, getUserLimits } from '../services/tiers';
 import { saveUserInitData } from '../models/init_data';
+import { errorResponse } from '../utils/errors';
+import { getPeriodResetTimes, isValidTimeZone } from '../utils/timezone';
 
 export async function handleGetQuota(request: IRequest, env: Env, ctx: ExecutionContext) {
 	try {
 		const authReq = request as AuthenticatedRequest;
 
 		if (!authReq.userId) {
-			return new Response('Unauthorized', { status: 401 });
+			return errorResponse(request, 'UNAUTHORIZED');
 		}
 
-		let tier = authReq.membershipTier || 'FREE';
 		const resourceTypes: ResourceType[] = ['text_translation', 'image_translation', 'live_translation'];
 
-		// Needed for expiration date
-		const entitlements = await getUserEntitlements(env.users_db, authReq.userId);
-		const activeEntitlements = entitlements.filter((e) => e.status === 'active' && (e.expiresAt === null || e.expiresAt > Date.now()));
-
-		// Check for Trial Cancellation state (isTrial=1 AND autoRenew=0)
-		// We check if ANY active entitlement is a cancelled trial.
-		// Usually there is only 1 active main entitlement.
-		const isTrialCancelled = activeEntitlements.some((e) => e.isTrial === 1 && e.autoRenew === 0);
-
-		if (isTrialCancelled) {
-			tier = 'TRIAL_CANCELLED';
-		}
+		// Same resolution as withAuth, which also gives the expiration date
+		const { tier, entitlement, isTrialCancelled } = await getMembership(env, authReq.userId);
 
 		const quotas: Record<string, any> = {};
 
 		await Promise.all(
 			resourceTypes.map(async (type) => {
-				const limitConfig = TIER_LIMITS[tier][type];
+				// Includes any support override, so the app shows the limits withAuth enforces
+				const limitConfig = await getUserLimits(env, authReq.userId, tier, type);
 				// If total limit is defined, we need to fetch total usage stats
 				const needTotal = limitConfig.total !== undefined;
 				const stats = await getUsageStats(env.logs_db, authReq.userId, type, needTotal);
@@ -78,23 +70,19 @@ export async function handleGetQuota(request: IRequest, env: Env, ctx: Execution
 			})
 		);
 
-		// Calculate expiration date based on the active entitlement that determined the tier
-		let expirationTimestamp: number | null = null;
-		const definingEntitlementId =
-			tier === 'UNLIMITED' ? 'unlimited_member' : tier === 'PRO' ? 'pro_member' : tier === 'LITE' ? 'lite_member' : null;
+		// Expiration date of the active entitlement that determined the tier
+		const expirationTimestamp = !isTrialCancelled && entitlement?.expiresAt ? entitlement.expiresAt : null;
 
-		if (definingEntitlementId) {
-			const ent = activeEntitlements.find((e) => e.entitlementId === definingEntitlementId);
-			if (ent && ent.expiresAt) {
-				expirationTimestamp = ent.expiresAt;
-			}
-		}
+		// Daily and monthly counters roll over at the user's local midnight
+		const timezone = await getUserTimeZone(env.logs_db, authReq.userId);
+		const resets = getPeriodResetTimes(new Date(), timezone);
 
 		//打印到日志
 		console.log('quota:', {
 			tier: tier,
 			membership_expire_at: expirationTimestamp,
 			is_trial_cancelled: isTrialCancelled,
+			timezone,
 			quotas: quotas,
 		});
 
@@ -103,6 +91,8 @@ export async function handleGetQuota(request: IRequest, env: Env, ctx: Execution
 				tier: tier,
 				membership_expire_at: expirationTimestamp,
 				is_trial_cancelled: isTrialCancelled,
+				timezone,
+				resets_at: resets,
 				quotas: quotas,
 			}),
 			{
@@ -113,14 +103,14 @@ export async function handleGetQuota(request: IRequest, env: Env, ctx: Execution
 		);
 	} catch (e: any) {
 		console.error('Error in handleGetQuota:', e);
-		return new Response(`Internal Server Error: ${e.message}`, { status: 500 });
+		return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: e.message } });
 	}
 }
 
 export async function handleInitData(request: IRequest, env: Env) {
 	const authReq = request as AuthenticatedRequest;
 	if (!authReq.userId) {
-		return new Response('Unauthorized', { status: 401 });
+		return errorResponse(request, 'UNAUTHORIZED');
 	}
 
 	try {
@@ -128,6 +118,10 @@ export async function handleInitData(request: IRequest, env: Env) {
 		// Basic validation could go here, but for analysis data we can be flexible.
 		// We expect the keys to match what the user sends (snake_case from request, map to camelCase for internal).
 
+		if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+			return errorResponse(request, 'INVALID_PARAMETER', { details: { parameter: 'timezone', expected: 'an IANA time zone, e.g. "Asia/Shanghai"' } });
+		}
+
 		await saveUserInitData(env.users_db, authReq.userId, {
 			sourceLanguage: body.source_language,
 			targetLanguage: body.target_language,
@@ -135,11 +129,14 @@ export async function handleInitData(request: IRequest, env: Env) {
 			howToKnown: body.how_to_known,
 		});
 
-		return new Response(JSON.stringify({ success: true }), {
+		// A zone change that comes too soon is refused without failing the request, as at login
+		const nextChangeAt = body.timezone ? await saveUserTimeZone(env.logs_db, authReq.userId, body.timezone) : null;
+
+		return new Response(JSON.stringify({ success: true, ...(nextChangeAt && { timezone_next_change_at: nextChangeAt }) }), {
 			headers: { 'Content-Type': 'application/json' },
 		});
 	} catch (e) {
 		console.error('Error saving init data:', e);
-		return new Response('Internal Server Error', { status: 500 });
+		return errorResponse(request, 'INTERNAL_ERROR');
 	}
 }
@@ -28,6 +28,39 @@ export const userEntitlements = sqliteTable(
 		idxOriginalAppUserId: index('idx_user_entitlements_original_app_user_id').on(table.originalAppUserId),
 	})
 );
+// Seeded from TIER_LIMITS, TIER_ENTITLEMENTS, DEFAULT_TIER_FEATURES and DEFAULT_RATE_LIMITS; edited through /admin/tiers
+export const tierConfigs = sqliteTable('tier_configs', {
+	tier: text('tier').primaryKey(),
+	// JSON array of entitlement ids granting the tier
+	entitlementIds: text('entitlement_ids').notNull().default('[]'),
+	// Highest wins when several tiers are granted
+	priority: integer('priority').notNull().default(0),
+	// JSON Record<ResourceType, Quota>
+	limits: text('limits').notNull(),
+	// JSON TierFeatures
+	features: text('features').notNull(),
+	// JSON Partial<Record<ResourceType, RateLimitRule[]>>; missing resources use DEFAULT_RATE_LIMITS
+	rateLimits: text('rate_limits').notNull().default('{}'),
+	updatedAt: integer('updated_at').notNull(),
+});
+// Temporary per-user limits set by support through /admin/users/:id/quota-override
+export const userQuotaOverrides = sqliteTable(
+	'user_quota_overrides',
+	{
+		userId: text('user_id').notNull(),
+		resourceType: text('resource_type').notNull(),
+		// Replace the tier's limits for the resource while the override is active
+		daily: integer('daily').notNull(),
+		monthly: integer('monthly').notNull(),
+		total: integer('total'),
+		reason: text('reason'),
+		expiresAt: integer('expires_at').notNull(),
+		createdAt: integer('created_at').notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.userId, table.resourceType] }),
+	})
+);
 // Words DB
 export const translations = sqliteTable('translations', {
 	id: text('id').primaryKey(),
@@ -36,6 +69,9 @@ export const translations = sqliteTable('translations', {
 	sourceLang: text('source_lang').notNull(),
 	targetLang: text('target_lang').notNull(),
 	resultJson: text('result_json').notNull(),
+	endpoint: text('endpoint').notNull().default('text_translation'),
+	model: text('model'),
+	promptVersion: text('prompt_version'),
 	createdAt: integer('created_at')
 		.notNull()
 		.default(sql`(strftime('%s', 'now') * 1000)`),
@@ -64,6 +100,9 @@ export const ttsLogs = sqliteTable('tts_logs', {
 	status: text('status').default('completed'),
 	languageCode: text('language_code'),
 	url: text('url'),
+	format: text('format').notNull().default('wav'),
+	alignmentUrl: text('alignment_url'),
+	promptVersion: text('prompt_version').notNull().default('tts@v1'),
 	createdAt: integer('created_at')
 		.notNull()
 		.default(sql`(strftime('%s', 'now') * 1000)`),
@@ -81,7 +120,16 @@ export const usageLogs = sqliteTable(
 		outputTokens: integer('output_tokens').notNull(),
 		costMicros: integer('cost_micros').notNull(),
 		durationSeconds: integer('duration_seconds'),
+		// Live sessions: how long the socket was open and how much audio was actually streamed.
+		// duration_seconds is what was charged against the quota.
+		wallSeconds: integer('wall_seconds'),
+		meteredSeconds: integer('metered_seconds'),
 		requestHash: text('request_hash'),
+		provider: text('provider'),
+		// Primary provider that failed when this request was served by a failover provider
+		failoverFrom: text('failover_from'),
+		// Prompt template id (e.g. word@v2) that produced this request
+		promptVersion: text('prompt_version'),
 		createdAt: integer('created_at')
 			.notNull()
 			.default(sql`(strftime('%s', 'now') * 1000)`),
@@ -143,3 +191,51 @@ export const userCredits = sqliteTable('user_credits', {
 		.notNull()
 		.default(sql`(strftime('%s', 'now') * 1000)`),
 });
+
+// IANA time zone the user's daily and monthly usage periods follow; UTC when absent
+export const userTimezones = sqliteTable('user_timezones', {
+	userId: text('user_id').primaryKey(),
+	timezone: text('timezone').notNull(),
+	updatedAt: integer('updated_at').notNull(),
+});
+
+// Live translation sessions (one per LiveSession Durable Object)
+export const liveSessions = sqliteTable(
+	'live_sessions',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id').notNull(),
+		sourceLang: text('source_lang'),
+		targetLang: text('target_lang'),
+		// LIVE_MODES preset the session ran with
+		mode: text('mode').notNull().default('interpret'),
+		// Transcripts are only stored when the user opted in for the session
+		transcriptEnabled: integer('transcript_enabled').notNull().default(0),
+		startedAt: integer('started_at').notNull(),
+		endedAt: integer('ended_at'),
+		durationSeconds: integer('duration_seconds'),
+	},
+	(table) => ({
+		idxUserStarted: index('idx_live_sessions_user_started').on(table.userId, table.startedAt),
+	})
+);
+
+export const liveTranscriptTurns = sqliteTable(
+	'live_transcript_turns',
+	{
+		id: text('id').primaryKey(),
+		sessionId: text('session_id').notNull(),
+		seq: integer('seq').notNull(),
+		// 'input' (what was said) | 'output' (the interpretation)
+		role: text('role').notNull(),
+		// 'source_to_target' | 'target_to_source', null when the languages could not be told apart
+		direction: text('direction'),
+		text: text('text').notNull(),
+		// Offsets from the session start
+		startMs: integer('start_ms').notNull(),
+		endMs: integer('end_ms').notNull(),
+	},
+	(table) => ({
+		idxSessionSeq: index('idx_live_transcript_turns_session_seq').on(table.sessionId, table.seq),
+	})
+);
@@ -0,0 +1,636 @@
+import { DurableObject } from 'cloudflare:workers';
+import { LIVE_SESSION_LIMITS, Quota } from '../config/limits';
+import { LIVE_MODES } from '../config/live_modes';
+import { PRICING_PER_1M_LIVE } from '../config/pricing';
+import { logUsage } from '../models/usage';
+import { createLiveSession, endLiveSession, saveTranscriptTurns } from '../models/live_session';
+import { LiveControlMessage, parseControlFrame } from '../services/live_control';
+import { LiveSetupOptions, buildLiveSetup } from '../services/live_setup';
+import { TranscriptCollector, TranscriptTurn } from '../services/transcript';
+import { CostBreakdown, aggregateUsage, calculateCostFromBreakdown, mergeUsage } from '../utils/cost';
+import { getRealtimeInputAudioSeconds, getServerContentAudioSeconds } from '../utils/audio';
+import { errorResponse } from '../utils/errors';
+
+// One Durable Object per live translation session. It owns both the client and the Gemini
+// BidiGenerateContent sockets, persists the running usage so an evicted or crashed session can
+// still be billed from its alarm, and cuts the session off when the user's live seconds run out.
+//
+// Sessions are metered by audio actually streamed, not by how long the socket stays open: the
+// metered length is the longer of the audio the client sent and the audio Gemini returned, since
+// interpretation overlaps the two. A session with no audio either way is closed after a while.
+
+// The setup options are kept so the setup can be rebuilt when the client changes them mid-session
+export interface LiveSessionConfig extends LiveSetupOptions {
+	tier: string;
+	// The user's live_translation limits when the session started, for the credit overflow at billing
+	quota: Quota;
+	// Pricing key in PRICING_PER_1M_LIVE
+	model: string;
+	promptVersion: string;
+	// Setup message sent to Gemini on every (re)connect
+	setup: object;
+	// live_translation seconds left (quota plus credits) when the session was requested
+	remainingSeconds: number;
+	// live_translation seconds charged per second of session (LIVE_MODES)
+	quotaRate: number;
+	// User opted in to storing this session's transcript
+	transcript: boolean;
+}
+
+interface LiveSessionState {
+	config: LiveSessionConfig;
+	startedAt: number;
+	// Last time the session was known to be alive; an abnormally terminated session is billed up to here
+	lastSeenAt: number;
+	// Set once either socket closed, so a retried final log keeps the real duration
+	endedAt?: number;
+	// LIVE_SESSION_LIMITS.warningSeconds thresholds already announced to the client
+	warningsSent: number[];
+	usage: CostBreakdown;
+	usageEvents: number;
+	// Seconds of audio streamed each way, checkpointed with the heartbeat
+	audio: { inputSeconds: number; outputSeconds: number };
+	// Last audio in either direction, for the idle timeout
+	lastActivityAt: number;
+	// Latest Gemini session resumption handle, used when the upstream connection drops
+	resumptionHandle?: string;
+}
+
+// How often a running session checkpoints itself and checks its deadline
+const HEARTBEAT_MS = 15_000;
+
+const GEMINI_LIVE_URL =
+	'https://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=';
+
+// Gemini sometimes sends JSON messages as binary frames, so both are checked. Only messages carrying
+// something the session tracks (usage, audio, transcripts, text parts of TEXT-only modes, setup and
+// connection management) are parsed; everything is still forwarded as received.
+function parseGeminiMessage(data: string | ArrayBuffer): any | null {
+	try {
+		const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+		if (!text.startsWith('{') || !/usageMetadata|inlineData|Transcription|turnComplete|sessionResumptionUpdate|goAway|setupComplete|"text"/.test(text))
+			return null;
+		return JSON.parse(text);
+	} catch (e) {
+		// Not JSON: a normal audio frame
+		return null;
+	}
+}
+
+// Clients may send their JSON messages as binary frames too, so those are decoded before the setup
+// filter and metering see them
+function parseClientMessage(data: string | ArrayBuffer): any | null {
+	try {
+		const text = typeof data === 'string' ? data : new TextDecoder().decode(data);
+		return text.startsWith('{') ? JSON.parse(text) : null;
+	} catch (e) {
+		return null;
+	}
+}
+
+export class LiveSession extends DurableObject<Env> {
+	private client?: WebSocket;
+	private gemini?: WebSocket;
+	// Request headers reused for every Gemini (re)connect
+	private proxyHeaders?: Headers;
+	private colo = 'UNKNOWN';
+	// Client audio is dropped instead of forwarded while paused
+	private paused = false;
+	// Serialises control messages and upstream reconnects
+	private controlQueue: Promise<void> = Promise.resolve();
+	// Set once the current Gemini socket has acknowledged its setup; it takes no input before that
+	private geminiReady = false;
+	// Client frames received while Gemini is (re)connecting, with the input audio each carries
+	private buffered: { data: string | ArrayBuffer; seconds: number }[] = [];
+	// The client is told the session started once; setups acknowledged after a reconnect stay upstream
+	private setupForwarded = false;
+	private state?: LiveSessionState;
+	private finalizing?: Promise<void>;
+	private transcript?: TranscriptCollector;
+
+	async init(config: LiveSessionConfig): Promise<void> {
+		const now = Date.now();
+		this.state = {
+			config,
+			startedAt: now,
+			lastSeenAt: now,
+			usage: aggregateUsage([]),
+			usageEvents: 0,
+			audio: { inputSeconds: 0, outputSeconds: 0 },
+			lastActivityAt: now,
+			warningsSent: [],
+		};
+		await this.ctx.storage.put('state', this.state);
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const state = await this.loadState();
+		if (!state) {
+			return errorResponse(request, 'INTERNAL_ERROR', { details: { reason: 'Live session not initialised' } });
+		}
+		this.colo = (request as any).cf?.colo || 'UNKNOWN';
+
+		try {
+			// Drop our own auth so Google does not try to interpret it
+			this.proxyHeaders = new Headers(request.headers);
+			this.proxyHeaders.delete('Authorization');
+			this.proxyHeaders.delete('Host');
+
+			const response = await this.connectGemini(state);
+			if (response) {
+				await this.ctx.storage.deleteAll();
+				return response;
+			}
+
+			console.log('[Live] Connected to Gemini. Accepting client connection.');
+
+			const pair = new WebSocketPair();
+			const client = pair[0];
+			const worker = pair[1];
+			worker.accept();
+			this.client = worker;
+
+			const { config } = state;
+			if (config.transcript) {
+				this.transcript = new TranscriptCollector(state.startedAt, config.sourceLanguage, config.targetLanguage);
+			}
+			this.ctx.waitUntil(
+				createLiveSession(this.env.logs_db, {
+					id: this.ctx.id.toString(),
+					userId: config.userId,
+					sourceLang: config.sourceLanguage,
+					targetLang: config.targetLanguage,
+					mode: config.mode,
+					transcriptEnabled: config.transcript,
+					startedAt: state.startedAt,
+				}).catch((err) => console.error('[Live] Failed to record session:', err)),
+			);
+
+			worker.addEventListener('message', (event) => {
+				const data = event.data;
+				const control = parseControlFrame(data);
+				if (control) {
+					if ('error' in control) {
+						this.sendControl({ type: 'error', command: control.command, id: control.id, message: control.error });
+					} else {
+						// One at a time, so two quick swaps cannot race each other's reconnect
+						this.controlQueue = this.controlQueue.then(() => this.handleControl(state, control.message));
+						this.ctx.waitUntil(this.controlQueue);
+					}
+					return;
+				}
+				const message = parseClientMessage(data);
+				// The setup is ours; drop any the client sends
+				if (message?.setup) return;
+				if (this.paused && (typeof data !== 'string' || message?.realtimeInput)) return;
+				const seconds = message?.realtimeInput ? getRealtimeInputAudioSeconds(message.realtimeInput) : 0;
+				this.forwardToGemini(state, data, seconds);
+			});
+
+			worker.addEventListener('close', (evt) => this.handleClose(evt));
+			worker.addEventListener('error', (e) => {
+				const msg = (e as any).message || (e as any).error || JSON.stringify(e);
+				console.error(`[Live] Worker WebSocket error (Node: ${this.colo}): ${msg}`);
+				this.handleClose(e);
+			});
+
+			await this.scheduleAlarm(state, Date.now());
+
+			return new Response(null, {
+				status: 101,
+				webSocket: client,
+			});
+		} catch (err: any) {
+			console.error('[Live] Connection failed (catch block):', err);
+			await this.ctx.storage.deleteAll();
+			return errorResponse(request, 'UPSTREAM_UNAVAILABLE', { details: { reason: err.message } });
+		}
+	}
+
+	// Opens a Gemini socket and sends the current setup, resuming the previous Gemini session when asked
+	// and a handle is known. Returns an error response when the upgrade fails.
+	private async connectGemini(state: LiveSessionState, resume = false): Promise<Response | undefined> {
+		console.log('[Live] Connecting to Gemini');
+
+		const response = await fetch(GEMINI_LIVE_URL + this.env.GEMINI_API_KEY, {
+			headers: this.proxyHeaders,
+			// @ts-ignore
+			webSocket: true,
+		});
+
+		const gemini = response.webSocket;
+		if (!gemini) {
+			console.error(`[Live] Failed to webSocket upgrade with Gemini. Status: ${response.status} ${response.statusText}`);
+			console.error(`[Live] Error body: ${await response.text()}`);
+			return errorResponse(this.proxyHeaders && { headers: this.proxyHeaders }, 'UPSTREAM_UNAVAILABLE', { details: { upstream_status: response.status } });
+		}
+
+		gemini.accept();
+		this.gemini = gemini;
+		this.geminiReady = false;
+
+		const { setup } = state.config as { setup: { setup: object } };
+		if (resume && state.resumptionHandle) {
+			gemini.send(JSON.stringify({ setup: { ...setup.setup, sessionResumption: { handle: state.resumptionHandle } } }));
+		} else {
+			// A handle from a session with another setup cannot be resumed into this one
+			state.resumptionHandle = undefined;
+			gemini.send(JSON.stringify(setup));
+		}
+
+		gemini.addEventListener('message', (event) => {
+			const message = parseGeminiMessage(event.data);
+			// Audio spoken while connecting goes out once Gemini accepts input
+			if (message?.setupComplete && this.gemini === gemini) {
+				this.geminiReady = true;
+				for (const { data, seconds } of this.buffered.splice(0)) {
+					this.forwardToGemini(state, data, seconds);
+				}
+			}
+			if (message?.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+				state.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+				this.ctx.storage.put('state', state).catch((err) => console.error('[Live] Failed to persist resumption handle:', err));
+			}
+			if (message?.goAway && this.gemini === gemini) {
+				console.log(`[Live] Gemini is going away (time left: ${message.goAway.timeLeft}). Reconnecting early.`);
+				this.recoverGemini(state, { type: 'goAway' });
+			}
+			if (message?.usageMetadata) {
+				console.log('[Live] Received usage update:', JSON.stringify(message.usageMetadata));
+				this.recordUsage(state, message.usageMetadata);
+			}
+			if (message?.serverContent) {
+				this.meterAudio(state, 'outputSeconds', getServerContentAudioSeconds(message.serverContent));
+				if (this.transcript) this.recordTranscript(message.serverContent);
+			}
+			// Connection management is handled here; the client never sees it
+			if (message?.sessionResumptionUpdate || message?.goAway || (message?.setupComplete && this.setupForwarded)) return;
+			if (message?.setupComplete) this.setupForwarded = true;
+			this.client?.send(event.data);
+		});
+
+		// A socket already replaced by a reconnect is ignored
+		gemini.addEventListener('close', (evt) => {
+			if (this.gemini === gemini) this.recoverGemini(state, evt);
+		});
+		gemini.addEventListener('error', (e) => {
+			if (this.gemini !== gemini) return;
+			const msg = (e as any).message || (e as any).error || JSON.stringify(e);
+			console.error(`[Live] Gemini WebSocket error (Node: ${this.colo}): ${msg}`);
+			this.recoverGemini(state, e);
+		});
+		return undefined;
+	}
+
+	// Input audio is metered as it reaches Gemini, so frames dropped from a full buffer are never charged
+	private forwardToGemini(state: LiveSessionState, data: string | ArrayBuffer, seconds: number): void {
+		if (this.gemini && this.geminiReady) {
+			this.gemini.send(data);
+			this.meterAudio(state, 'inputSeconds', seconds);
+			return;
+		}
+		this.buffered.push({ data, seconds });
+		if (this.buffered.length > LIVE_SESSION_LIMITS.maxBufferedFrames) {
+			this.buffered.shift();
+		}
+	}
+
+	// Gemini dropped (or announced it is about to): reconnect upstream while the client stays connected
+	private recoverGemini(state: LiveSessionState, evt: any): void {
+		if (!this.client || LIVE_SESSION_LIMITS.fatalUpstreamCloseCodes.includes(evt?.code)) {
+			this.handleClose(evt);
+			return;
+		}
+		console.log(`[Live] Lost Gemini connection (${evt?.type ?? 'unknown'}${evt?.code ? ` ${evt.code}` : ''}). Reconnecting.`);
+
+		const previous = this.gemini;
+		this.gemini = undefined;
+		try {
+			previous?.close(1000, 'Reconnecting');
+		} catch {}
+
+		this.controlQueue = this.controlQueue.then(() => this.resumeGemini(state));
+		this.ctx.waitUntil(this.controlQueue);
+	}
+
+	private async resumeGemini(state: LiveSessionState): Promise<void> {
+		this.sendControl({ type: 'reconnecting' });
+
+		for (const delay of LIVE_SESSION_LIMITS.reconnectDelaysMs) {
+			if (delay > 0) {
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+			// The client left or the session ended while we waited
+			if (!this.client) return;
+
+			const resumed = !!state.resumptionHandle;
+			try {
+				if (!(await this.connectGemini(state, true))) {
+					if (!this.client) {
+						this.closeSockets(1000, 'Work complete');
+						return;
+					}
+					console.log(`[Live] Reconnected to Gemini (resumed: ${resumed}).`);
+					this.sendControl({ type: 'reconnected', resumed });
+					return;
+				}
+			} catch (err) {
+				console.error('[Live] Reconnect attempt failed:', err);
+			}
+		}
+
+		console.error(`[Live] Giving up on Gemini for ${state.config.userId} after ${LIVE_SESSION_LIMITS.reconnectDelaysMs.length} attempts.`);
+		this.closeSockets(LIVE_SESSION_LIMITS.upstreamLostCloseCode, 'Translation backend unavailable');
+		await this.finalize(Date.now());
+	}
+
+	private handleClose(evt: any): void {
+		if (evt instanceof ErrorEvent || (evt && evt.error)) {
+			console.error('[Live] Connection Error Details:', evt.message || evt.error);
+		}
+		console.log('[Live] Connection closing. Source:', evt && evt.type ? evt.type : 'unknown');
+		this.closeSockets(1000, 'Work complete');
+		this.ctx.waitUntil(this.finalize(Date.now()));
+	}
+
+	private async handleControl(state: LiveSessionState, message: LiveControlMessage): Promise<void> {
+		const { config } = state;
+		const reply = { command: message.type, id: message.id };
+
+		switch (message.type) {
+			case 'ping':
+				this.sendControl({ type: 'pong', id: message.id });
+				return;
+			case 'pause':
+				if (!this.paused) {
+					this.paused = true;
+					// Lets Gemini finish the turn in flight instead of waiting for more audio
+					this.gemini?.send(JSON.stringify({ realtimeInput: { audioStreamEnd: true } }));
+				}
+				this.sendControl({ type: 'ack', ...reply });
+				return;
+			case 'resume':
+				this.paused = false;
+				this.sendControl({ type: 'ack', ...reply });
+				return;
+			case 'swap_languages':
+				[config.sourceLanguage, config.targetLanguage] = [config.targetLanguage, config.sourceLanguage];
+				break;
+			case 'set_vad':
+				config.vad = message.enabled;
+				if (message.silence_duration_ms !== undefined) {
+					config.silenceDurationMs = message.silence_duration_ms;
+				}
+				break;
+		}
+
+		// The rest change the setup, which Gemini only accepts when a connection opens
+		const { setup, promptVersion } = buildLiveSetup(config);
+		config.setup = setup;
+		config.promptVersion = promptVersion;
+		await this.ctx.storage.put('state', state);
+
+		if (!(await this.reconnectGemini(state))) {
+			this.sendControl({ type: 'error', ...reply, message: 'Failed to reconnect to Gemini' });
+			this.handleClose({ type: 'reconnect' });
+			return;
+		}
+
+		if (message.type === 'swap_languages') {
+			this.sendControl({ type: 'ack', ...reply, source_language: config.sourceLanguage, target_language: config.targetLanguage });
+		} else {
+			this.sendControl({
+				type: 'ack',
+				...reply,
+				enabled: config.vad,
+				silence_duration_ms: config.silenceDurationMs ?? LIVE_MODES[config.mode].silenceDurationMs,
+			});
+		}
+	}
+
+	// Replaces the Gemini socket while the client stays connected; usage keeps accumulating on the same session
+	private async reconnectGemini(state: LiveSessionState): Promise<boolean> {
+		const previous = this.gemini;
+		this.gemini = undefined;
+		try {
+			previous?.close(1000, 'Reconnecting');
+		} catch {}
+
+		// A turn cut short by the reconnect is still part of the transcript
+		if (this.transcript) {
+			this.saveTranscript(this.transcript.completeTurn());
+		}
+
+		try {
+			return !(await this.connectGemini(state));
+		} catch (err) {
+			console.error('[Live] Reconnect to Gemini failed:', err);
+			return false;
+		}
+	}
+
+	// Heartbeat while the sockets are open; after an eviction or crash the sockets are gone and the
+	// alarm bills whatever was persisted
+	async alarm(): Promise<void> {
+		const state = await this.loadState();
+		if (!state) return;
+
+		if (!this.client || state.endedAt) {
+			console.log(`[Live] Session for ${state.config.userId} has no live sockets. Finalizing from storage.`);
+			await this.finalize(state.endedAt ?? state.lastSeenAt);
+			return;
+		}
+
+		const now = Date.now();
+		state.lastSeenAt = now;
+		await this.ctx.storage.put('state', state);
+
+		const deadline = this.getDeadline(state, now);
+		if (now >= deadline) {
+			console.log(`[Live] User ${state.config.userId} ran out of live_translation seconds. Closing session.`);
+			this.sendControl({ type: 'quota_exceeded' });
+			this.closeSockets(LIVE_SESSION_LIMITS.quotaExceededCloseCode, 'Live translation quota exceeded');
+			await this.finalize(now);
+			return;
+		}
+
+		if (now - state.lastActivityAt >= LIVE_SESSION_LIMITS.idleTimeoutSeconds * 1000) {
+			console.log(`[Live] Session for ${state.config.userId} has been idle. Closing session.`);
+			this.sendControl({ type: 'idle_timeout' });
+			this.closeSockets(LIVE_SESSION_LIMITS.idleCloseCode, 'Live session idle');
+			await this.finalize(now);
+			return;
+		}
+
+		// One warning per alarm: a session starting below several thresholds only hears the lowest one
+		const remainingSeconds = Math.ceil((deadline - now) / 1000);
+		const due = LIVE_SESSION_LIMITS.warningSeconds.filter((t) => remainingSeconds <= t && !state.warningsSent.includes(t));
+		if (due.length > 0) {
+			this.sendControl({ type: 'quota_warning', remaining_seconds: remainingSeconds });
+			state.warningsSent.push(...due);
+			await this.ctx.storage.put('state', state);
+		}
+
+		await this.scheduleAlarm(state, now);
+	}
+
+	private async loadState(): Promise<LiveSessionState | undefined> {
+		if (!this.state) {
+			this.state = await this.ctx.storage.get<LiveSessionState>('state');
+		}
+		return this.state;
+	}
+
+	private getMeteredSeconds(state: LiveSessionState): number {
+		return Math.max(state.audio.inputSeconds, state.audio.outputSeconds);
+	}
+
+	// When the budget runs out if audio streams continuously from `now`
+	private getDeadline(state: LiveSessionState, now: number): number {
+		const { remainingSeconds, quotaRate } = state.config;
+		const budgetLeft = remainingSeconds - this.getMeteredSeconds(state) * quotaRate;
+		return now + (Math.max(budgetLeft, 0) / quotaRate) * 1000;
+	}
+
+	private meterAudio(state: LiveSessionState, direction: keyof LiveSessionState['audio'], seconds: number): void {
+		if (seconds <= 0) return;
+		state.audio[direction] += seconds;
+		state.lastActivityAt = Date.now();
+	}
+
+	// Next heartbeat, pending warning, idle timeout or the deadline, whichever comes first
+	private async scheduleAlarm(state: LiveSessionState, now: number): Promise<void> {
+		const deadline = this.getDeadline(state, now);
+		const warnings = LIVE_SESSION_LIMITS.warningSeconds.filter((t) => !state.warningsSent.includes(t)).map((t) => deadline - t * 1000);
+		const idleAt = state.lastActivityAt + LIVE_SESSION_LIMITS.idleTimeoutSeconds * 1000;
+		await this.ctx.storage.setAlarm(Math.min(now + HEARTBEAT_MS, deadline, idleAt, ...warnings.filter((at) => at > now)));
+	}
+
+	// Control frames carry a top-level `type`, which Gemini's own messages never have
+	private sendControl(frame: { type: string; [key: string]: unknown }): void {
+		try {
+			this.client?.send(JSON.stringify(frame));
+		} catch (e) {
+			console.error('[Live] Failed to send control frame:', e);
+		}
+	}
+
+	private recordUsage(state: LiveSessionState, usageMetadata: any): void {
+		state.usage = mergeUsage(state.usage, aggregateUsage([usageMetadata]));
+		state.usageEvents++;
+		state.lastSeenAt = Date.now();
+		this.ctx.storage.put('state', state).catch((err) => console.error('[Live] Failed to persist usage:', err));
+	}
+
+	// `code` is for the client; Gemini is always closed normally
+	private recordTranscript(serverContent: any): void {
+		const transcript = this.transcript!;
+		if (serverContent.inputTranscription?.text) {
+			transcript.add('input', serverContent.inputTranscription.text);
+		}
+		if (serverContent.outputTranscription?.text) {
+			transcript.add('output', serverContent.outputTranscription.text);
+		}
+		// TEXT-only modes answer with text parts instead of an output transcription
+		for (const part of serverContent.modelTurn?.parts ?? []) {
+			if (typeof part.text === 'string' && part.text) {
+				transcript.add('output', part.text);
+			}
+		}
+		if (serverContent.turnComplete) {
+			this.saveTranscript(transcript.completeTurn());
+		}
+	}
+
+	private saveTranscript(turns: TranscriptTurn[]): void {
+		if (turns.length === 0) return;
+		const sessionId = this.ctx.id.toString();
+		this.ctx.waitUntil(
+			saveTranscriptTurns(
+				this.env.logs_db,
+				turns.map((turn) => ({ sessionId, ...turn })),
+			).catch((err) => console.error('[Live] Failed to save transcript:', err)),
+		);
+	}
+
+	private closeSockets(code: number, reason: string): void {
+		try {
+			this.client?.close(code, reason);
+		} catch {}
+		try {
+			this.gemini?.close(1000, reason);
+		} catch {}
+		this.client = undefined;
+		this.gemini = undefined;
+	}
+
+	// Logs the session exactly once, whichever of close, error or alarm gets here first
+	private finalize(endedAt: number): Promise<void> {
+		if (!this.finalizing) {
+			this.finalizing = this.logSession(endedAt).catch(async (err) => {
+				console.error('[Live] Failed to log usage, retrying from alarm:', err);
+				this.finalizing = undefined;
+				await this.ctx.storage.setAlarm(Date.now() + HEARTBEAT_MS);
+			});
+		}
+		return this.finalizing;
+	}
+
+	private async logSession(endedAt: number): Promise<void> {
+		const state = await this.loadState();
+		if (!state) return;
+
+		if (!state.endedAt) {
+			state.endedAt = endedAt;
+			await this.ctx.storage.put('state', state);
+		}
+
+		const { config, usage } = state;
+		const wallSeconds = Math.ceil((state.endedAt - state.startedAt) / 1000);
+		const meteredSeconds = Math.ceil(this.getMeteredSeconds(state));
+		// Quota seconds at the mode's rate, never past the budget the session was cut off at
+		const durationSeconds = Math.min(Math.ceil(this.getMeteredSeconds(state) * config.quotaRate), config.remainingSeconds);
+
+		console.log('--- Session Usage Summary ---');
+		console.log(`Total Usage Updates Received: ${state.usageEvents}`);
+		console.log(`Duration: ${durationSeconds}s (metered ${meteredSeconds}s, wall clock ${wallSeconds}s)`);
+		console.log(`Aggregated Breakdown:`, JSON.stringify(usage, null, 2));
+		console.log('--- End Summary ---');
+
+		const cost = calculateCostFromBreakdown(config.model, usage, PRICING_PER_1M_LIVE);
+		// Streamed audio is billed against the quota even if Gemini never reported token usage
+		if (((usage.input.total > 0 || usage.output.total > 0) && cost > 0) || meteredSeconds > 0) {
+			await logUsage(
+				this.env.logs_db,
+				config.userId,
+				config.model,
+				usage.input.total,
+				usage.output.total,
+				cost,
+				'live_translation',
+				undefined,
+				durationSeconds,
+				config.tier,
+				{ promptVersion: config.promptVersion, wallSeconds, meteredSeconds, quota: config.quota },
+			);
+			console.log(`[Live] Usage logged. Duration: ${durationSeconds}s, Cost: ${cost} micros`);
+		} else {
+			console.log('[Live] No usage to log (no tokens and no audio). This usually means failure before any content generation.');
+		}
+
+		// Billing is done; a failure here must not make the alarm retry (and double-log) the session
+		try {
+			if (this.transcript) {
+				this.saveTranscript(this.transcript.completeTurn());
+			}
+			// The session record keeps the wall-clock length
+			await endLiveSession(this.env.logs_db, this.ctx.id.toString(), state.endedAt, wallSeconds);
+		} catch (err) {
+			console.error('[Live] Failed to close session record:', err);
+		}
+
+		await this.ctx.storage.deleteAlarm();
+		await this.ctx.storage.deleteAll();
+		this.state = undefined;
+	}
+}
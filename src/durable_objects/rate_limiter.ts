@@ -0,0 +1,66 @@
+import { DurableObject } from 'cloudflare:workers';
+import { RateLimitRule } from '../config/limits';
+
+// One Durable Object per user, so every request of the user goes through the same counters no
+// matter which isolate served it. Each resource keeps a log of the times it was allowed through,
+// trimmed to the longest window of its rules (a rolling window, not calendar buckets), so a user's
+// storage never holds more than a few timestamps per resource.
+
+export interface RateLimitResult {
+	allowed: boolean;
+	// The rule closest to its limit (the one that refused the request, if any)
+	limit: number;
+	windowSeconds: number;
+	remaining: number;
+	// When that rule's oldest counted request leaves its window
+	resetAt: number;
+	// Seconds until every rule would let a request through; 0 when allowed
+	retryAfterSeconds: number;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+	// `cost` requests are counted at once (e.g. one per prompt of a batch). A rule smaller than the cost only
+	// needs to be empty, so such a request is not refused forever.
+	async consume(key: string, rules: RateLimitRule[], now: number = Date.now(), cost = 1): Promise<RateLimitResult> {
+		const longestWindowMs = Math.max(...rules.map((rule) => rule.windowSeconds * 1000));
+		const hits = ((await this.ctx.storage.get<number[]>(`hits:${key}`)) || []).filter((at) => at > now - longestWindowMs);
+
+		const checks = rules.map((rule) => {
+			const windowMs = rule.windowSeconds * 1000;
+			const inWindow = hits.filter((at) => at > now - windowMs);
+			const needed = Math.min(cost, rule.requests);
+			const remaining = rule.requests - inWindow.length;
+			return {
+				rule,
+				inWindow,
+				remaining,
+				needed,
+				// The hit that has to leave the window before this request fits
+				freesAt: remaining < needed ? inWindow[needed - remaining - 1] + windowMs : now,
+			};
+		});
+
+		const blocked = checks.filter((check) => check.remaining < check.needed);
+		const allowed = blocked.length === 0;
+		if (allowed) {
+			hits.push(...Array(cost).fill(now));
+		}
+		await this.ctx.storage.put(`hits:${key}`, hits);
+
+		const remainingAfter = (check: (typeof checks)[number]) => Math.max(0, check.remaining - (allowed ? cost : 0));
+		const tightest = allowed
+			? checks.reduce((a, b) => (remainingAfter(b) < remainingAfter(a) ? b : a))
+			: blocked.reduce((a, b) => (b.freesAt > a.freesAt ? b : a));
+		const oldest = allowed ? (tightest.inWindow[0] ?? now) : tightest.inWindow[0];
+		const retryAt = allowed ? now : tightest.freesAt;
+
+		return {
+			allowed,
+			limit: tightest.rule.requests,
+			windowSeconds: tightest.rule.windowSeconds,
+			remaining: remainingAfter(tightest),
+			resetAt: oldest + tightest.rule.windowSeconds * 1000,
+			retryAfterSeconds: Math.ceil((retryAt - now) / 1000),
+		};
+	}
+}
@@ -11,42 +11,86 @@ import {
 	handleWordTranslation,
 	handleSmartTextTranslation,
 	handleInputCorrection,
+	handleBatchTranslation,
 } from './controllers/translation';
-import { handleTts, handleTtsPreview, handleTts2 } from './controllers/tts';
+import { handleTts, handleTtsPreview, handleTts2, handleListVoices } from './controllers/tts';
 import { handleGetQuota, handleInitData } from './controllers/user';
-import { withAuth } from './middleware/auth';
+import { handleGetTranscript, handleListSessions } from './controllers/sessions';
+import {
+	handleDeleteQuotaOverride,
+	handleDeleteTier,
+	handleGetUser,
+	handleGetUserCredits,
+	handleGetUserEntitlements,
+	handleGrantCredits,
+	handleListQuotaOverrides,
+	handleListTiers,
+	handleResetDailyUsage,
+	handleSaveTier,
+	handleSetQuotaOverride,
+	handleTranscodeTts,
+} from './controllers/admin';
+import { withAuth, withUser } from './middleware/auth';
+import { withAdmin } from './middleware/admin';
+import { negotiateResponse } from './services/stream';
+import { errorResponse } from './utils/errors';
 
-const router = AutoRouter();
+const router = AutoRouter({
+	catch: (err, request) => {
+		console.error('Unhandled error:', err);
+		return errorResponse(request, 'INTERNAL_ERROR');
+	},
+});
 
 // @ts-ignore
 router.get('/translation/live', withAuth, handleTranslation);
 // @ts-ignore
-router.post('/translation/correct_input', (req, env, ctx) => handleInputCorrection(req, env, ctx));
+router.post('/translation/correct_input', (req, env, ctx) => negotiateResponse(req, handleInputCorrection(req, env, ctx)));
 // @ts-ignore
-router.post('/translation/text', (req, env, ctx) => handleTextTranslation(req, env, ctx));
+router.post('/translation/text', (req, env, ctx) => negotiateResponse(req, handleTextTranslation(req, env, ctx)));
 // @ts-ignore
-router.post('/translation/smart_text', (req, env, ctx) => handleSmartTextTranslation(req, env, ctx));
+router.post('/translation/smart_text', (req, env, ctx) => negotiateResponse(req, handleSmartTextTranslation(req, env, ctx)));
 // @ts-ignore
 router.post('/translation/classify', (req, env, ctx) => handleClassifyText(req, env, ctx));
 // @ts-ignore
-router.post('/translation/word', (req, env, ctx) => handleWordTranslation(req, env, ctx));
+router.post('/translation/word', (req, env, ctx) => negotiateResponse(req, handleWordTranslation(req, env, ctx)));
+// @ts-ignore
+router.post('/translation/longtext', (req, env, ctx) => negotiateResponse(req, handleLongTextTranslation(req, env, ctx)));
 // @ts-ignore
-router.post('/translation/longtext', (req, env, ctx) => handleLongTextTranslation(req, env, ctx));
+router.post('/translation/batch', (req, env, ctx) => handleBatchTranslation(req, env, ctx));
 // @ts-ignore
 router.post('/translation/tts', (req, env, ctx) => handleTts(req, env, ctx));
 // @ts-ignore
 router.post('/translation/tts2', (req, env, ctx) => handleTts2(req, env, ctx));
 // @ts-ignore
-router.post('/translation/image', withAuth, (req, env, ctx) => handleImageTranslation(req, env, ctx));
+router.post('/translation/image', (req, env, ctx) => negotiateResponse(req, handleImageTranslation(req, env, ctx)));
 // @ts-ignore
 router.post('/translation/recognition', withAuth, (req, env, ctx) => handleRecognition(req, env, ctx));
 router.get('/tts/preview', (req, env, ctx) => handleTtsPreview(req, env, ctx));
+router.get('/tts/voices', (request, env) => handleListVoices(request, env));
 router.post('/login', (request, env) => handleLogin(request, env));
 router.get('/user/quota', withAuth, (request, env, ctx) => handleGetQuota(request, env, ctx));
 router.post('/user/init-data', withAuth, (request, env) => handleInitData(request, env));
+router.get('/sessions', withUser, (request, env) => handleListSessions(request, env));
+router.get('/sessions/:id/transcript', withUser, (request, env) => handleGetTranscript(request, env));
 router.post('/refresh', (request, env) => handleRefresh(request, env));
 router.post('/webhooks/revenuecat', (request, env) => handleRevenueCatWebhook(request, env));
-router.all('*', () => new Response('Not Found.', { status: 404 }));
+router.get('/admin/tiers', withAdmin, (request, env) => handleListTiers(request, env));
+router.put('/admin/tiers/:tier', withAdmin, (request, env) => handleSaveTier(request, env));
+router.delete('/admin/tiers/:tier', withAdmin, (request, env) => handleDeleteTier(request, env));
+router.get('/admin/users/:id', withAdmin, (request, env) => handleGetUser(request, env));
+router.get('/admin/users/:id/entitlements', withAdmin, (request, env) => handleGetUserEntitlements(request, env));
+router.get('/admin/users/:id/credits', withAdmin, (request, env) => handleGetUserCredits(request, env));
+router.post('/admin/users/:id/credits', withAdmin, (request, env) => handleGrantCredits(request, env));
+router.post('/admin/users/:id/usage/reset', withAdmin, (request, env) => handleResetDailyUsage(request, env));
+router.get('/admin/users/:id/quota-override', withAdmin, (request, env) => handleListQuotaOverrides(request, env));
+router.put('/admin/users/:id/quota-override', withAdmin, (request, env) => handleSetQuotaOverride(request, env));
+router.delete('/admin/users/:id/quota-override', withAdmin, (request, env) => handleDeleteQuotaOverride(request, env));
+router.post('/admin/tts/transcode', withAdmin, (request, env) => handleTranscodeTts(request, env));
+router.all('*', (request) => errorResponse(request, 'ROUTE_NOT_FOUND'));
+
+export { LiveSession } from './durable_objects/live_session';
+export { RateLimiter } from './durable_objects/rate_limiter';
 
 export default {
 	fetch: router.fetch,
@@ -0,0 +1,20 @@
+import { IRequest } from 'itty-router';
+import { errorResponse } from '../utils/errors';
+
+// Admin endpoints are called by internal tooling with the ADMIN_API_KEY secret as a bearer token
+export async function withAdmin(request: IRequest, env: Env) {
+	const authHeader = request.headers.get('Authorization');
+	const key = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+
+	if (!env.ADMIN_API_KEY || !key || !timingSafeEqual(key, env.ADMIN_API_KEY)) {
+		return errorResponse(request, 'UNAUTHORIZED');
+	}
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const left = encoder.encode(a);
+	const right = encoder.encode(b);
+	if (left.byteLength !== right.byteLength) return false;
+	return crypto.subtle.timingSafeEqual(left, right);
+}
@@ -1,18 +1,49 @@
 import { IRequest } from 'itty-router';
-import { verify } from '../utils/jwt';
-import { getUserEntitlements } from '../models/subscription';
-import { getUsageStats } from '../models/usage';
-import { ResourceType, MembershipTier, TIER_LIMITS, getResourceTypeFromUrl } from '../config/limits';
+import { TokenExpiredError, verify } from '../utils/jwt';
+import { ErrorCode, errorBody, errorResponse } from '../utils/errors';
+import { getUsageStats, getUserCredits } from '../models/usage';
+import { CREDIT_RESOURCE_TYPES, ResourceType, getResourceTypeFromUrl, isMeteredPath } from '../config/limits';
+import { getMembership, getUserLimits } from '../services/tiers';
+import { QuotaWindow, getQuotaExceededDetails } from '../services/quota';
+import { enforceRateLimit } from './rate_limit';
+
+const QUOTA_ERROR_CODES = {
+	daily: 'QUOTA_DAILY_EXCEEDED',
+	monthly: 'QUOTA_MONTHLY_EXCEEDED',
+	total: 'QUOTA_TOTAL_EXCEEDED',
+} as const satisfies Record<QuotaWindow, ErrorCode>;
 
 export interface AuthenticatedRequest extends IRequest {
 	userId: string;
-	membershipTier: MembershipTier;
+	// A tier_configs tier, e.g. one of the built-in MembershipTier values
+	membershipTier: string;
 }
 
-export async function withAuth(request: IRequest, env: Env, ctx: ExecutionContext) {
+// Identifies the caller without enforcing auth or quota, e.g. to pick their prompt variant before a cache lookup
+export async function getOptionalUserId(request: IRequest, env: Env): Promise<string | null> {
+	const authHeader = request.headers.get('Authorization');
+	if (!authHeader) return null;
+	const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+
+	try {
+		const payload = await verify(token, env.JWT_SECRET);
+		return (payload.uid as string) || null;
+	} catch (e) {
+		return null;
+	}
+}
+
+// `rateLimitCost` is how many requests the call counts as against the rate limits, for endpoints that make several
+// provider calls per request. Endpoints whose calls depend on the caller (e.g. their remaining quota) pass a function.
+export async function withAuth(
+	request: IRequest,
+	env: Env,
+	ctx: ExecutionContext,
+	options: { rateLimitCost?: number | ((userId: string, tier: string) => Promise<number>) } = {},
+) {
 	const authHeader = request.headers.get('Authorization');
 	if (!authHeader) {
-		return new Response('Missing Authorization header', { status: 401 });
+		return errorResponse(request, 'AUTH_MISSING');
 	}
 
 	// Expect "Bearer <token>" or just "<token>"? Usually Bearer
@@ -25,76 +56,68 @@ export async function withAuth(request: IRequest, env: Env, ctx: ExecutionContex
 		const userId = payload.uid as string;
 
 		if (!userId) {
-			return new Response('Invalid token payload', { status: 401 });
+			return errorResponse(request, 'TOKEN_INVALID');
 		}
 
 		// Attach userId to request
 		(request as AuthenticatedRequest).userId = userId;
 
-		// Check Entitlements
-		const entitlements = await getUserEntitlements(env.users_db, userId);
-
 		// Determine Resource Type from URL
 		const url = new URL(request.url);
 		// @ts-ignore
 		const resourceType: ResourceType = getResourceTypeFromUrl(url.pathname);
 
-		// Determine Membership Tier
-		let tier: MembershipTier = 'FREE';
-		const activeEntitlements = entitlements.filter((e) => e.status === 'active' && (e.expiresAt === null || e.expiresAt > Date.now()));
-		const entitlementIds = activeEntitlements.map((e) => e.entitlementId);
-
-		if (entitlementIds.includes('unlimited_member')) {
-			tier = 'UNLIMITED';
-		} else if (entitlementIds.includes('pro_member')) {
-			tier = 'PRO';
-		} else if (entitlementIds.includes('lite_member')) {
-			tier = 'LITE';
-		}
-
+		// Determine Membership Tier from the active entitlements (tier_configs)
+		const { tier } = await getMembership(env, userId);
 		(request as AuthenticatedRequest).membershipTier = tier;
 
-		// Check for Trial Cancellation state (isTrial=1 AND autoRenew=0)
-		const isTrialCancelled = activeEntitlements.some((e) => e.isTrial === 1 && e.autoRenew === 0);
-
-		if (isTrialCancelled) {
-			tier = 'TRIAL_CANCELLED';
-			(request as AuthenticatedRequest).membershipTier = tier;
+		// Checked before the quotas so a burst is refused before it reaches the provider
+		if (isMeteredPath(url.pathname)) {
+			const cost = typeof options.rateLimitCost === 'function' ? await options.rateLimitCost(userId, tier) : options.rateLimitCost;
+			const rateLimited = await enforceRateLimit(request, env, userId, tier, resourceType, cost);
+			if (rateLimited) return rateLimited;
 		}
 
-		// Get Limits (now automatic via tier)
-		const limits = TIER_LIMITS[tier][resourceType];
+		const limits = await getUserLimits(env, userId, tier, resourceType);
 
 		// Check Rate Limit (Daily and Monthly) + Total if needed
 		const needTotal = limits.total !== undefined;
 		const usage = await getUsageStats(env.logs_db, userId, resourceType, needTotal);
 
+		// Read at most once, only when a quota is used up
+		let creditsSeconds: number | undefined;
+		const getCredits = async () => (creditsSeconds ??= await getUserCredits(env.logs_db, userId));
+
 		// Helper to check credit balance if quota exceeded (only for live_translation)
 		const checkCreditsFallback = async () => {
-			if (resourceType !== 'live_translation') return false; // Only live translation supports credits
+			if (!CREDIT_RESOURCE_TYPES.includes(resourceType)) return false;
 
-			// Import locally to avoid circular dep issues or top-level DBinit if any
-			const { createDb } = await import('../db');
-			const { userCredits } = await import('../db/schema');
-			const { eq } = await import('drizzle-orm');
-
-			const db = createDb(env.logs_db);
-			const credit = await db.select().from(userCredits).where(eq(userCredits.userId, userId)).get();
-
-			if (credit && credit.balanceSeconds > 0) {
-				console.log(`[Auth] User ${userId} exceeded quota but has ${credit.balanceSeconds}s credits. Allowing.`);
+			const balance = await getCredits();
+			if (balance > 0) {
+				console.log(`[Auth] User ${userId} exceeded quota but has ${balance}s credits. Allowing.`);
 				return true;
 			}
 			return false;
 		};
 
+		const rejectQuota = async (window: QuotaWindow) =>
+			errorResponse(request, QUOTA_ERROR_CODES[window], {
+				details: await getQuotaExceededDetails(env, {
+					userId,
+					window,
+					tier,
+					resourceType,
+					limits,
+					usage,
+					creditsSeconds: await getCredits(),
+				}),
+			});
+
 		if (usage.daily >= limits.daily) {
 			console.log('用户超过了日使用量限制');
 			const hasCredits = await checkCreditsFallback();
 			if (!hasCredits) {
-				return new Response(`Daily Rate limit exceeded for ${tier} tier on ${resourceType}. Limit: ${limits.daily}, Used: ${usage.daily}`, {
-					status: 429,
-				});
+				return rejectQuota('daily');
 			}
 		}
 
@@ -102,10 +125,7 @@ export async function withAuth(request: IRequest, env: Env, ctx: ExecutionContex
 			console.log('用户超过了月使用量限制');
 			const hasCredits = await checkCreditsFallback();
 			if (!hasCredits) {
-				return new Response(
-					`Monthly Rate limit exceeded for ${tier} tier on ${resourceType}. Limit: ${limits.monthly}, Used: ${usage.monthly}`,
-					{ status: 429 }
-				);
+				return rejectQuota('monthly');
 			}
 		}
 
@@ -113,16 +133,75 @@ export async function withAuth(request: IRequest, env: Env, ctx: ExecutionContex
 			console.log('用户超过了总使用量限制');
 			const hasCredits = await checkCreditsFallback();
 			if (!hasCredits) {
-				return new Response(
-					`Total Usage limit exceeded for ${tier} tier on ${resourceType}. Limit: ${limits.total}, Used: ${usage.total}`,
-					{
-						status: 429,
-					}
-				);
+				return rejectQuota('total');
 			}
 		}
 	} catch (err) {
+		if (err instanceof TokenExpiredError) {
+			return errorResponse(request, 'TOKEN_EXPIRED');
+		}
 		console.error('Auth error:', err);
-		return new Response('Invalid or expired token', { status: 401 });
+		return errorResponse(request, 'TOKEN_INVALID');
+	}
+}
+
+// Requests left in every window for the user's limits, e.g. to cap how many items of a batch may be translated
+export async function getRemainingQuota(env: Env, userId: string, tier: string, resourceType: ResourceType): Promise<number> {
+	const limits = await getUserLimits(env, userId, tier, resourceType);
+	const needTotal = limits.total !== undefined;
+	const usage = await getUsageStats(env.logs_db, userId, resourceType, needTotal);
+
+	const remaining = [limits.daily - usage.daily, limits.monthly - usage.monthly];
+	if (needTotal) {
+		remaining.push(limits.total! - usage.total);
+	}
+	return Math.max(0, Math.min(...remaining));
+}
+
+// The quota error for requests past the `remaining` that getRemainingQuota allowed: what withAuth will answer once
+// those have been counted, in the first window they use up
+export async function getQuotaExceededBody(
+	request: IRequest,
+	env: Env,
+	userId: string,
+	tier: string,
+	resourceType: ResourceType,
+	remaining: number,
+) {
+	const limits = await getUserLimits(env, userId, tier, resourceType);
+	const stats = await getUsageStats(env.logs_db, userId, resourceType, limits.total !== undefined);
+	const usage = { daily: stats.daily + remaining, monthly: stats.monthly + remaining, total: stats.total + remaining };
+	const window = (['daily', 'monthly', 'total'] as const).find((w) => limits[w] !== undefined && usage[w] >= limits[w]!) ?? 'daily';
+
+	return errorBody(request, QUOTA_ERROR_CODES[window], {
+		details: await getQuotaExceededDetails(env, {
+			userId,
+			window,
+			tier,
+			resourceType,
+			limits,
+			usage,
+			creditsSeconds: await getUserCredits(env.logs_db, userId),
+		}),
+	});
+}
+
+// Authenticates without a quota check, for endpoints that only read the caller's own data
+export async function withUser(request: IRequest, env: Env) {
+	const authHeader = request.headers.get('Authorization');
+	if (!authHeader) {
+		return errorResponse(request, 'AUTH_MISSING');
+	}
+	const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+
+	let userId: string | undefined;
+	try {
+		userId = (await verify(token, env.JWT_SECRET)).uid;
+	} catch (err) {
+		return errorResponse(request, err instanceof TokenExpiredError ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID');
+	}
+	if (!userId) {
+		return errorResponse(request, 'TOKEN_INVALID');
 	}
+	(request as AuthenticatedRequest).userId = userId;
 }
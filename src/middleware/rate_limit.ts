@@ -0,0 +1,46 @@
+import { ResourceType } from '../config/limits';
+import { getTierConfig } from '../services/tiers';
+import { errorResponse } from '../utils/errors';
+
+// Caps how fast a user may call a resource (e.g. 20 requests a minute), on top of the daily and
+// monthly quotas, so a leaked token cannot spend a whole day's quota in seconds.
+export async function enforceRateLimit(
+	request: Request,
+	env: Env,
+	userId: string,
+	tier: string,
+	resourceType: ResourceType,
+	cost = 1,
+): Promise<Response | undefined> {
+	const rules = (await getTierConfig(env, tier)).rateLimits[resourceType];
+	if (!rules || rules.length === 0) return;
+
+	let result;
+	try {
+		const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(userId));
+		result = await limiter.consume(resourceType, rules, undefined, cost);
+	} catch (e) {
+		// The quotas still apply; an unavailable limiter should not take every endpoint down with it
+		console.error(`[RateLimit] Failed to check ${resourceType} for user ${userId}, allowing:`, e);
+		return;
+	}
+
+	if (!result.allowed) {
+		console.log(`[RateLimit] User ${userId} exceeded ${result.limit} ${resourceType} requests per ${result.windowSeconds}s`);
+		return errorResponse(request, 'RATE_LIMITED', {
+			details: {
+				resource_type: resourceType,
+				limit: result.limit,
+				window_seconds: result.windowSeconds,
+				retry_after_seconds: result.retryAfterSeconds,
+			},
+			headers: {
+				'Retry-After': String(result.retryAfterSeconds),
+				'X-RateLimit-Limit': String(result.limit),
+				'X-RateLimit-Remaining': String(result.remaining),
+				// Unix time in seconds
+				'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+			},
+		});
+	}
+}
@@ -0,0 +1,74 @@
+import { createDb } from '../db';
+import { liveSessions, liveTranscriptTurns } from '../db/schema';
+import { and, asc, desc, eq, lt } from 'drizzle-orm';
+
+export type LiveSessionRecord = typeof liveSessions.$inferSelect;
+export type TranscriptTurnRecord = typeof liveTranscriptTurns.$inferSelect;
+
+export interface NewLiveSession {
+	id: string;
+	userId: string;
+	sourceLang: string | null;
+	targetLang: string | null;
+	mode: string;
+	transcriptEnabled: boolean;
+	startedAt: number;
+}
+
+export async function createLiveSession(d1: D1Database, session: NewLiveSession): Promise<void> {
+	const db = createDb(d1);
+	await db
+		.insert(liveSessions)
+		.values({ ...session, transcriptEnabled: session.transcriptEnabled ? 1 : 0 })
+		.onConflictDoNothing()
+		.execute();
+}
+
+export async function endLiveSession(d1: D1Database, id: string, endedAt: number, durationSeconds: number): Promise<void> {
+	const db = createDb(d1);
+	await db.update(liveSessions).set({ endedAt, durationSeconds }).where(eq(liveSessions.id, id)).execute();
+}
+
+export async function saveTranscriptTurns(d1: D1Database, turns: Omit<TranscriptTurnRecord, 'id'>[]): Promise<void> {
+	if (turns.length === 0) return;
+	const db = createDb(d1);
+	await db
+		.insert(liveTranscriptTurns)
+		.values(turns.map((turn) => ({ id: crypto.randomUUID(), ...turn })))
+		.execute();
+}
+
+export async function listLiveSessions(d1: D1Database, userId: string, limit: number, before?: number): Promise<LiveSessionRecord[]> {
+	const db = createDb(d1);
+	const conditions = [eq(liveSessions.userId, userId)];
+	if (before !== undefined) {
+		conditions.push(lt(liveSessions.startedAt, before));
+	}
+	return db
+		.select()
+		.from(liveSessions)
+		.where(and(...conditions))
+		.orderBy(desc(liveSessions.startedAt))
+		.limit(limit)
+		.all();
+}
+
+// Scoped to the owner so one user cannot read another's session by id
+export async function getLiveSession(d1: D1Database, userId: string, id: string): Promise<LiveSessionRecord | undefined> {
+	const db = createDb(d1);
+	return db
+		.select()
+		.from(liveSessions)
+		.where(and(eq(liveSessions.id, id), eq(liveSessions.userId, userId)))
+		.get();
+}
+
+export async function getTranscriptTurns(d1: D1Database, sessionId: string): Promise<TranscriptTurnRecord[]> {
+	const db = createDb(d1);
+	return db
+		.select()
+		.from(liveTranscriptTurns)
+		.where(eq(liveTranscriptTurns.sessionId, sessionId))
+		.orderBy(asc(liveTranscriptTurns.seq), asc(liveTranscriptTurns.startMs))
+		.all();
+}
@@ -0,0 +1,57 @@
+import { and, eq, gt } from 'drizzle-orm';
+import { createDb } from '../db';
+import { userQuotaOverrides } from '../db/schema';
+import { Quota, ResourceType } from '../config/limits';
+
+export type QuotaOverride = typeof userQuotaOverrides.$inferSelect;
+
+export function toQuota(override: QuotaOverride): Quota {
+	return override.total === null
+		? { daily: override.daily, monthly: override.monthly }
+		: { daily: override.daily, monthly: override.monthly, total: override.total };
+}
+
+export async function getActiveQuotaOverride(
+	d1: D1Database,
+	userId: string,
+	resourceType: ResourceType,
+): Promise<QuotaOverride | undefined> {
+	const db = createDb(d1);
+	return db
+		.select()
+		.from(userQuotaOverrides)
+		.where(
+			and(
+				eq(userQuotaOverrides.userId, userId),
+				eq(userQuotaOverrides.resourceType, resourceType),
+				gt(userQuotaOverrides.expiresAt, Date.now()),
+			),
+		)
+		.get();
+}
+
+// Includes expired overrides so support can see what was set before
+export async function listQuotaOverrides(d1: D1Database, userId: string): Promise<QuotaOverride[]> {
+	const db = createDb(d1);
+	return db.select().from(userQuotaOverrides).where(eq(userQuotaOverrides.userId, userId)).all();
+}
+
+export async function saveQuotaOverride(d1: D1Database, override: QuotaOverride): Promise<void> {
+	const db = createDb(d1);
+	const { userId, resourceType, ...values } = override;
+	await db
+		.insert(userQuotaOverrides)
+		.values(override)
+		.onConflictDoUpdate({ target: [userQuotaOverrides.userId, userQuotaOverrides.resourceType], set: values })
+		.execute();
+}
+
+export async function deleteQuotaOverride(d1: D1Database, userId: string, resourceType: ResourceType): Promise<boolean> {
+	const db = createDb(d1);
+	const deleted = await db
+		.delete(userQuotaOverrides)
+		.where(and(eq(userQuotaOverrides.userId, userId), eq(userQuotaOverrides.resourceType, resourceType)))
+		.returning()
+		.all();
+	return deleted.length > 0;
+}
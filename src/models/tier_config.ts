@@ -0,0 +1,96 @@
+import { eq } from 'drizzle-orm';
+import { createDb } from '../db';
+import { tierConfigs } from '../db/schema';
+import {
+	DEFAULT_RATE_LIMITS,
+	DEFAULT_TIER_FEATURES,
+	MembershipTier,
+	Quota,
+	RateLimitRule,
+	ResourceType,
+	TIER_ENTITLEMENTS,
+	TIER_LIMITS,
+	TIER_VOICES,
+	TierFeatures,
+} from '../config/limits';
+
+export interface TierConfig {
+	tier: string;
+	entitlementIds: string[];
+	priority: number;
+	limits: Record<ResourceType, Quota>;
+	features: TierFeatures;
+	// An empty list turns rate limiting off for the resource
+	rateLimits: Record<ResourceType, RateLimitRule[]>;
+}
+
+export function getSeedTierConfigs(): TierConfig[] {
+	return (Object.keys(TIER_LIMITS) as MembershipTier[]).map((tier) => ({
+		tier,
+		entitlementIds: TIER_ENTITLEMENTS[tier].entitlementIds,
+		priority: TIER_ENTITLEMENTS[tier].priority,
+		limits: TIER_LIMITS[tier],
+		features: { ...DEFAULT_TIER_FEATURES, voices: TIER_VOICES[tier] },
+		rateLimits: DEFAULT_RATE_LIMITS,
+	}));
+}
+
+export async function listTierConfigs(d1: D1Database): Promise<TierConfig[]> {
+	const db = createDb(d1);
+	const rows = await db.select().from(tierConfigs).all();
+	return rows.map((row) => ({
+		tier: row.tier,
+		entitlementIds: JSON.parse(row.entitlementIds),
+		priority: row.priority,
+		limits: JSON.parse(row.limits),
+		// Features added after a row was written fall back to the defaults
+		features: { ...DEFAULT_TIER_FEATURES, ...JSON.parse(row.features) },
+		rateLimits: { ...DEFAULT_RATE_LIMITS, ...JSON.parse(row.rateLimits) },
+	}));
+}
+
+export async function saveTierConfig(d1: D1Database, config: TierConfig): Promise<void> {
+	const db = createDb(d1);
+	const values = {
+		entitlementIds: JSON.stringify(config.entitlementIds),
+		priority: config.priority,
+		limits: JSON.stringify(config.limits),
+		features: JSON.stringify(config.features),
+		rateLimits: JSON.stringify(config.rateLimits),
+		updatedAt: Date.now(),
+	};
+	await db
+		.insert(tierConfigs)
+		.values({ tier: config.tier, ...values })
+		.onConflictDoUpdate({ target: tierConfigs.tier, set: values })
+		.execute();
+}
+
+export async function deleteTierConfig(d1: D1Database, tier: string): Promise<boolean> {
+	const db = createDb(d1);
+	const deleted = await db.delete(tierConfigs).where(eq(tierConfigs.tier, tier)).returning().all();
+	return deleted.length > 0;
+}
+
+// Writes the built-in tiers into an empty table; existing rows are left alone
+export async function seedTierConfigs(d1: D1Database): Promise<TierConfig[]> {
+	const seeds = getSeedTierConfigs();
+	const db = createDb(d1);
+	const now = Date.now();
+	await db
+		.insert(tierConfigs)
+		.values(
+			seeds.map((config) => ({
+				tier: config.tier,
+				entitlementIds: JSON.stringify(config.entitlementIds),
+				priority: config.priority,
+				limits: JSON.stringify(config.limits),
+				features: JSON.stringify(config.features),
+				rateLimits: JSON.stringify(config.rateLimits),
+				updatedAt: now,
+			})),
+		)
+		.onConflictDoNothing()
+		.execute();
+	return seeds;
+}
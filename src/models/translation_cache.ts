@@ -0,0 +1,108 @@
+import { createDb } from '../db';
+import { translations } from '../db/schema';
+import { and, eq, desc, inArray } from 'drizzle-orm';
+
+export interface TranslationCacheKey {
+	endpoint: string;
+	model: string;
+	promptVersion: string;
+	sourceLang: string;
+	targetLang: string;
+	contentHash: string;
+}
+
+export async function findCachedTranslation(d1: D1Database, key: TranslationCacheKey): Promise<string | null> {
+	const db = createDb(d1);
+	const cached = await db
+		.select({ resultJson: translations.resultJson })
+		.from(translations)
+		.where(
+			and(
+				eq(translations.sourceTextHash, key.contentHash),
+				eq(translations.endpoint, key.endpoint),
+				eq(translations.model, key.model),
+				eq(translations.promptVersion, key.promptVersion),
+				eq(translations.sourceLang, key.sourceLang),
+				eq(translations.targetLang, key.targetLang),
+			),
+		)
+		.orderBy(desc(translations.createdAt))
+		.get();
+	return cached ? cached.resultJson : null;
+}
+
+export async function saveCachedTranslation(
+	d1: D1Database,
+	key: TranslationCacheKey,
+	sourceText: string,
+	resultJson: string,
+): Promise<void> {
+	const db = createDb(d1);
+	await db
+		.insert(translations)
+		.values({
+			id: crypto.randomUUID(),
+			sourceTextHash: key.contentHash,
+			sourceText,
+			sourceLang: key.sourceLang,
+			targetLang: key.targetLang,
+			resultJson,
+			endpoint: key.endpoint,
+			model: key.model,
+			promptVersion: key.promptVersion,
+			createdAt: Date.now(),
+		})
+		.execute();
+}
+
+export function getCacheKeyId(key: TranslationCacheKey): string {
+	return [key.endpoint, key.model, key.promptVersion, key.sourceLang, key.targetLang, key.contentHash].join('|');
+}
+
+// Resolves many keys in one query per (endpoint, model, prompt version) group, which is a single query in practice.
+// Returns results keyed by getCacheKeyId.
+export async function findCachedTranslations(d1: D1Database, keys: TranslationCacheKey[]): Promise<Map<string, string>> {
+	const results = new Map<string, string>();
+	if (keys.length === 0) return results;
+
+	const groups = new Map<string, TranslationCacheKey[]>();
+	for (const key of keys) {
+		const groupId = `${key.endpoint}|${key.model}|${key.promptVersion}`;
+		groups.set(groupId, [...(groups.get(groupId) || []), key]);
+	}
+
+	const db = createDb(d1);
+	for (const group of groups.values()) {
+		const { endpoint, model, promptVersion } = group[0];
+		const rows = await db
+			.select()
+			.from(translations)
+			.where(
+				and(
+					eq(translations.endpoint, endpoint),
+					eq(translations.model, model),
+					eq(translations.promptVersion, promptVersion),
+					inArray(translations.sourceTextHash, [...new Set(group.map((k) => k.contentHash))]),
+				),
+			)
+			.orderBy(desc(translations.createdAt))
+			.all();
+
+		// Rows come newest first, so the first match per key wins
+		for (const row of rows) {
+			const id = getCacheKeyId({
+				endpoint,
+				model,
+				promptVersion,
+				sourceLang: row.sourceLang,
+				targetLang: row.targetLang,
+				contentHash: row.sourceTextHash,
+			});
+			if (!results.has(id)) {
+				results.set(id, row.resultJson);
+			}
+		}
+	}
+
+	return results;
+}
@@ -1,6 +1,7 @@
 import { createDb } from '../db';
 import { ttsLogs } from '../db/schema';
-import { and, eq, isNotNull, desc } from 'drizzle-orm';
+import { and, eq, gt, isNotNull, desc, asc } from 'drizzle-orm';
+import { AudioFormat, DEFAULT_AUDIO_FORMAT } from '../utils/audio_formats';
 
 export async function logTts(
 	d1: D1Database,
@@ -13,8 +14,11 @@ export async function logTts(
 		textHash: string;
 		voiceName: string;
 		modelName: string;
+		promptVersion: string;
 		languageCode?: string;
 		url?: string;
+		format?: AudioFormat;
+		alignmentUrl?: string;
 	}
 ): Promise<void> {
 	const db = createDb(d1);
@@ -30,20 +34,27 @@ export async function logTts(
 			textHash: data.textHash,
 			voiceName: data.voiceName,
 			modelName: data.modelName,
+			promptVersion: data.promptVersion,
 			languageCode: data.languageCode || null,
 			url: data.url || null,
+			format: data.format || DEFAULT_AUDIO_FORMAT,
+			alignmentUrl: data.alignmentUrl || null,
 			createdAt: Date.now(),
 		})
 		.execute();
 }
 
+// Audio from another prompt version is a different rendition, so it is never served for this one
 export async function findTtsLogByHash(
 	d1: D1Database,
 	textHash: string,
 	voiceName: string,
 	modelName: string,
-	languageCode?: string
-): Promise<{ url: string | null } | undefined> {
+	promptVersion: string,
+	languageCode?: string,
+	format: AudioFormat = DEFAULT_AUDIO_FORMAT,
+	withAlignment = false
+): Promise<{ url: string | null; alignmentUrl: string | null } | undefined> {
 	const db = createDb(d1);
 
 	// Basic conditions
@@ -51,6 +62,8 @@ export async function findTtsLogByHash(
 		eq(ttsLogs.textHash, textHash),
 		eq(ttsLogs.voiceName, voiceName),
 		eq(ttsLogs.modelName, modelName),
+		eq(ttsLogs.promptVersion, promptVersion),
+		eq(ttsLogs.format, format),
 		isNotNull(ttsLogs.url),
 	];
 
@@ -59,8 +72,13 @@ export async function findTtsLogByHash(
 		conditions.push(eq(ttsLogs.languageCode, languageCode));
 	}
 
+	// Audio generated without an alignment document cannot answer a request for one
+	if (withAlignment) {
+		conditions.push(isNotNull(ttsLogs.alignmentUrl));
+	}
+
 	const result = await db
-		.select({ url: ttsLogs.url })
+		.select({ url: ttsLogs.url, alignmentUrl: ttsLogs.alignmentUrl })
 		.from(ttsLogs)
 		.where(and(...conditions))
 		.limit(1)
@@ -68,12 +86,24 @@ export async function findTtsLogByHash(
 	return result[0];
 }
 
-export async function findLatestTtsLogByTextHash(d1: D1Database, textHash: string): Promise<{ url: string | null } | undefined> {
+export async function findLatestTtsLogByTextHash(
+	d1: D1Database,
+	textHash: string,
+	voiceName?: string,
+	format?: AudioFormat
+): Promise<{ url: string | null; format: string } | undefined> {
 	const db = createDb(d1);
+	const conditions = [eq(ttsLogs.textHash, textHash), isNotNull(ttsLogs.url)];
+	if (voiceName) {
+		conditions.push(eq(ttsLogs.voiceName, voiceName));
+	}
+	if (format) {
+		conditions.push(eq(ttsLogs.format, format));
+	}
 	const result = await db
-		.select({ url: ttsLogs.url })
+		.select({ url: ttsLogs.url, format: ttsLogs.format })
 		.from(ttsLogs)
-		.where(and(eq(ttsLogs.textHash, textHash), isNotNull(ttsLogs.url)))
+		.where(and(...conditions))
 		.orderBy(desc(ttsLogs.createdAt))
 		.limit(1)
 		.execute();
@@ -85,11 +115,19 @@ export async function findTtsRequest(
 	textHash: string,
 	voiceName: string,
 	modelName: string,
-	languageCode?: string
+	promptVersion: string,
+	languageCode?: string,
+	format: AudioFormat = DEFAULT_AUDIO_FORMAT
 ): Promise<{ url: string | null; status: string | null } | undefined> {
 	const db = createDb(d1);
 
-	const conditions = [eq(ttsLogs.textHash, textHash), eq(ttsLogs.voiceName, voiceName), eq(ttsLogs.modelName, modelName)];
+	const conditions = [
+		eq(ttsLogs.textHash, textHash),
+		eq(ttsLogs.voiceName, voiceName),
+		eq(ttsLogs.modelName, modelName),
+		eq(ttsLogs.promptVersion, promptVersion),
+		eq(ttsLogs.format, format),
+	];
 
 	if (languageCode) {
 		conditions.push(eq(ttsLogs.languageCode, languageCode));
@@ -113,7 +151,9 @@ export async function createPendingTtsLog(
 		textHash: string;
 		voiceName: string;
 		modelName: string;
+		promptVersion: string;
 		languageCode?: string;
+		format?: AudioFormat;
 	}
 ): Promise<void> {
 	const db = createDb(d1);
@@ -129,8 +169,10 @@ export async function createPendingTtsLog(
 			textHash: data.textHash,
 			voiceName: data.voiceName,
 			modelName: data.modelName,
+			promptVersion: data.promptVersion,
 			languageCode: data.languageCode || null,
 			url: null,
+			format: data.format || DEFAULT_AUDIO_FORMAT,
 			status: 'processing',
 			createdAt: Date.now(),
 		})
@@ -140,6 +182,9 @@ export async function createPendingTtsLog(
 export async function updateTtsLogStatus(
 	d1: D1Database,
 	textHash: string,
+	voiceName: string,
+	promptVersion: string,
+	format: AudioFormat,
 	data: {
 		url?: string;
 		inputTokens: number;
@@ -150,11 +195,19 @@ export async function updateTtsLogStatus(
 ): Promise<void> {
 	const db = createDb(d1);
 
-	// Find the latest processing one
+	// Find the latest processing one for this voice, prompt version and format; the same text may be generating in another
 	const subquery = db
 		.select({ id: ttsLogs.id })
 		.from(ttsLogs)
-		.where(and(eq(ttsLogs.textHash, textHash), eq(ttsLogs.status, 'processing')))
+		.where(
+			and(
+				eq(ttsLogs.textHash, textHash),
+				eq(ttsLogs.voiceName, voiceName),
+				eq(ttsLogs.promptVersion, promptVersion),
+				eq(ttsLogs.format, format),
+				eq(ttsLogs.status, 'processing')
+			)
+		)
 		.orderBy(desc(ttsLogs.createdAt))
 		.limit(1);
 
@@ -173,3 +226,19 @@ export async function updateTtsLogStatus(
 		.where(eq(ttsLogs.id, targets[0].id))
 		.execute();
 }
+
+// Completed logs stored in `format`, in id order so a backfill can resume after the last one it handled
+export async function listCompletedTtsLogs(d1: D1Database, format: AudioFormat, afterId: string | undefined, limit: number) {
+	const db = createDb(d1);
+	const conditions = [eq(ttsLogs.format, format), eq(ttsLogs.status, 'completed'), isNotNull(ttsLogs.url)];
+	if (afterId) {
+		conditions.push(gt(ttsLogs.id, afterId));
+	}
+	return db
+		.select()
+		.from(ttsLogs)
+		.where(and(...conditions))
+		.orderBy(asc(ttsLogs.id))
+		.limit(limit)
+		.execute();
+}
@@ -1,15 +1,40 @@
-import { sql, and, eq } from 'drizzle-orm';
+import { sql, and, desc, eq } from 'drizzle-orm';
 import { createDb } from '../db';
-import { usageLogs, userUsageStats, userCredits } from '../db/schema';
-
-function getUtcDateStrings(date: Date) {
-	// Format: YYYY-MM-DD
-	const yyyy = date.getUTCFullYear();
-	const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
-	const dd = String(date.getUTCDate()).padStart(2, '0');
-	const daily = `${yyyy}-${mm}-${dd}`;
-	const monthly = `${yyyy}-${mm}`;
-	return { daily, monthly };
+import { usageLogs, userUsageStats, userCredits, creditPurchases, userTimezones } from '../db/schema';
+import { TIMEZONE_CHANGE_INTERVAL_DAYS, type Quota } from '../config/limits';
+import { DEFAULT_TIME_ZONE, getPeriodKeys } from '../utils/timezone';
+
+// Time zone the user's usage periods are bucketed in, UTC until the app reports one
+export async function getUserTimeZone(d1: D1Database, userId: string): Promise<string> {
+	const db = createDb(d1);
+	const row = await db.select().from(userTimezones).where(eq(userTimezones.userId, userId)).get();
+	return row?.timezone ?? DEFAULT_TIME_ZONE;
+}
+
+// Takes effect from the next request; counters already written under the old zone's keys are left as they are.
+// Returns when the zone may change again if this change came too soon after the last (TIMEZONE_CHANGE_INTERVAL_DAYS),
+// otherwise null.
+export async function saveUserTimeZone(d1: D1Database, userId: string, timezone: string): Promise<number | null> {
+	const db = createDb(d1);
+	const now = Date.now();
+	const current = await db.select().from(userTimezones).where(eq(userTimezones.userId, userId)).get();
+	if (current?.timezone === timezone) return null;
+
+	const nextChangeAt = current ? current.updatedAt + TIMEZONE_CHANGE_INTERVAL_DAYS * 24 * 60 * 60 * 1000 : now;
+	if (now < nextChangeAt) return nextChangeAt;
+
+	await db
+		.insert(userTimezones)
+		.values({ userId, timezone, updatedAt: now })
+		.onConflictDoUpdate({ target: userTimezones.userId, set: { timezone, updatedAt: now } })
+		.execute();
+	return null;
+}
+
+export interface UsageStats {
+	daily: number;
+	monthly: number;
+	total: number;
 }
 
 export async function getUsageStats(
@@ -17,10 +42,10 @@ export async function getUsageStats(
 	userId: string,
 	endpoint: string = 'text_translation',
 	includeTotal: boolean = false
-): Promise<{ daily: number; monthly: number; total: number }> {
+): Promise<UsageStats> {
 	const db = createDb(d1);
 	const now = new Date();
-	const { daily: dailyKey, monthly: monthlyKey } = getUtcDateStrings(now);
+	const { daily: dailyKey, monthly: monthlyKey } = getPeriodKeys(now, await getUserTimeZone(d1, userId));
 
 	// We want to fetch 3 rows: Daily, Monthly, and Total (if requested)
 	// We can do this in one query using OR or IN, then map them.
@@ -70,6 +95,75 @@ export async function getUserCredits(d1: D1Database, userId: string): Promise<nu
 	return result ? result.balanceSeconds : 0;
 }
 
+export type CreditPurchase = typeof creditPurchases.$inferSelect;
+
+// Records the purchase and tops up the balance; callers check the id for idempotency first
+export async function addCredits(d1: D1Database, purchase: CreditPurchase): Promise<void> {
+	const db = createDb(d1);
+	await db.insert(creditPurchases).values(purchase).execute();
+	await db
+		.insert(userCredits)
+		.values({
+			userId: purchase.userId,
+			balanceSeconds: purchase.amountSeconds,
+			updatedAt: Date.now(),
+		})
+		.onConflictDoUpdate({
+			target: userCredits.userId,
+			set: {
+				balanceSeconds: sql`${userCredits.balanceSeconds} + ${purchase.amountSeconds}`,
+				updatedAt: Date.now(),
+			},
+		})
+		.execute();
+}
+
+export async function listCreditPurchases(d1: D1Database, userId: string): Promise<CreditPurchase[]> {
+	const db = createDb(d1);
+	return db.select().from(creditPurchases).where(eq(creditPurchases.userId, userId)).orderBy(desc(creditPurchases.createdAt)).all();
+}
+
+export async function listUsageStats(d1: D1Database, userId: string): Promise<(typeof userUsageStats.$inferSelect)[]> {
+	const db = createDb(d1);
+	return db.select().from(userUsageStats).where(eq(userUsageStats.userId, userId)).all();
+}
+
+export async function listRecentUsageLogs(d1: D1Database, userId: string, limit: number): Promise<(typeof usageLogs.$inferSelect)[]> {
+	const db = createDb(d1);
+	return db.select().from(usageLogs).where(eq(usageLogs.userId, userId)).orderBy(desc(usageLogs.createdAt)).limit(limit).all();
+}
+
+// Drops today's daily counters (all endpoints unless one is given); monthly and total usage are kept
+export async function resetDailyUsage(d1: D1Database, userId: string, endpoint?: string): Promise<number> {
+	const db = createDb(d1);
+	const { daily } = getPeriodKeys(new Date(), await getUserTimeZone(d1, userId));
+	const conditions = [eq(userUsageStats.userId, userId), eq(userUsageStats.periodType, 'daily'), eq(userUsageStats.periodValue, daily)];
+	if (endpoint) {
+		conditions.push(eq(userUsageStats.endpoint, endpoint));
+	}
+	const deleted = await db
+		.delete(userUsageStats)
+		.where(and(...conditions))
+		.returning()
+		.all();
+	return deleted.length;
+}
+
+export interface UsageLogMeta {
+	provider?: string;
+	failoverFrom?: string;
+	// Request id surfaced to the client (e.g. in the SSE done frame), reused as the log row id
+	requestId?: string;
+	promptVersion?: string;
+	// Quota units this row represents; a packed batch call covers several requests (default 1)
+	requestCount?: number;
+	// Live sessions: socket lifetime and streamed audio, kept next to the billed duration for audits
+	wallSeconds?: number;
+	meteredSeconds?: number;
+	// The user's live_translation limits (tier_configs or a support override); the built-in TIER_LIMITS otherwise
+	quota?: Quota;
+}
+
 export async function logUsage(
 	d1: D1Database,
 	userId: string,
@@ -80,19 +174,21 @@ export async function logUsage(
 	endpoint: string = 'text_translation',
 	requestHash?: string,
 	durationSeconds?: number,
-	tier?: string // 'FREE' | 'LITE' | 'PRO' | 'UNLIMITED' | 'TRIAL_CANCELLED'
+	tier?: string, // 'FREE' | 'LITE' | 'PRO' | 'UNLIMITED' | 'TRIAL_CANCELLED'
+	meta?: UsageLogMeta
 ): Promise<void> {
 	const db = createDb(d1);
 	const now = new Date();
-	const { daily, monthly } = getUtcDateStrings(now);
+	const { daily, monthly } = getPeriodKeys(now, await getUserTimeZone(d1, userId));
 	const totalTokens = inputTokens + outputTokens;
 	const duration = durationSeconds || 0;
+	const requestCount = meta?.requestCount ?? 1;
 
 	// 1. Log detailed entry (Audit/Debug)
 	const logPromise = db
 		.insert(usageLogs)
 		.values({
-			id: crypto.randomUUID().replace(/-/g, ''),
+			id: meta?.requestId || crypto.randomUUID().replace(/-/g, ''),
 			userId,
 			endpoint,
 			model,
@@ -100,7 +196,12 @@ export async function logUsage(
 			outputTokens,
 			costMicros,
 			durationSeconds: durationSeconds || null,
+			wallSeconds: meta?.wallSeconds ?? null,
+			meteredSeconds: meta?.meteredSeconds ?? null,
 			requestHash: requestHash || null,
+			provider: meta?.provider || null,
+			failoverFrom: meta?.failoverFrom || null,
+			promptVersion: meta?.promptVersion || null,
 			createdAt: Date.now(),
 		})
 		.execute();
@@ -122,7 +223,7 @@ export async function logUsage(
 				endpoint,
 				periodType: period.type,
 				periodValue: period.value,
-				count: 1,
+				count: requestCount,
 				durationSeconds: duration,
 				totalTokens: totalTokens,
 				updatedAt: Date.now(),
@@ -130,7 +231,7 @@ export async function logUsage(
 			.onConflictDoUpdate({
 				target: [userUsageStats.userId, userUsageStats.endpoint, userUsageStats.periodType, userUsageStats.periodValue],
 				set: {
-					count: sql`${userUsageStats.count} + 1`,
+					count: sql`${userUsageStats.count} + ${requestCount}`,
 					durationSeconds: sql`${userUsageStats.durationSeconds} + ${duration}`,
 					totalTokens: sql`${userUsageStats.totalTokens} + ${totalTokens}`,
 					updatedAt: Date.now(),
@@ -149,7 +250,7 @@ export async function logUsage(
 			// userCredits is now imported at top level
 
 			// @ts-ignore
-			const limits = TIER_LIMITS[tier]?.live_translation;
+			const limits = meta?.quota ?? TIER_LIMITS[tier]?.live_translation;
 			if (!limits) return;
 
 			// Get Updated Stats (we just updated them, so let's fetch the latest values)
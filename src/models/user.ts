@@ -27,3 +27,9 @@ export async function findUserByRefreshToken(d1: D1Database, refreshToken: strin
 	const result = await db.select().from(users).where(eq(users.refreshToken, refreshToken)).get();
 	return result || null;
 }
+
+export async function findUserById(d1: D1Database, userId: string): Promise<User | null> {
+	const db = createDb(d1);
+	const result = await db.select().from(users).where(eq(users.id, userId)).get();
+	return result || null;
+}
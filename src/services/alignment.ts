@@ -0,0 +1,83 @@
+import { splitWords } from '../utils/segmentation';
+import { BYTES_PER_MS, SpeechSegmentTiming } from './speech';
+
+// Samples quieter than this (about -36 dBFS) count as the pause around a sentence
+const SILENCE_THRESHOLD = 512;
+
+// Estimated, see AlignmentDocument.word_timing
+export interface AlignedWord {
+	text: string;
+	start_ms: number;
+	end_ms: number;
+}
+
+export interface AlignedSentence {
+	index: number;
+	text: string;
+	start_ms: number;
+	end_ms: number;
+	words: AlignedWord[];
+}
+
+// Stored next to the audio in R2 and referenced from tts_logs.alignment_url
+export interface AlignmentDocument {
+	version: 1;
+	// Sentence times are measured from each sentence's own PCM; word times are spread over the sentence's voiced part
+	method: 'segment_pcm';
+	// Tells clients that word times are not measured: they are close enough to highlight the word being spoken, but
+	// not to cut the audio at a word. Only sentence times are exact.
+	word_timing: 'estimated';
+	duration_ms: number;
+	sentences: AlignedSentence[];
+}
+
+// Byte offsets of the first and last audible sample, or null for silence
+function findVoicedRange(pcm: Uint8Array): [number, number] | null {
+	const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+	const sampleCount = pcm.length >> 1;
+	let first = -1;
+	let last = -1;
+	for (let i = 0; i < sampleCount; i++) {
+		if (Math.abs(view.getInt16(i * 2, true)) >= SILENCE_THRESHOLD) {
+			if (first < 0) first = i;
+			last = i;
+		}
+	}
+	return first < 0 ? null : [first * 2, (last + 1) * 2];
+}
+
+// Words get a share of the voiced time in proportion to their length, which holds up well enough for highlighting
+function alignWords(text: string, startMs: number, endMs: number, languageCode?: string): AlignedWord[] {
+	const words = splitWords(text, languageCode);
+	const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+	const aligned: AlignedWord[] = [];
+	let offset = 0;
+	for (const word of words) {
+		aligned.push({
+			text: word,
+			start_ms: Math.round(startMs + ((endMs - startMs) * offset) / totalLength),
+			end_ms: Math.round(startMs + ((endMs - startMs) * (offset + word.length)) / totalLength),
+		});
+		offset += word.length;
+	}
+	return aligned;
+}
+
+// Builds the alignment of stitched speech from the PCM and the sentence timings synthesizeLongText returned
+export function buildAlignment(pcm: Uint8Array, segments: SpeechSegmentTiming[], languageCode?: string): AlignmentDocument {
+	const sentences = segments.map((segment) => {
+		const start = segment.start_ms * BYTES_PER_MS;
+		const voiced = findVoicedRange(pcm.subarray(start, segment.end_ms * BYTES_PER_MS));
+		const [wordsStart, wordsEnd] = voiced
+			? [segment.start_ms + Math.round(voiced[0] / BYTES_PER_MS), segment.start_ms + Math.round(voiced[1] / BYTES_PER_MS)]
+			: [segment.start_ms, segment.end_ms];
+		return {
+			index: segment.index,
+			text: segment.text,
+			start_ms: segment.start_ms,
+			end_ms: segment.end_ms,
+			words: alignWords(segment.text, wordsStart, wordsEnd, languageCode),
+		};
+	});
+	return { version: 1, method: 'segment_pcm', word_timing: 'estimated', duration_ms: Math.round(pcm.length / BYTES_PER_MS), sentences };
+}
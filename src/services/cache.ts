@@ -0,0 +1,57 @@
+import { ProviderCapability, PROVIDER_MODELS, PROVIDER_ROUTES } from '../config/providers';
+import { PromptName } from '../config/prompts';
+import { TranslationCacheKey } from '../models/translation_cache';
+import { getPromptId, selectPromptVersion } from './prompts';
+
+export type CachedEndpoint =
+	'text_translation' | 'word_translation' | 'smart_translation' | 'long_text_translation' | 'image_translation' | 'batch_translation';
+
+const CACHED_ENDPOINTS: Record<CachedEndpoint, { capability: ProviderCapability; prompt: PromptName }> = {
+	text_translation: { capability: 'text', prompt: 'text' },
+	word_translation: { capability: 'word', prompt: 'word' },
+	smart_translation: { capability: 'word', prompt: 'smart' },
+	long_text_translation: { capability: 'long_text', prompt: 'long_text' },
+	image_translation: { capability: 'image', prompt: 'image' },
+	batch_translation: { capability: 'batch', prompt: 'batch' },
+};
+
+async function getMd5(text: string): Promise<string> {
+	const msgUint8 = new TextEncoder().encode(text);
+	const hashBuffer = await crypto.subtle.digest('MD5', msgUint8);
+	const hashArray = Array.from(new Uint8Array(hashBuffer));
+	return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Clean Base64 format (remove data:image/xxx;base64, prefix and newlines)
+export function cleanImageBase64(imageBase64: string): string {
+	return imageBase64.replace(/^data:image\/\w+;base64,/, '').replace(/\s/g, '');
+}
+
+// Keys on the primary provider's model. Results served by a failover provider are stored under the same key, since
+// lookups only ever use this one.
+// The prompt version follows the user's experiment bucket, so callers must pass the same userId they render with.
+export async function buildTranslationCacheKey(
+	endpoint: CachedEndpoint,
+	sourceLang: string,
+	targetLang: string,
+	content: string,
+	userId?: string | null,
+): Promise<TranslationCacheKey> {
+	const { capability, prompt } = CACHED_ENDPOINTS[endpoint];
+	const primary = PROVIDER_ROUTES[capability][0];
+
+	return {
+		endpoint,
+		model: PROVIDER_MODELS[primary][capability],
+		promptVersion: getPromptId(prompt, selectPromptVersion(prompt, userId)),
+		sourceLang,
+		targetLang,
+		contentHash: await getMd5(content),
+	};
+}
+
+// Image cache content: the user's extra requirement changes the output, so it is part of the key
+export function getImageCacheContent(imageBase64: string, promptUser: string): string {
+	const pureBase64 = cleanImageBase64(imageBase64);
+	return promptUser && promptUser.trim() !== '' ? `${pureBase64}\n${promptUser}` : pureBase64;
+}
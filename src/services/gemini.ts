@@ -1,11 +1,16 @@
 import { createDb } from '../db';
-import { translations } from '../db/schema';
 import { logUsage } from '../models/usage';
+import { TranslationCacheKey, findCachedTranslation, saveCachedTranslation } from '../models/translation_cache';
 // @ts-ignore
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 
 import { PRICING_PER_1M } from '../config/pricing';
+import { ProviderCapability, PROVIDER_MODELS } from '../config/providers';
 import { calculateCost } from '../utils/cost';
+import { ProviderCallOptions, ProviderError, ProviderRequest, TranslationProvider, fetchWithTimeout } from './provider';
+import { createSseStream, createStaticSseResponse, normalizeUsage } from './stream';
+import { buildTranslationCacheKey } from './cache';
+import { renderPrompt } from './prompts';
 import { env } from 'cloudflare:workers';
 
 const GATEWAY_CONFIG = {
@@ -13,12 +18,15 @@ const GATEWAY_CONFIG = {
 	GATEWAY_ID: 'flash-translation',
 };
 
-function getGatewayUrl(modelName: string, apiKey: string): string {
+function getGatewayUrl(modelName: string, apiKey: string, stream: boolean = true): string {
 	// 1. 确保基础路径正确
 	const baseUrl = `https://gateway.ai.cloudflare.com/v1/${GATEWAY_CONFIG.ACCOUNT_ID}/${GATEWAY_CONFIG.GATEWAY_ID}/google-ai-studio/v1beta`;
 
 	// 2. 拼接具体的模型和动作
 	// 注意：:streamGenerateContent 必须紧跟模型名称
+	if (!stream) {
+		return `${baseUrl}/models/${modelName}:generateContent?key=${apiKey}`;
+	}
 	return `${baseUrl}/models/${modelName}:streamGenerateContent?key=${apiKey}&alt=sse`;
 }
 
@@ -29,163 +37,147 @@ async function getMd5(text: string): Promise<string> {
 	return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
-export class GeminiService {
-	async findInCache(env: Env, text: string, sourceLang: string, targetLang: string): Promise<string | null> {
-		const textHash = await getMd5(text);
-		const db = createDb(env.words_db);
-		const cached = await db
-			.select()
-			.from(translations)
-			.where(
-				and(eq(translations.sourceTextHash, textHash), eq(translations.sourceLang, sourceLang), eq(translations.targetLang, targetLang)),
-			)
-			.get();
-		return cached ? cached.resultJson : null;
+export class GeminiService implements TranslationProvider {
+	readonly name = 'gemini' as const;
+
+	getModel(capability: ProviderCapability): string {
+		return PROVIDER_MODELS.gemini[capability];
 	}
 
-	async translateAndStream(
-		env: Env,
-		userId: string,
-		text: string,
-		sourceLang: string,
-		targetLang: string,
-		sourceLangName: string,
-		targetLangName: string,
-		ctx: ExecutionContext,
-	): Promise<Response> {
-		const textHash = await getMd5(text);
+	async stream(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<Response> {
+		const modelName = this.getModel(request.capability);
+		const response = await this.callGeminiAPI(env, modelName, request, true);
+		return this.handleStreamResponse(response, env, modelName, options);
+	}
 
-		// 1. Check Cache
-		const cachedResult = await this.findInCache(env, text, sourceLang, targetLang);
+	async complete(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<string | null> {
+		const modelName = this.getModel(request.capability);
+		const response = await this.callGeminiAPI(env, modelName, request, false);
+		const json: any = await response.json();
 
-		if (cachedResult) {
-			console.log('Cache hit for:', text);
-			// Return cached result as SSE to mimic Gemini stream for client compatibility
-			const mimicResponse = {
-				candidates: [
-					{
-						content: { parts: [{ text: cachedResult }] },
-					},
-				],
-			};
-			const sseData = `data: ${JSON.stringify(mimicResponse)}\n\n`;
-
-			return new Response(sseData, {
-				headers: {
-					'Content-Type': 'text/event-stream',
-					'Cache-Control': 'no-cache',
-					Connection: 'keep-alive',
-				},
-			});
+		if (json.usageMetadata) {
+			const costMicros = this.logGeminiUsage(env, modelName, options, json.usageMetadata);
+			options.onUsage?.(normalizeUsage('gemini', json.usageMetadata)!, costMicros);
 		}
 
-		// 2. Prepare Gemini Request
-		const apiKey = env.GEMINI_API_KEY;
-		const modelName = 'gemini-3-flash-preview';
+		const text = json.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || null;
+		if (text && options.onComplete) {
+			await options.onComplete(text, modelName);
+		}
+		return text;
+	}
 
+	private async callGeminiAPI(env: Env, modelName: string, request: ProviderRequest, stream: boolean): Promise<Response> {
 		// Use Cloudflare AI Gateway
-		const urlString = getGatewayUrl(modelName, apiKey);
-
-		const prompt = `You are a smart translator. Analyze the following text and translate it from ${sourceLangName} to ${targetLangName}.
-        
-        Determine if the input is:
-        1. "word": A single word or short phrase.
-        2. "sentence": A single complete sentence.
-        3. "multiple_sentences": Multiple sentences or a paragraph.
-        
-        Output **ONLY** a valid JSON object with the following structure based on the type:
-        
-        Case 1: Word/Phrase
-        {
-            "type": "word",
-            "translation": "Translated word",
-            "kana": "Pronunciation (if applicable, e.g. Japanese Kana, Pinyin, otherwise null)",
-            "examples": [
-                {
-                    "original": "Example sentence 1 in ${targetLangName}",
-                    "translation": "Example sentence 1 in ${sourceLangName}",
-                    "kana": "Pronunciation of example 1 (if applicable)"
-                },
-                {
-                    "original": "Example sentence 2 in ${targetLangName}",
-                    "translation": "Example sentence 2 in ${sourceLangName}",
-                    "kana": "Pronunciation of example 2 (if applicable)"
-                }
-            ],
-            "memory_tip": "A fun or useful tip to remember this word",
-            "explanation": "Brief explanation of meaning and usage",
-            "english_word": "Apple"
-        }
-        
-        Case 2: Single Sentence
-        {
-            "type": "sentence",
-        }
-        
-        Case 3: Multiple Sentences
-        {
-            "type": "multiple_sentences",
-        }
-        
-        Do not output any other fields for Case 2 and Case 3, just the type and an empty translation string.
-
-        你所有的回答要用 "${sourceLangName}" 语言回答,因为你面对的用户的母语是: ${sourceLangName}。
-        
-        Input Text:
-        "${text}"`;
+		const urlString = getGatewayUrl(modelName, env.GEMINI_API_KEY, stream);
 
-		const body = {
-			contents: [{ parts: [{ text: prompt }] }],
-			generationConfig: {
-				response_mime_type: 'application/json',
-			},
-		};
+		const parts: any[] = [{ text: request.prompt }];
+		if (request.image) {
+			parts.push({ inline_data: { mime_type: request.image.mimeType, data: request.image.data } });
+		}
+
+		const generationConfig: any = {};
+		if (request.json) {
+			generationConfig.response_mime_type = 'application/json';
+		}
+		if (request.temperature !== undefined) {
+			generationConfig.temperature = request.temperature;
+		}
 
 		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
 		if (env.CLOUDFLARE_GATEWAY_TOKEN) {
 			headers['cf-aig-authorization'] = `Bearer ${env.CLOUDFLARE_GATEWAY_TOKEN}`;
 		}
 
-		const response = await fetch(urlString, {
+		const response = await fetchWithTimeout(this.name, urlString, {
 			method: 'POST',
 			headers: headers,
-			body: JSON.stringify(body),
+			body: JSON.stringify({ contents: [{ parts }], generationConfig }),
 		});
 
 		if (!response.ok) {
 			const errText = await response.text();
 			console.error('Gemini API Error:', response.status, errText);
-			throw new Error(`Gemini API Error: ${response.status}`);
+			throw new ProviderError(this.name, response.status, `Gemini API Error: ${response.status}`);
 		}
 
-		// 3. Handle Stream & Logging via Helper
-		return this.handleStreamResponse(
-			response,
-			env,
-			ctx,
-			userId,
+		return response;
+	}
+
+	private logGeminiUsage(env: Env, modelName: string, options: ProviderCallOptions, usageMetadata: any, requestId?: string): number {
+		console.log('translate usageMetadata', usageMetadata);
+		const result = calculateCost(modelName, usageMetadata, PRICING_PER_1M);
+		if (options.deferUsageLog) return result.cost;
+
+		// Save to DB (Fire and Forget)
+		const logPromise = logUsage(
+			env.logs_db,
+			options.userId,
 			modelName,
-			'text_translation',
-			undefined, // no hash for text logs
-			async (fullText) => {
-				// Cache Callback
-				if (fullText) {
-					// Re-create DB connection here since we are inside a callback
-					const db = createDb(env.words_db);
-					await db
-						.insert(translations)
-						.values({
-							id: crypto.randomUUID(),
-							sourceTextHash: textHash,
-							sourceText: text,
-							sourceLang: sourceLang,
-							targetLang: targetLang,
-							resultJson: fullText,
-							createdAt: Date.now(),
-						})
-						.execute()
-						.catch((e) => console.error('Cache save error', e));
-				}
+			result.input.total,
+			result.output.total,
+			result.cost,
+			options.endpoint,
+			options.contentHash,
+			undefined,
+			undefined,
+			{
+				provider: this.name,
+				failoverFrom: options.failoverFrom,
+				requestId,
+				promptVersion: options.promptVersion,
+				requestCount: options.requestCount,
+			},
+		).catch((err) => console.error('Failed to log usage', err));
+		options.ctx.waitUntil(logPromise);
+
+		return result.cost;
+	}
+
+	async translateAndStream(
+		env: Env,
+		userId: string,
+		text: string,
+		sourceLang: string,
+		targetLang: string,
+		sourceLangName: string,
+		targetLangName: string,
+		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
+	): Promise<Response> {
+		const key = cacheKey || (await buildTranslationCacheKey('text_translation', sourceLang, targetLang, text, userId));
+
+		// 1. Check Cache
+		const cachedResult = await findCachedTranslation(env.words_db, key);
+
+		if (cachedResult) {
+			console.log('Cache hit for:', text);
+			// Return cached result as SSE to mimic Gemini stream for client compatibility
+			return createStaticSseResponse(cachedResult, { cached: true, model: key.model });
+		}
+
+		// 2. Prepare Request
+		const prompt = renderPrompt('text', { sourceLangName, targetLangName, text }, userId);
+
+		// 3. Handle Stream & Logging via Provider Registry (fails over to OpenRouter on upstream errors)
+		const { getProviderRegistry } = await import('./registry');
+		return getProviderRegistry().stream(
+			env,
+			{ capability: 'text', prompt: prompt.text, json: true },
+			{
+				userId,
+				ctx,
+				endpoint: 'text_translation',
+				promptVersion: prompt.id,
+				// no hash for text logs
+				onComplete: async (fullText) => {
+					// Cache Callback
+					if (fullText) {
+						await saveCachedTranslation(env.words_db, key, text, fullText).catch((e) =>
+							console.error('Cache save error', e),
+						);
+					}
+				},
 			},
 		);
 	}
@@ -199,12 +191,13 @@ export class GeminiService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
 		// Use OpenRouter for cost-effective long text translation
 		const { OpenRouterService } = await import('./openrouter');
 		const openRouterService = new OpenRouterService();
 
-		return openRouterService.translateLongText(env, userId, text, sourceLang, targetLang, sourceLangName, targetLangName, ctx);
+		return openRouterService.translateLongText(env, userId, text, sourceLang, targetLang, sourceLangName, targetLangName, ctx, cacheKey);
 	}
 
 	async classifyText(
@@ -262,12 +255,13 @@ export class GeminiService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
 		// Use OpenRouter for cost-effective word translation
 		const { OpenRouterService } = await import('./openrouter');
 		const openRouterService = new OpenRouterService();
 
-		return openRouterService.translateWord(env, userId, text, sourceLang, targetLang, sourceLangName, targetLangName, ctx);
+		return openRouterService.translateWord(env, userId, text, sourceLang, targetLang, sourceLangName, targetLangName, ctx, cacheKey);
 	}
 
 	async translateImageAndStream(
@@ -281,6 +275,7 @@ export class GeminiService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
 		// Use OpenRouter for cost-effective image translation
 		const { OpenRouterService } = await import('./openrouter');
@@ -297,109 +292,24 @@ export class GeminiService {
 			sourceLangName,
 			targetLangName,
 			ctx,
+			cacheKey,
 		);
 	}
 
-	private async handleStreamResponse(
-		response: Response,
-		env: Env,
-		ctx: ExecutionContext,
-		userId: string,
-		modelName: string,
-		endpoint: string = 'text_translation',
-		requestHash?: string,
-		onComplete?: (fullText: string) => Promise<void>,
-	): Promise<Response> {
-		const { readable, writable } = new TransformStream();
-		const writer = writable.getWriter();
-		const reader = response.body?.getReader();
-		const encoder = new TextEncoder();
-		const decoder = new TextDecoder();
-
-		let usageMetadata = { promptTokenCount: 0, candidatesTokenCount: 0, thoughtsTokenCount: 0 };
-		let fullText = '';
-		let buffer = '';
-
-		const processPromise = (async () => {
-			try {
-				if (!reader) return;
-
-				while (true) {
-					const { done, value } = await reader.read();
-					if (done) break;
-
-					const chunk = decoder.decode(value, { stream: true });
-					// Pass chunk to client immediately
-					await writer.write(encoder.encode(chunk));
-
-					// Append chunk to buffer and parse lines
-					buffer += chunk;
-					const lines = buffer.split('\n');
-					// The last line might be incomplete, keep it in buffer
-					buffer = lines.pop() || '';
-
-					for (const line of lines) {
-						if (line.startsWith('data: ')) {
-							const jsonStr = line.slice(6);
-							try {
-								const data = JSON.parse(jsonStr);
-								if (data.usageMetadata) {
-									usageMetadata = data.usageMetadata;
-								}
-								if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
-									fullText += data.candidates[0].content.parts[0].text;
-								}
-							} catch (e) {
-								// ignore
-							}
-						}
-					}
-				}
-
-				// Process any remaining buffer (though usually SSE ends with newline)
-				if (buffer.startsWith('data: ')) {
-					try {
-						const jsonStr = buffer.slice(6);
-						const data = JSON.parse(jsonStr);
-						if (data.usageMetadata) {
-							usageMetadata = data.usageMetadata;
-						}
-						if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
-							fullText += data.candidates[0].content.parts[0].text;
-						}
-					} catch (e) {}
-				}
-			} catch (err) {
-				console.error('Stream processing error:', err);
-			} finally {
-				await writer.close();
-				// Save to DB (Fire and Forget)
-				// Save to DB (Fire and Forget)
-				if (usageMetadata.promptTokenCount > 0) {
-					console.log('translate usageMetadata', usageMetadata);
-					const result = calculateCost(modelName, usageMetadata, PRICING_PER_1M);
-					const inputTokens = result.input.total;
-					const outputTokens = result.output.total;
-
-					await logUsage(env.logs_db, userId, modelName, inputTokens, outputTokens, result.cost, endpoint, requestHash);
-				}
-
-				if (onComplete) {
-					await onComplete(fullText);
-				}
-			}
-		})();
-
-		ctx.waitUntil(processPromise);
-
-		return new Response(readable, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				Connection: 'keep-alive',
+	private async handleStreamResponse(response: Response, env: Env, modelName: string, options: ProviderCallOptions): Promise<Response> {
+		return createSseStream(response, {
+			dialect: 'gemini',
+			ctx: options.ctx,
+			model: modelName,
+			provider: this.name,
+			hooks: {
+				onUsage: (usage, requestId) => (usage.promptTokenCount > 0 ? this.logGeminiUsage(env, modelName, options, usage, requestId) : 0),
+				onComplete: options.onComplete && ((fullText) => options.onComplete!(fullText, modelName)),
 			},
+			validator: options.validator,
 		});
 	}
+
 	async recognizeIntent(
 		env: Env,
 		userId: string,
@@ -408,47 +318,14 @@ export class GeminiService {
 		targetLang: string,
 		sourceLangName: string,
 		targetLangName: string,
+		ctx: ExecutionContext,
 	): Promise<string | null> {
 		const apiKey = env.GEMINI_API_KEY;
 		const modelName = 'gemini-2.5-flash';
 
 		const urlString = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${apiKey}`;
 
-		const prompt = `
-            Process the audio file and extract the user's intent content.
-            
-            Current Context:
-            - User's native language is likely: ${sourceLangName}
-            - User's wanna to translate language is: ${targetLangName}
-            
-            Scenario: The user is using a Translation App. They will speak a sentence that they want to TRANSLATE.
-            
-            Your job is to extract the **exact text** the user wants to translate.
-            
-            Examples:
-            User audio: "How do you say 'Hello' in Japanese?"
-            Output: "Hello"
-            
-            User audio: "Translate 'Where is the bathroom' to Chinese."
-            Output: "Where is the bathroom"
-            
-            User audio: "Apple"
-            Output: "Apple"
-            
-            User audio: "你好" (Just the content)
-            Output: "你好"
-            
-            User audio: "Please translate this sentence: It is a beautiful day today."
-            Output: "It is a beautiful day today."
-            
-            **Critical Instruction:**
-            - Ignore all translation-related command phrases, questions, or polite wrappers in ANY language (e.g., "Translate...", "How do you say...", "...怎么说", "...totte nani?", "...번역해줘").
-            - Ignore language-related phrasing. For example, if the input is 'How do you say Hello in Japanese', we strictly want 'Hello'."
-            - Handle both prefix commands (e.g., "Translate apple") and suffix commands (e.g., "Apple in Japanese please").
-            - Extract ONLY the core content the user intends to translate.
-            - Provide the output as a simple JSON object: { "content": "THE_EXTRACTED_TEXT" }
-            - Do NOT return markdown code blocks.
-            `;
+		const prompt = renderPrompt('intent', { sourceLangName, targetLangName }, userId);
 
 		const body = {
 			contents: [
@@ -460,7 +337,7 @@ export class GeminiService {
 								data: audioBase64,
 							},
 						},
-						{ text: prompt },
+						{ text: prompt.text },
 					],
 				},
 			],
@@ -491,9 +368,20 @@ export class GeminiService {
 
 			// Log to DB (Fire and Forget)
 			// Using logic similar to other methods
-			logUsage(env.logs_db, userId, modelName, result.input.total, result.output.total, result.cost, 'intent_recognition').catch((err) =>
-				console.error('Failed to log usage', err),
-			);
+			const logPromise = logUsage(
+				env.logs_db,
+				userId,
+				modelName,
+				result.input.total,
+				result.output.total,
+				result.cost,
+				'intent_recognition',
+				undefined,
+				undefined,
+				undefined,
+				{ promptVersion: prompt.id },
+			).catch((err) => console.error('Failed to log usage', err));
+			ctx.waitUntil(logPromise);
 		}
 
 		// Parse Response
@@ -0,0 +1,66 @@
+// Control channel on the live client socket. Any JSON text frame with a top-level `type` is a
+// control message handled by the worker itself and never forwarded to Gemini (Gemini's own client
+// messages have no `type`). An optional `id` is echoed back so the client can match replies.
+//
+//   {type:"swap_languages"}                                 swap source and target; Gemini is reconnected
+//                                                           with a new setup while the client socket stays open
+//   {type:"pause"}                                          stop forwarding audio to Gemini
+//   {type:"resume"}                                         forward audio again
+//   {type:"set_vad", enabled, silence_duration_ms?}         change automatic activity detection; Gemini is reconnected
+//   {type:"ping"}                                           liveness check, answered with {type:"pong"}
+//
+// Replies: {type:"ack", command, id?, ...} on success, {type:"error", command, id?, message} otherwise.
+// The server also sends unsolicited quota_warning, quota_exceeded and idle_timeout frames (LIVE_SESSION_LIMITS), and
+// reconnecting / reconnected {resumed} while it re-establishes a dropped Gemini connection.
+
+export type LiveControlMessage =
+	| { type: 'swap_languages'; id?: string }
+	| { type: 'pause'; id?: string }
+	| { type: 'resume'; id?: string }
+	| { type: 'set_vad'; id?: string; enabled: boolean; silence_duration_ms?: number }
+	| { type: 'ping'; id?: string };
+
+export type LiveControlCommand = LiveControlMessage['type'];
+
+const COMMANDS: LiveControlCommand[] = ['swap_languages', 'pause', 'resume', 'set_vad', 'ping'];
+
+// Bounds for set_vad's silence_duration_ms
+const MIN_SILENCE_MS = 100;
+const MAX_SILENCE_MS = 10_000;
+
+export type ParsedControlFrame =
+	| { message: LiveControlMessage }
+	| { error: string; command: string; id?: string }
+	// Not a control frame: forward it to Gemini
+	| null;
+
+export function parseControlFrame(data: string | ArrayBuffer): ParsedControlFrame {
+	if (typeof data !== 'string' || !data.startsWith('{')) return null;
+
+	let frame: any;
+	try {
+		frame = JSON.parse(data);
+	} catch (e) {
+		return null;
+	}
+	if (typeof frame?.type !== 'string') return null;
+
+	const id = typeof frame.id === 'string' ? frame.id : undefined;
+	const command = frame.type;
+	if (!COMMANDS.includes(command)) {
+		return { error: `Unknown control message type: ${command}`, command, id };
+	}
+
+	if (command === 'set_vad') {
+		if (typeof frame.enabled !== 'boolean') {
+			return { error: 'set_vad requires a boolean "enabled"', command, id };
+		}
+		const silence = frame.silence_duration_ms;
+		if (silence !== undefined && (!Number.isInteger(silence) || silence < MIN_SILENCE_MS || silence > MAX_SILENCE_MS)) {
+			return { error: `silence_duration_ms must be an integer between ${MIN_SILENCE_MS} and ${MAX_SILENCE_MS}`, command, id };
+		}
+		return { message: { type: 'set_vad', id, enabled: frame.enabled, silence_duration_ms: silence } };
+	}
+
+	return { message: { type: command, id } };
+}
@@ -0,0 +1,71 @@
+import { LIVE_MODES, LiveMode } from '../config/live_modes';
+import { getLanguageName } from '../utils/languages';
+import { renderPrompt } from './prompts';
+
+// Builds the BidiGenerateContent setup message for a live session. The Durable Object rebuilds it
+// when the client swaps languages or changes VAD mid-session, so everything it needs is in here.
+
+export interface LiveSetupOptions {
+	userId: string;
+	mode: LiveMode;
+	sourceLanguage: string | null;
+	targetLanguage: string | null;
+	voice: string;
+	// Automatic activity detection on Gemini's side; off means the client signals turns itself
+	vad: boolean;
+	// Overrides the mode's silenceDurationMs
+	silenceDurationMs?: number;
+}
+
+export interface LiveSetup {
+	setup: object;
+	// Pricing key in PRICING_PER_1M_LIVE
+	model: string;
+	promptVersion: string;
+}
+
+export function buildLiveSetup(options: LiveSetupOptions): LiveSetup {
+	const mode = LIVE_MODES[options.mode];
+	const speaksBack = mode.responseModalities.includes('AUDIO');
+
+	const sourceLangName = getLanguageName(options.sourceLanguage || 'en');
+	const targetLangName = getLanguageName(options.targetLanguage || 'zh');
+	const systemPrompt = renderPrompt(mode.prompt, { sourceLangName, targetLangName }, options.userId);
+
+	const setup = {
+		setup: {
+			model: `models/${mode.model}`,
+			generationConfig: {
+				responseModalities: mode.responseModalities,
+				// Text-only modes have no voice and nothing to transcribe on the way out
+				...(speaksBack && {
+					speechConfig: {
+						voiceConfig: {
+							prebuiltVoiceConfig: {
+								voiceName: options.voice,
+							},
+						},
+					},
+				}),
+			},
+			systemInstruction: {
+				parts: [{ text: systemPrompt.text }],
+			},
+			realtimeInputConfig: {
+				automaticActivityDetection: {
+					disabled: !options.vad,
+					startOfSpeechSensitivity: 'START_SENSITIVITY_HIGH',
+					endOfSpeechSensitivity: 'END_SENSITIVITY_LOW',
+					prefixPaddingMs: 20,
+					silenceDurationMs: options.silenceDurationMs ?? mode.silenceDurationMs,
+				},
+			},
+			inputAudioTranscription: {},
+			...(speaksBack && { outputAudioTranscription: {} }),
+			// Asks Gemini for resumption handles so a dropped connection can pick up where it left off
+			sessionResumption: {},
+		},
+	};
+
+	return { setup, model: mode.model, promptVersion: systemPrompt.id };
+}
@@ -1,3 +1,11 @@
+import { ProviderCapability, PROVIDER_MODELS } from '../config/providers';
+import { ProviderCallOptions, ProviderError, ProviderRequest, TranslationProvider, fetchWithTimeout } from './provider';
+import { DoneFrame, NormalizedUsage, StreamValidator, createSseStream, normalizeUsage, toDoneUsage } from './stream';
+import { WordCardError, parseWordCard } from './word_card';
+import { cleanImageBase64 } from './cache';
+import { renderPrompt } from './prompts';
+import { TranslationCacheKey, saveCachedTranslation } from '../models/translation_cache';
+
 export interface CorrectionRequest {
 	original: string;
 	translated: string;
@@ -5,7 +13,89 @@ export interface CorrectionRequest {
 	targetLang: string;
 }
 
-export class OpenRouterService {
+// Header smart_text's prompt asks for when the input is a sentence rather than a word
+const SENTENCE_MARKER = '[[SENTENCE]]';
+
+// Maps a packed batch answer back to its inputs; a count mismatch means the items cannot be aligned, so all fail
+function parseBatchTranslations(resultText: string | null, count: number): (string | null)[] {
+	const failed = new Array(count).fill(null);
+	if (!resultText) return failed;
+
+	try {
+		const json = resultText.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+		const translations = JSON.parse(json).translations;
+		if (!Array.isArray(translations) || translations.length !== count) {
+			console.error(`[Batch] Expected ${count} translations, got ${Array.isArray(translations) ? translations.length : 'none'}`);
+			return failed;
+		}
+		return translations.map((t: unknown) => (typeof t === 'string' && t.trim() !== '' ? t : null));
+	} catch (e) {
+		console.error('[Batch] Failed to parse batch result:', resultText);
+		return failed;
+	}
+}
+
+export class OpenRouterService implements TranslationProvider {
+	readonly name = 'openrouter' as const;
+
+	getModel(capability: ProviderCapability): string {
+		return PROVIDER_MODELS.openrouter[capability];
+	}
+
+	async stream(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<Response> {
+		const modelName = this.getModel(request.capability);
+		const response = await this.callOpenRouterAPI(env, modelName, this.buildMessages(request), true, this.buildExtraBody(request));
+		return this.handleStreamResponse(response, env, modelName, options);
+	}
+
+	async complete(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<string | null> {
+		const modelName = this.getModel(request.capability);
+		const response = await this.callOpenRouterAPI(env, modelName, this.buildMessages(request), false, this.buildExtraBody(request));
+		const data = await this.handleJSONResponse(response, env, modelName, options);
+		const text = data.choices?.[0]?.message?.content?.trim() || null;
+		if (text && options.onComplete) {
+			await options.onComplete(text, modelName);
+		}
+		return text;
+	}
+
+	private buildMessages(request: ProviderRequest): any[] {
+		if (!request.image) {
+			return [{ role: 'user', content: request.prompt }];
+		}
+
+		return [
+			{
+				role: 'user',
+				content: [
+					{
+						type: 'text',
+						text: request.prompt,
+					},
+					{
+						type: 'image',
+						source: {
+							type: 'base64',
+							media_type: request.image.mimeType,
+							data: request.image.data,
+						},
+					},
+				],
+			},
+		];
+	}
+
+	private buildExtraBody(request: ProviderRequest): any {
+		const extraBody: any = {};
+		if (request.json) {
+			extraBody.response_format = { type: 'json_object' };
+		}
+		if (request.temperature !== undefined) {
+			extraBody.temperature = request.temperature;
+		}
+		return extraBody;
+	}
+
 	private async getMd5(text: string): Promise<string> {
 		const msgUint8 = new TextEncoder().encode(text);
 		const hashBuffer = await crypto.subtle.digest('MD5', msgUint8);
@@ -13,6 +103,66 @@ export class OpenRouterService {
 		return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 	}
 
+	// Stores the finished stream under the key it is looked up by, whichever provider served it
+	private cacheOnComplete(env: Env, cacheKey: TranslationCacheKey | undefined, sourceText: string): ProviderCallOptions['onComplete'] {
+		if (!cacheKey) return undefined;
+		return async (fullText) => {
+			if (!fullText.trim()) return;
+			try {
+				await saveCachedTranslation(env.words_db, cacheKey, sourceText, fullText);
+			} catch (e) {
+				console.error('[Cache] Failed to save translation:', e);
+			}
+		};
+	}
+
+	// Buffers word-card JSON, repairs it, and retries once with the validation error if repair is not enough
+	private wordCardValidator(
+		env: Env,
+		request: ProviderRequest,
+		options: ProviderCallOptions,
+		mode: StreamValidator['mode'] = () => 'buffer',
+	): StreamValidator {
+		return {
+			mode,
+			finalize: async (fullText) => {
+				const first = parseWordCard(fullText);
+				if (first.card) return { text: JSON.stringify(first.card) };
+
+				console.warn(`[WordCard] ${options.endpoint} response failed validation (${first.error}), retrying once`);
+				const retryPrompt = renderPrompt(
+					'word_card_repair',
+					{ prompt: request.prompt, error: first.error, response: fullText },
+					options.userId,
+				);
+				let usage: NormalizedUsage | null = null;
+				const { getProviderRegistry } = await import('./registry');
+				const retryText = await getProviderRegistry().complete(
+					env,
+					{ ...request, prompt: retryPrompt.text, json: true },
+					{
+						userId: options.userId,
+						ctx: options.ctx,
+						endpoint: options.endpoint,
+						contentHash: options.contentHash,
+						promptVersion: retryPrompt.id,
+						// Logged as part of the stream it repairs, so the response counts as one request
+						deferUsageLog: true,
+						onUsage: (retryUsage) => {
+							usage = retryUsage;
+						},
+					},
+				);
+
+				const second = parseWordCard(retryText || '');
+				if (second.card) return { text: JSON.stringify(second.card), usage };
+				const error = new WordCardError(`Invalid word card: ${second.error}`);
+				error.usage = usage;
+				throw error;
+			},
+		};
+	}
+
 	private async callOpenRouterAPI(
 		env: Env,
 		model: string,
@@ -26,7 +176,7 @@ export class OpenRouterService {
 			throw new Error('OPENROUTER_API_KEY is not defined');
 		}
 
-		const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+		const response = await fetchWithTimeout(this.name, 'https://openrouter.ai/api/v1/chat/completions', {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -43,116 +193,36 @@ export class OpenRouterService {
 		if (!response.ok) {
 			const errorText = await response.text();
 			console.error('OpenRouter API Error:', response.status, errorText);
-			throw new Error(`OpenRouter API Error: ${response.status}`);
+			throw new ProviderError(this.name, response.status, `OpenRouter API Error: ${response.status}`);
 		}
 
 		return response;
 	}
 
-	private async handleStreamResponse(
-		response: Response,
-		env: Env,
-		userId: string,
-		ctx: ExecutionContext,
-		modelName: string,
-		endpointName: string,
-		contentHash: string,
-	): Promise<Response> {
-		// Return streaming response in SSE format
-		const { readable, writable } = new TransformStream();
-		const writer = writable.getWriter();
-		const encoder = new TextEncoder();
-
-		// Track usage metadata
-		let usageMetadata: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number; cost?: number } | null = null;
-
-		// Process the stream in the background
-		(async () => {
-			try {
-				const reader = response.body?.getReader();
-				const decoder = new TextDecoder();
-
-				if (reader) {
-					let buffer = '';
-					while (true) {
-						const { done, value } = await reader.read();
-						if (done) break;
-
-						const chunk = decoder.decode(value, { stream: true });
-						buffer += chunk;
-						const lines = buffer.split('\n');
-						buffer = lines.pop() || '';
-
-						for (const line of lines) {
-							if (line.startsWith('data: ')) {
-								const data = line.slice(6);
-								if (data === '[DONE]') continue;
-
-								try {
-									const parsed = JSON.parse(data);
-
-									// Capture usage metadata if present
-									if (parsed.usage) {
-										usageMetadata = parsed.usage;
-									}
-
-									const content = parsed.choices?.[0]?.delta?.content;
-									if (content) {
-										// Convert OpenRouter format to Gemini-like SSE format
-										const geminiFormat = {
-											candidates: [
-												{
-													content: { parts: [{ text: content }] },
-												},
-											],
-										};
-										await writer.write(encoder.encode(`data: ${JSON.stringify(geminiFormat)}\n\n`));
-									}
-								} catch (e) {
-									// Ignore parse errors
-								}
-							}
-						}
-					}
-				}
-
-				// Log usage after stream completes
-				if (usageMetadata && usageMetadata.prompt_tokens) {
-					await this.logOpenRouterUsage(env, userId, ctx, modelName, endpointName, contentHash, usageMetadata);
-				} else {
-					console.log(`[OpenRouter ${endpointName}] No usage metadata received`);
-				}
-			} catch (error) {
-				console.error('Stream processing error:', error);
-			} finally {
-				await writer.close();
-			}
-		})();
-
-		return new Response(readable, {
-			headers: {
-				'Content-Type': 'text/event-stream',
-				'Cache-Control': 'no-cache',
-				Connection: 'keep-alive',
+	private async handleStreamResponse(response: Response, env: Env, modelName: string, options: ProviderCallOptions): Promise<Response> {
+		// Convert OpenRouter format to Gemini-like SSE format
+		return createSseStream(response, {
+			dialect: 'openai',
+			ctx: options.ctx,
+			model: modelName,
+			provider: this.name,
+			hooks: {
+				onUsage: (usage, requestId) => this.logOpenRouterUsage(env, modelName, options, usage, requestId),
+				onComplete: options.onComplete && ((fullText) => options.onComplete!(fullText, modelName)),
 			},
+			validator: options.validator,
 		});
 	}
 
-	private async handleJSONResponse(
-		response: Response,
-		env: Env,
-		userId: string,
-		ctx: ExecutionContext,
-		modelName: string,
-		endpointName: string,
-		contentHash: string,
-	): Promise<any> {
+	private async handleJSONResponse(response: Response, env: Env, modelName: string, options: ProviderCallOptions): Promise<any> {
 		const data: any = await response.json();
 
-		if (data.usage) {
-			await this.logOpenRouterUsage(env, userId, ctx, modelName, endpointName, contentHash, data.usage);
+		const usage = normalizeUsage('openai', data.usage);
+		if (usage) {
+			const costMicros = await this.logOpenRouterUsage(env, modelName, options, usage);
+			options.onUsage?.(usage, costMicros);
 		} else {
-			console.log(`[OpenRouter ${endpointName}] No usage metadata received`);
+			console.log(`[OpenRouter ${options.endpoint}] No usage metadata received`);
 		}
 
 		return data;
@@ -160,37 +230,27 @@ export class OpenRouterService {
 
 	private async logOpenRouterUsage(
 		env: Env,
-		userId: string,
-		ctx: ExecutionContext,
 		modelName: string,
-		endpointName: string,
-		contentHash: string,
-		usageMetadata: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number; cost?: number },
-	) {
+		options: ProviderCallOptions,
+		usageMetadata: NormalizedUsage,
+		requestId?: string,
+	): Promise<number> {
 		const { logUsage } = await import('../models/usage');
 		const { calculateCost } = await import('../utils/cost');
 		const { PRICING_PER_1M } = await import('../config/pricing');
+		const { userId, ctx, endpoint: endpointName, contentHash } = options;
 
-		// Convert OpenRouter usage format to Gemini-like format
-		const geminiUsageMetadata = {
-			promptTokenCount: usageMetadata.prompt_tokens || 0,
-			candidatesTokenCount: usageMetadata.completion_tokens || 0,
-			totalTokenCount: usageMetadata.total_tokens || 0,
-		};
-
-		console.log(`[OpenRouter ${endpointName}] Raw metadata:`, JSON.stringify(usageMetadata, null, 2));
+		console.log(`[OpenRouter ${endpointName}] Normalized metadata:`, JSON.stringify(usageMetadata, null, 2));
 
 		// Use centralized cost calculation
-		const costResult = calculateCost(modelName, geminiUsageMetadata, PRICING_PER_1M);
+		const costResult = calculateCost(modelName, usageMetadata, PRICING_PER_1M);
 
 		let finalCostMicros = costResult.cost;
 
-		// Use Native OpenRouter Cost if available (convert dollars to micros)
-		if (usageMetadata.cost !== undefined && typeof usageMetadata.cost === 'number') {
-			// cost is in USD (e.g. 0.0005)
-			// micros = USD * 1_000_000
-			finalCostMicros = Math.round(usageMetadata.cost * 1_000_000);
-			console.log(`[OpenRouter ${endpointName}] Using native cost: $${usageMetadata.cost} -> ${finalCostMicros} micros`);
+		// Use Native OpenRouter Cost if available
+		if (usageMetadata.nativeCostMicros !== undefined) {
+			finalCostMicros = usageMetadata.nativeCostMicros;
+			console.log(`[OpenRouter ${endpointName}] Using native cost: ${finalCostMicros} micros`);
 		}
 
 		console.log(`[OpenRouter ${endpointName}] Calculated:`, {
@@ -200,53 +260,71 @@ export class OpenRouterService {
 			costMicros: finalCostMicros,
 			endpoint: endpointName,
 			contentHash,
-			nativeCost: usageMetadata.cost,
+			nativeCostMicros: usageMetadata.nativeCostMicros,
 		});
 
+		if (options.deferUsageLog) return finalCostMicros;
+
 		ctx.waitUntil(
-			logUsage(env.logs_db, userId, modelName, costResult.input.total, costResult.output.total, finalCostMicros, endpointName, contentHash),
+			logUsage(
+				env.logs_db,
+				userId,
+				modelName,
+				costResult.input.total,
+				costResult.output.total,
+				finalCostMicros,
+				endpointName,
+				contentHash,
+				undefined,
+				undefined,
+				{
+					provider: this.name,
+					failoverFrom: options.failoverFrom,
+					requestId,
+					promptVersion: options.promptVersion,
+					requestCount: options.requestCount,
+				},
+			).catch((err) => console.error('Failed to log usage', err)),
 		);
+
+		return finalCostMicros;
 	}
 
-	async correctInput(env: Env, request: CorrectionRequest, userId: string, ctx: ExecutionContext): Promise<string> {
+	async correctInput(
+		env: Env,
+		request: CorrectionRequest,
+		userId: string,
+		ctx: ExecutionContext,
+	): Promise<{ text: string; model: string; usage: DoneFrame['usage']; costMicros: number }> {
 		const { original, translated, sourceLang, targetLang } = request;
 
-		const prompt = `
-        You are a translation correction assistant.
-        The conversation involves two languages: ${sourceLang} and ${targetLang}.
-        
-        The user's speech was translated into:
-        "${translated}"
-        
-        Since this is the translation result, the original input MUST be in the other language (whichever of the two is NOT the language of the translation).
-        
-        The initial speech recognition (ASR) result was:
-        "${original}"
-        
-        The ASR result might have incorrect language detection or content errors. 
-        Your task is to ignore the flaws in the ASR and reconstruct the TRUE original speech text.
-        
-        Logic:
-        1. Identify the language of the translation ("${translated}").
-        2. The user's input language is the opposite one.
-        3. Reconstruct what the user said in that input language to produce this translation.
-        
-        Output ONLY the corrected original text. Do not provide explanations.
-        `;
-
-		const modelName = 'qwen/qwen3-235b-a22b-2507';
-		const response = await this.callOpenRouterAPI(
-			env,
-			modelName,
-			[{ role: 'user', content: prompt }],
-			false, // Non-streaming
-		);
+		const prompt = renderPrompt('correction', { original, translated, sourceLang, targetLang }, userId);
 
 		const contentHash = await this.getMd5(original);
-		const data = await this.handleJSONResponse(response, env, userId, ctx, modelName, 'input_correction', contentHash);
+		let model = this.getModel('correction');
+		let usage: DoneFrame['usage'] = null;
+		let costMicros = 0;
+		const { getProviderRegistry } = await import('./registry');
+		const correctedText = await getProviderRegistry().complete(
+			env,
+			{ capability: 'correction', prompt: prompt.text },
+			{
+				userId,
+				ctx,
+				endpoint: 'input_correction',
+				contentHash,
+				promptVersion: prompt.id,
+				onComplete: async (_, servedBy) => {
+					model = servedBy;
+				},
+				onUsage: (normalized, cost) => {
+					usage = toDoneUsage(normalized);
+					costMicros = cost;
+				},
+			},
+		);
 
-		const correctedText = data.choices?.[0]?.message?.content?.trim();
-		return correctedText || original;
+		return { text: correctedText || original, model, usage, costMicros };
 	}
 
 	async translateWord(
@@ -258,50 +336,27 @@ export class OpenRouterService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
-		const prompt = `You are a smart translator. Analyze the following text and translate it from ${targetLangName} to ${sourceLangName}.
-        
-        Input is verified to be a **Word** or **Phrase**.
-        
-        Output **ONLY** a valid JSON object with the following structure:
-        
-        {
-            "type": "word",
-            "origin": "${sourceLangName}语言的${text}",
-            "translation": "${targetLang}语言的${text}",
-            "kana": "Pronunciation (if applicable, e.g. Japanese Kana, Pinyin, otherwise null)",
-            "examples": [
-                {
-                    "original": "Example sentence 1 in ${targetLang}",
-                    "translation": "Example sentence 1 in ${sourceLang}",
-                    "kana": "Pronunciation of example 1 (if applicable)"
-                }
-            ],
-            "memory_tip": "A fun or useful tip to remember this word",
-            "explanation": "Brief explanation of meaning and usage",
-            "english_word": "English translation"
-        }
-        
-        你所有的回答要用 "${sourceLang}" 语言回答,因为你面对的用户的母语是: ${sourceLang}。
-        examples要给出2个例句.
-
-        我们返回的translation都要使用${targetLang}语言。而origin都是${sourceLang}语言。
-
-        Input Text:
-        "${text}"`;
-
-		const modelName = 'qwen/qwen3-235b-a22b-2507';
-		const response = await this.callOpenRouterAPI(
-			env,
-			modelName,
-			[{ role: 'user', content: prompt }],
-			true, // Enable streaming
-		);
+		const prompt = renderPrompt('word', { sourceLang, targetLang, sourceLangName, targetLangName, text }, userId);
 
 		// Calculate text hash for logging
 		const textHash = await this.getMd5(text);
 
-		return this.handleStreamResponse(response, env, userId, ctx, modelName, 'word_translation', textHash);
+		const request: ProviderRequest = { capability: 'word', prompt: prompt.text };
+		const options: ProviderCallOptions = {
+			userId,
+			ctx,
+			endpoint: 'word_translation',
+			contentHash: textHash,
+			promptVersion: prompt.id,
+			// Only validated cards reach the cache: onComplete receives the finalized text
+			onComplete: this.cacheOnComplete(env, cacheKey, text),
+		};
+		options.validator = this.wordCardValidator(env, request, options);
+
+		const { getProviderRegistry } = await import('./registry');
+		return getProviderRegistry().stream(env, request, options);
 	}
 
 	async translateLongText(
@@ -313,33 +368,26 @@ export class OpenRouterService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
-		const prompt = `
-       你是一个专业的翻译员. 用户的母语是 ${sourceLangName} ,他经常需要翻译的语言是 ${targetLangName}.
-              
-       要求:
-       - 理解用户的输入并帮助用户翻译.
-       - 如果内容特别长,就直接翻译并输出给用户
-       - 如果句子只是一两句,我还希望你给用户讲解对应的语法,用用户的母语讲解
-       - 输出可以用markdown文本,来展示更多你想讲的数据
-       - 你要移除\"您好,作为一个专业的翻译人员, 我很乐意帮你提供...这些开头的词语\",直接开始讲解你的翻译\"
-        
-       用户的输入是:
-       "${text}"
-       `;
-
-		const modelName = 'qwen/qwen3-235b-a22b-2507';
-		const response = await this.callOpenRouterAPI(
-			env,
-			modelName,
-			[{ role: 'user', content: prompt }],
-			true, // Enable streaming
-		);
+		const prompt = renderPrompt('long_text', { sourceLangName, targetLangName, text }, userId);
 
 		// Calculate text hash for logging
 		const textHash = await this.getMd5(text);
 
-		return this.handleStreamResponse(response, env, userId, ctx, modelName, 'long_text_translation', textHash);
+		const { getProviderRegistry } = await import('./registry');
+		return getProviderRegistry().stream(
+			env,
+			{ capability: 'long_text', prompt: prompt.text },
+			{
+				userId,
+				ctx,
+				endpoint: 'long_text_translation',
+				contentHash: textHash,
+				promptVersion: prompt.id,
+				onComplete: this.cacheOnComplete(env, cacheKey, text),
+			},
+		);
 	}
 
 	async classifyText(
@@ -348,28 +396,20 @@ export class OpenRouterService {
 		text: string,
 		ctx: ExecutionContext,
 	): Promise<{ type: 'word' | 'sentence' | 'multiple_sentences' }> {
-		const prompt = `Classify the following text into one of these types:
-           - "word" (Single word or short phrase)
-           - "sentence" (Complete sentence)
-           - "multiple_sentences" (Paragraph or multiple sentences)
-
-           Return ONLY a JSON object with a "type" field containing one of the exact strings above. Nothing else.
-
-           Input: "${text}"`;
-
-		const modelName = 'qwen/qwen3-235b-a22b-2507';
-		const response = await this.callOpenRouterAPI(env, modelName, [{ role: 'user', content: prompt }], false, {
-			response_format: { type: 'json_object' },
-		});
+		const prompt = renderPrompt('classify', { text }, userId);
 
 		// Calculate text hash for logging
 		const textHash = await this.getMd5(text);
 
-		const data = await this.handleJSONResponse(response, env, userId, ctx, modelName, 'text_classification', textHash);
-		const resultText = data.choices?.[0]?.message?.content?.trim();
+		const { getProviderRegistry } = await import('./registry');
+		const resultText = await getProviderRegistry().complete(
+			env,
+			{ capability: 'classify', prompt: prompt.text, json: true },
+			{ userId, ctx, endpoint: 'text_classification', contentHash: textHash, promptVersion: prompt.id },
+		);
 
 		if (!resultText) {
-			console.error('No classification result from OpenRouter');
+			console.error('No classification result from provider');
 			return { type: 'sentence' }; // Default fallback
 		}
 
@@ -405,59 +445,29 @@ export class OpenRouterService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
-		// Clean Base64 format (remove data:image/xxx;base64, prefix and newlines)
-		const pureBase64 = imageBase64.replace(/^data:image\/\w+;base64,/, '').replace(/\s/g, '');
+		const pureBase64 = cleanImageBase64(imageBase64);
 
 		// Construct Prompt based on User's request
-		let finalPrompt = `Analyze the image and extract the text.
-           Then.
-
-           请你考虑语言背景，进行翻译。用户的母语是 ${sourceLangName} ,目前用户希望翻译的语言是 ${targetLangName}
-
-           Output the result in **Markdown** format.
-           - You can output what the original text is, and what the translation is, to make it easier for the user to understand and compare.
-           - Do NOT include any JSON.
-           - **Do NOT use code blocks (\`\`\`) for normal text.** content should be standard text.
-           - Just output the translated text directly.
-
-           所以请你用的所有的解释性的文字都要用用户的母语来说.
-       `;
-
-		if (promptUser && promptUser.trim() !== '') {
-			finalPrompt += `\n\nUser Requirement: ${promptUser}`;
-		}
-
-		const modelName = 'qwen/qwen3-vl-235b-a22b-instruct';
-		const response = await this.callOpenRouterAPI(
-			env,
-			modelName,
-			[
-				{
-					role: 'user',
-					content: [
-						{
-							type: 'text',
-							text: finalPrompt,
-						},
-						{
-							type: 'image',
-							source: {
-								type: 'base64',
-								media_type: mimeType,
-								data: pureBase64,
-							},
-						},
-					],
-				},
-			],
-			true,
-		);
+		const prompt = renderPrompt('image', { sourceLangName, targetLangName, promptUser }, userId);
 
 		// Calculate image hash for logging
 		const imageHash = await this.getMd5(pureBase64);
 
-		return this.handleStreamResponse(response, env, userId, ctx, modelName, 'image_translation', imageHash);
+		const { getProviderRegistry } = await import('./registry');
+		return getProviderRegistry().stream(
+			env,
+			{ capability: 'image', prompt: prompt.text, image: { data: pureBase64, mimeType } },
+			{
+				userId,
+				ctx,
+				endpoint: 'image_translation',
+				contentHash: imageHash,
+				promptVersion: prompt.id,
+				onComplete: this.cacheOnComplete(env, cacheKey, promptUser || '[image]'),
+			},
+		);
 	}
 
 	async smartTranslate(
@@ -469,69 +479,64 @@ export class OpenRouterService {
 		sourceLangName: string,
 		targetLangName: string,
 		ctx: ExecutionContext,
+		cacheKey?: TranslationCacheKey,
 	): Promise<Response> {
-		const prompt = `
-        Role: Professional Translator & Dictionary.
-        User Native Language: ${sourceLangName}
-        Target Language: ${targetLangName}
-        
-        Task: Analyze the input text and perform the appropriate action immediately.
-        
-        MODE 1: WORD/PHRASE (Short text, < 5 words usually)
-        If input is a word/phrase, output **ONLY** a valid JSON object (No Markdown blocks).
-        
-        Requirements for JSON:
-        1. "memory_tip" and "explanation" MUST be in **${sourceLangName}** (User's Native Language).
-        2. "examples" MUST contain **2 different** sentences.
-        3. "translation" MUST be the direct meaning in ${sourceLangName}.
-        
-        Format:
-        {
-            "type": "word",
-            "original": "this word in ${sourceLangName}",
-            "translation": "this word in ${targetLangName}",
-            "kana": "...",
-            "examples": [
-                {"original": "${targetLangName}的例句", "translation": "${sourceLangName}的例句"},
-                {"original": "${targetLangName}的例句", "translation": "${sourceLangName}的例句"}
-            ],
-            "memory_tip": "...",
-            "explanation": "...",
-            "english_word": "..."
-        }
-        
-        MODE 2: SENTENCE/PARAGRAPH (Longer text)
-        If input is a sentence/paragraph, output **EXACTLY** this header followed immediately by the translation:
-        [[SENTENCE]]
-        (Then output the translation text stream immediately here. No conversational filler.)
-        
-        CRITICAL INSTRUCTIONS:
-        1. **NO THINKING**. Do not output "Let me think" or "Here is the translation".
-        2. **NO MARKDOWN**. Do not wrap JSON in \`\`\`json ... \`\`\`. Output raw JSON bytes.
-        3. **IMMEDIATE START**. Your first character MUST be \`{\` or \`[\` depending on the mode.
-        
-        Input:
-        "${text}"
-        `;
-
-		// Using the same Qwen model as other methods for consistency
-		const modelName = 'qwen/qwen3-235b-a22b-2507';
+		const prompt = renderPrompt('smart', { sourceLangName, targetLangName, text }, userId);
+
+		// Calculate text hash for logging
+		const textHash = await this.getMd5(text);
 
 		// For smart translate, we want low temperature for determinism (JSON structure)
-		const response = await this.callOpenRouterAPI(
+		// Do NOT force JSON format because it might be text mode
+		const request: ProviderRequest = { capability: 'word', prompt: prompt.text, temperature: 0 };
+		const options: ProviderCallOptions = {
+			userId,
+			ctx,
+			endpoint: 'smart_translation',
+			contentHash: textHash,
+			promptVersion: prompt.id,
+			onComplete: this.cacheOnComplete(env, cacheKey, text),
+		};
+		// Sentence mode streams straight through; anything that looks like JSON is validated as a word card
+		options.validator = this.wordCardValidator(env, request, options, (prefix) => {
+			if (prefix.startsWith(SENTENCE_MARKER)) return 'stream';
+			if (SENTENCE_MARKER.startsWith(prefix) || '```'.startsWith(prefix)) return undefined;
+			return prefix.startsWith('{') || prefix.startsWith('```') ? 'buffer' : 'stream';
+		});
+
+		const { getProviderRegistry } = await import('./registry');
+		return getProviderRegistry().stream(env, request, options);
+	}
+
+	// Translates strings sharing a language pair in one packed prompt, metered as one text_translation request per string
+	async translateBatch(
+		env: Env,
+		userId: string,
+		texts: string[],
+		sourceLangName: string,
+		targetLangName: string,
+		ctx: ExecutionContext,
+	): Promise<(string | null)[]> {
+		const prompt = renderPrompt(
+			'batch',
+			{ sourceLangName, targetLangName, count: String(texts.length), items: JSON.stringify(texts, null, 2) },
+			userId,
+		);
+
+		const { getProviderRegistry } = await import('./registry');
+		const resultText = await getProviderRegistry().complete(
 			env,
-			modelName,
-			[{ role: 'user', content: prompt }],
-			true, // Enable streaming
+			{ capability: 'batch', prompt: prompt.text, json: true },
 			{
-				temperature: 0,
-				// Do NOT force JSON format because it might be text mode
+				userId,
+				ctx,
+				// Logged as text_translation so the items count against that quota
+				endpoint: 'text_translation',
+				promptVersion: prompt.id,
+				requestCount: texts.length,
 			},
 		);
 
-		// Calculate text hash for logging
-		const textHash = await this.getMd5(text);
-
-		return this.handleStreamResponse(response, env, userId, ctx, modelName, 'smart_translation', textHash);
+		return parseBatchTranslations(resultText, texts.length);
 	}
 }
@@ -0,0 +1,95 @@
+import { PromptExperiment, PromptName, PROMPT_EXPERIMENTS, PROMPT_TEMPLATES } from '../config/prompts';
+
+export type PromptVariables = Record<string, string | null | undefined>;
+
+export interface RenderedPrompt {
+	name: PromptName;
+	version: string;
+	// `${name}@${version}`, recorded on usage_logs and in translation cache keys
+	id: string;
+	text: string;
+}
+
+export function getPromptId(name: PromptName, version: string): string {
+	return `${name}@${version}`;
+}
+
+// User text is usually quoted inside the prompt, so backslashes and quotes must not end the quote early
+export function escapePromptValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// FNV-1a: a cheap, stable hash so a user keeps the same bucket across requests and isolates
+export function getPromptBucket(experimentId: string, userId: string): number {
+	const input = `${experimentId}:${userId}`;
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < input.length; i++) {
+		hash ^= input.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) % 100;
+}
+
+export function selectPromptVersion(
+	name: PromptName,
+	userId?: string | null,
+	experiments: Partial<Record<PromptName, PromptExperiment>> = PROMPT_EXPERIMENTS,
+): string {
+	const template = PROMPT_TEMPLATES[name];
+	const experiment = experiments[name];
+
+	// Anonymous requests (cache lookups before auth) always see the default version
+	if (!experiment || !userId) {
+		return template.defaultVersion;
+	}
+
+	const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+	if (totalWeight <= 0) {
+		return template.defaultVersion;
+	}
+
+	const point = (getPromptBucket(experiment.id, userId) / 100) * totalWeight;
+	let cumulative = 0;
+	for (const variant of experiment.variants) {
+		cumulative += variant.weight;
+		if (point < cumulative && template.versions[variant.version]) {
+			return variant.version;
+		}
+	}
+	return template.defaultVersion;
+}
+
+export function renderTemplate(template: string, variables: PromptVariables): string {
+	const lookup = (key: string): string => {
+		const value = variables[key];
+		if (value === undefined || value === null) {
+			throw new Error(`Missing prompt variable: ${key}`);
+		}
+		return value;
+	};
+
+	// Sections first so the variables inside them are interpolated in the same pass below
+	const withSections = template.replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, key: string, block: string) =>
+		variables[key] && String(variables[key]).trim() !== '' ? block : '',
+	);
+
+	// Single pass: interpolated values are never re-scanned for template tags
+	return withSections.replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_, rawKey?: string, escapedKey?: string) =>
+		rawKey ? lookup(rawKey) : escapePromptValue(lookup(escapedKey!)),
+	);
+}
+
+export function renderPrompt(
+	name: PromptName,
+	variables: PromptVariables,
+	userId?: string | null,
+	experiments?: Partial<Record<PromptName, PromptExperiment>>,
+): RenderedPrompt {
+	const version = selectPromptVersion(name, userId, experiments);
+	return {
+		name,
+		version,
+		id: getPromptId(name, version),
+		text: renderTemplate(PROMPT_TEMPLATES[name].versions[version], variables),
+	};
+}
@@ -0,0 +1,122 @@
+import { ProviderCapability, ProviderName, PROVIDER_ROUTES, PROVIDER_TIMEOUT_MS } from '../config/providers';
+import { NormalizedUsage, StreamValidator } from './stream';
+
+export interface ProviderRequest {
+	capability: ProviderCapability;
+	prompt: string;
+	image?: { data: string; mimeType: string };
+	json?: boolean;
+	temperature?: number;
+}
+
+export interface ProviderCallOptions {
+	userId: string;
+	ctx: ExecutionContext;
+	endpoint: string;
+	contentHash?: string;
+	// Set by the registry when this call is serving a request the primary provider failed
+	failoverFrom?: ProviderName;
+	// Prompt template id recorded on usage_logs
+	promptVersion?: string;
+	// Quota units the call is metered as (packed batch prompts), defaults to 1
+	requestCount?: number;
+	// Receives the full text and the model that actually produced it (stream and complete)
+	onComplete?: (fullText: string, model: string) => Promise<void>;
+	// Complete only: receives the usage and cost that were logged (streams report them in the done frame)
+	onUsage?: (usage: NormalizedUsage, costMicros: number) => void;
+	// Complete only: the caller logs the usage it gets through onUsage (a retry billed with the stream it repairs)
+	deferUsageLog?: boolean;
+	// Streaming only: holds the response back until it passes validation
+	validator?: StreamValidator;
+}
+
+export interface TranslationProvider {
+	readonly name: ProviderName;
+	getModel(capability: ProviderCapability): string;
+	// Streams a Gemini-shaped SSE response back to the client
+	stream(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<Response>;
+	// Returns the full text of a non-streaming completion
+	complete(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<string | null>;
+}
+
+export class ProviderError extends Error {
+	constructor(
+		public provider: ProviderName,
+		public status: number,
+		message: string,
+	) {
+		super(message);
+		this.name = 'ProviderError';
+	}
+
+	// 5xx, 429 and timeouts (reported as 504) are worth retrying on another provider
+	get retryable(): boolean {
+		return this.status === 429 || this.status >= 500;
+	}
+}
+
+export async function fetchWithTimeout(provider: ProviderName, url: string, init: RequestInit): Promise<Response> {
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+
+	try {
+		return await fetch(url, { ...init, signal: controller.signal });
+	} catch (e: any) {
+		if (controller.signal.aborted) {
+			throw new ProviderError(provider, 504, `${provider} request timed out after ${PROVIDER_TIMEOUT_MS}ms`);
+		}
+		throw new ProviderError(provider, 502, `${provider} request failed: ${e.message}`);
+	} finally {
+		// Only the wait for headers is bounded; the body may keep streaming
+		clearTimeout(timer);
+	}
+}
+
+export class ProviderRegistry {
+	private providers = new Map<ProviderName, TranslationProvider>();
+
+	register(provider: TranslationProvider): this {
+		this.providers.set(provider.name, provider);
+		return this;
+	}
+
+	getChain(capability: ProviderCapability): TranslationProvider[] {
+		return PROVIDER_ROUTES[capability].map((name) => this.providers.get(name)).filter((p): p is TranslationProvider => !!p);
+	}
+
+	async stream(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<Response> {
+		return this.withFailover(request.capability, options, (provider, opts) => provider.stream(env, request, opts));
+	}
+
+	async complete(env: Env, request: ProviderRequest, options: ProviderCallOptions): Promise<string | null> {
+		return this.withFailover(request.capability, options, (provider, opts) => provider.complete(env, request, opts));
+	}
+
+	private async withFailover<T>(
+		capability: ProviderCapability,
+		options: ProviderCallOptions,
+		call: (provider: TranslationProvider, options: ProviderCallOptions) => Promise<T>,
+	): Promise<T> {
+		const chain = this.getChain(capability);
+		if (chain.length === 0) {
+			throw new Error(`No provider registered for capability: ${capability}`);
+		}
+
+		const primary = chain[0];
+		for (let i = 0; i < chain.length; i++) {
+			const provider = chain[i];
+			const isLast = i === chain.length - 1;
+			try {
+				return await call(provider, i === 0 ? options : { ...options, failoverFrom: primary.name });
+			} catch (e) {
+				if (isLast || !(e instanceof ProviderError) || !e.retryable) {
+					throw e;
+				}
+				console.warn(`[Provider] ${provider.name} failed for ${capability} (${e.status}), failing over to ${chain[i + 1].name}`);
+			}
+		}
+
+		// Unreachable: the loop either returns or throws on the last provider
+		throw new Error(`All providers failed for capability: ${capability}`);
+	}
+}
@@ -0,0 +1,62 @@
+import { CREDIT_PACKAGES, CREDIT_RESOURCE_TYPES, Quota, ResourceType } from '../config/limits';
+import { UsageStats, getUserTimeZone } from '../models/usage';
+import { getPeriodResetTimes } from '../utils/timezone';
+import { getTierConfig, getTierConfigs } from './tiers';
+
+export type QuotaWindow = 'daily' | 'monthly' | 'total';
+
+export interface QuotaExceeded {
+	userId: string;
+	window: QuotaWindow;
+	tier: string;
+	resourceType: ResourceType;
+	limits: Quota;
+	usage: UsageStats;
+	creditsSeconds: number;
+}
+
+// A tier lets the request through only if none of its windows is used up
+function allowsUsage(limits: Quota, usage: UsageStats): boolean {
+	return usage.daily < limits.daily && usage.monthly < limits.monthly && (limits.total === undefined || usage.total < limits.total);
+}
+
+// Tiers are sold through entitlements and ranked by priority, so the cheapest upgrade is the lowest-priority
+// purchasable tier above the current one that would unblock the request
+async function findUpsellTier(env: Env, tier: string, resourceType: ResourceType, usage: UsageStats) {
+	const current = await getTierConfig(env, tier);
+	const candidates = [...(await getTierConfigs(env)).values()]
+		.filter((config) => config.entitlementIds.length > 0 && config.priority > current.priority)
+		.sort((a, b) => a.priority - b.priority);
+
+	const upsell = candidates.find((config) => allowsUsage(config.limits[resourceType], usage));
+	if (!upsell) return null;
+	const limits = upsell.limits[resourceType];
+	return {
+		tier: upsell.tier,
+		entitlement_ids: upsell.entitlementIds,
+		limits: { daily: limits.daily, monthly: limits.monthly, total: limits.total ?? null },
+	};
+}
+
+// Details of a QUOTA_*_EXCEEDED error, enough for the app to show a paywall for exactly what ran out
+export async function getQuotaExceededDetails(env: Env, exceeded: QuotaExceeded, now: Date = new Date()) {
+	const { userId, window, tier, resourceType, limits, usage, creditsSeconds } = exceeded;
+	const resets = getPeriodResetTimes(now, await getUserTimeZone(env.logs_db, userId));
+	// Any credit balance unblocks a credit-backed resource, so the smallest package is enough
+	const creditPackage = CREDIT_RESOURCE_TYPES.includes(resourceType) ? CREDIT_PACKAGES[0] : undefined;
+
+	return {
+		tier,
+		resource_type: resourceType,
+		window,
+		limit: limits[window] ?? null,
+		used: usage[window],
+		// The total allowance never resets
+		reset_at: window === 'total' ? null : resets[window],
+		credits_remaining_seconds: creditsSeconds,
+		upsell: {
+			tier: await findUpsellTier(env, tier, resourceType, usage),
+			credit_package: creditPackage ? { product_id: creditPackage.productId, amount_seconds: creditPackage.amountSeconds } : null,
+		},
+	};
+}
@@ -0,0 +1,12 @@
+import { GeminiService } from './gemini';
+import { OpenRouterService } from './openrouter';
+import { ProviderRegistry } from './provider';
+
+let registry: ProviderRegistry | null = null;
+
+export function getProviderRegistry(): ProviderRegistry {
+	if (!registry) {
+		registry = new ProviderRegistry().register(new GeminiService()).register(new OpenRouterService());
+	}
+	return registry;
+}
@@ -0,0 +1,192 @@
+import { LONG_TTS_LIMITS } from '../config/limits';
+import { PRICING_PER_1M } from '../config/pricing';
+import { findTtsLogByHash, logTts } from '../models/tts';
+import { decodeBase64 } from '../utils/audio';
+import { encodePcm, readWavPcm } from '../utils/audio_formats';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { calculateCost } from '../utils/cost';
+import { splitSentences } from '../utils/segmentation';
+import { getPromptId, renderPrompt, selectPromptVersion } from './prompts';
+
+// Gemini TTS answers with 24kHz 16-bit mono PCM
+export const TTS_SAMPLE_RATE = 24000;
+export const BYTES_PER_MS = (TTS_SAMPLE_RATE * 2) / 1000;
+
+export class SpeechError extends Error {
+	// Set by synthesizeLongText: the sentence that failed and what the ones before it already cost
+	segment?: number;
+	usage?: LongSpeech['usage'];
+
+	constructor(
+		message: string,
+		public upstreamStatus?: number,
+	) {
+		super(message);
+		this.name = 'SpeechError';
+	}
+}
+
+export interface SpeechOptions {
+	userId: string;
+	voiceName: string;
+	languageCode?: string;
+	modelName: string;
+}
+
+// Where each sentence sits in a stitched clip, so a reader view can highlight the one being spoken
+export interface SpeechSegmentTiming {
+	index: number;
+	text: string;
+	start_ms: number;
+	end_ms: number;
+	cached: boolean;
+}
+
+export interface LongSpeech {
+	pcm: Uint8Array;
+	segments: SpeechSegmentTiming[];
+	// Totals over the sentences that had to be generated
+	usage: { inputTokens: number; outputTokens: number; costMicros: number; generated: number; promptVersion: string | null };
+}
+
+export async function calculateHash(text: string): Promise<string> {
+	const msgUint8 = new TextEncoder().encode(text);
+	const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8);
+	const hashArray = Array.from(new Uint8Array(hashBuffer));
+	return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// The tts prompt id `userId`'s requests are rendered with. Cached audio is keyed on it, so lookups before auth must
+// pass the same (optional) user id that generation will render with.
+export function getTtsPromptVersion(userId?: string | null): string {
+	return getPromptId('tts', selectPromptVersion('tts', userId));
+}
+
+// One prompt to the TTS model, returning its raw PCM
+export async function generateSpeech(env: Env, text: string, options: SpeechOptions) {
+	const prompt = renderPrompt('tts', { languageCode: options.languageCode || 'unknown', text }, options.userId);
+	const response = await fetch(
+		`https://generativelanguage.googleapis.com/v1beta/models/${options.modelName}:generateContent?key=${env.GEMINI_API_KEY}`,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				contents: [{ parts: [{ text: prompt.text }] }],
+				generationConfig: {
+					responseModalities: ['AUDIO'],
+					speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } } },
+				},
+			}),
+		},
+	);
+	if (!response.ok) {
+		throw new SpeechError(await response.text(), response.status);
+	}
+
+	const data = (await response.json()) as any;
+	const audio = data.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+	if (!audio) {
+		throw new SpeechError('No audio generated');
+	}
+	return { pcm: decodeBase64(audio), usage: data.usageMetadata || {}, promptVersion: prompt.id };
+}
+
+// A sentence from the cache, as PCM; null when it was never generated or its file is unusable
+async function getCachedSegmentPcm(env: Env, textHash: string, options: SpeechOptions): Promise<Uint8Array | null> {
+	const promptVersion = getTtsPromptVersion(options.userId);
+	const log = await findTtsLogByHash(
+		env.words_db,
+		textHash,
+		options.voiceName,
+		options.modelName,
+		promptVersion,
+		options.languageCode,
+		'wav',
+	);
+	if (!log?.url?.startsWith('r2://')) return null;
+	const object = await env.TTS_BUCKET.get(log.url.substring(5));
+	return object ? (readWavPcm(new Uint8Array(await object.arrayBuffer()))?.pcm ?? null) : null;
+}
+
+// A sentence from the cache, or generated and then cached in the background; generation cost is added to `usage`
+async function synthesizeSentence(env: Env, ctx: ExecutionContext, sentence: string, options: SpeechOptions, usage: LongSpeech['usage']) {
+	const textHash = await calculateHash(sentence);
+	const cached = await getCachedSegmentPcm(env, textHash, options);
+	if (cached) {
+		return { pcm: cached, cached: true };
+	}
+
+	const speech = await generateSpeech(env, sentence, options);
+	const cost = calculateCost(options.modelName, speech.usage, PRICING_PER_1M);
+	usage.inputTokens += cost.input.total;
+	usage.outputTokens += cost.output.total;
+	usage.costMicros += cost.cost;
+	usage.generated++;
+	usage.promptVersion = speech.promptVersion;
+
+	const key = `tts/${options.userId}/${crypto.randomUUID()}.wav`;
+	ctx.waitUntil(
+		env.TTS_BUCKET.put(key, encodePcm(speech.pcm, 'wav', TTS_SAMPLE_RATE), { httpMetadata: { contentType: 'audio/wav' } })
+			.then(() =>
+				logTts(env.words_db, {
+					userId: options.userId,
+					inputTokens: cost.input.total,
+					outputTokens: cost.output.total,
+					text: sentence,
+					costMicros: cost.cost,
+					textHash,
+					voiceName: options.voiceName,
+					modelName: options.modelName,
+					promptVersion: speech.promptVersion,
+					languageCode: options.languageCode,
+					url: `r2://${key}`,
+					format: 'wav',
+				}),
+			)
+			.catch((e) => console.error('[TTS] Failed to cache sentence:', e)),
+	);
+	return { pcm: speech.pcm, cached: false };
+}
+
+// Speaks `text` sentence by sentence and stitches the PCM. Sentences are looked up in and added to the tts_logs
+// cache as WAV on their own, so paragraphs sharing sentences only pay for the new ones.
+export async function synthesizeLongText(env: Env, ctx: ExecutionContext, text: string, options: SpeechOptions): Promise<LongSpeech> {
+	const sentences = splitSentences(text, LONG_TTS_LIMITS.maxSegmentLength, options.languageCode);
+	const usage: LongSpeech['usage'] = { inputTokens: 0, outputTokens: 0, costMicros: 0, generated: 0, promptVersion: null };
+
+	let failure: SpeechError | null = null;
+
+	const pieces = await mapWithConcurrency(sentences, LONG_TTS_LIMITS.concurrency, async (sentence, index) => {
+		// Sentences not started yet are skipped once one has failed
+		if (failure) return null;
+		try {
+			return await synthesizeSentence(env, ctx, sentence, options, usage);
+		} catch (e: any) {
+			failure ??= e instanceof SpeechError ? e : new SpeechError(e.message);
+			failure.segment ??= index;
+			return null;
+		}
+	});
+
+	if (failure) {
+		(failure as SpeechError).usage = usage;
+		throw failure;
+	}
+
+	const pcm = new Uint8Array(pieces.reduce((length, piece) => length + piece!.pcm.length, 0));
+	const segments: SpeechSegmentTiming[] = [];
+	let offset = 0;
+	pieces.forEach((piece, index) => {
+		pcm.set(piece!.pcm, offset);
+		segments.push({
+			index,
+			text: sentences[index],
+			start_ms: Math.round(offset / BYTES_PER_MS),
+			end_ms: Math.round((offset + piece!.pcm.length) / BYTES_PER_MS),
+			cached: piece!.cached,
+		});
+		offset += piece!.pcm.length;
+	});
+
+	return { pcm, segments, usage };
+}
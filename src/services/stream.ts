@@ -0,0 +1,387 @@
+import { errorBody } from '../utils/errors';
+
+// Shared SSE pipeline for every streaming endpoint.
+// Upstream events (Gemini or OpenAI-compatible) are normalized to our Gemini-shaped
+// `candidates[].content.parts[].text` frames, followed by a typed `event: done` frame.
+
+export type StreamDialect = 'gemini' | 'openai';
+
+// Gemini-shaped usage so it can be fed straight into calculateCost
+export interface NormalizedUsage {
+	promptTokenCount: number;
+	candidatesTokenCount: number;
+	totalTokenCount: number;
+	thoughtsTokenCount?: number;
+	promptTokensDetails?: { modality: string; tokenCount: number }[];
+	candidatesTokensDetails?: { modality: string; tokenCount: number }[];
+	// Upstream-reported cost in micros (OpenRouter returns it natively)
+	nativeCostMicros?: number;
+}
+
+export interface DoneFrame {
+	request_id: string;
+	model: string | null;
+	provider: string | null;
+	cached: boolean;
+	usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+	cost_micros: number;
+}
+
+export interface StreamHooks {
+	// Logging hook: receives the final usage, returns the cost in micros reported in the done frame
+	onUsage?: (usage: NormalizedUsage, requestId: string) => Promise<number> | number;
+	// Cache hook: receives the accumulated text once the upstream stream finished cleanly
+	onComplete?: (fullText: string, requestId: string) => Promise<void>;
+}
+
+// Holds back responses that must be checked before the client sees them (e.g. JSON word cards)
+export interface StreamValidator {
+	// Decides from the text received so far; undefined means "not enough text yet"
+	mode: (prefix: string) => 'buffer' | 'stream' | undefined;
+	// Receives the full buffered text, returns the text to send or throws to fail the response. Usage of any upstream
+	// call it made on the way (a retry) comes back with the text, or as `usage` on the thrown error, and is billed with the stream.
+	finalize: (fullText: string) => Promise<{ text: string; usage?: NormalizedUsage | null }>;
+}
+
+export interface SseStreamOptions {
+	dialect: StreamDialect;
+	ctx: ExecutionContext;
+	model: string;
+	provider: string;
+	requestId?: string;
+	hooks?: StreamHooks;
+	validator?: StreamValidator;
+}
+
+export const SSE_HEADERS = {
+	'Content-Type': 'text/event-stream',
+	'Cache-Control': 'no-cache',
+	Connection: 'keep-alive',
+};
+
+// Adds up the usage of two upstream calls billed as one response. Native costs only add up when both report one,
+// otherwise the sum is priced from the tokens.
+export function mergeUsage(a: NormalizedUsage | null, b: NormalizedUsage | null): NormalizedUsage | null {
+	if (!a || !b) return a || b;
+	return {
+		promptTokenCount: a.promptTokenCount + b.promptTokenCount,
+		candidatesTokenCount: a.candidatesTokenCount + b.candidatesTokenCount,
+		totalTokenCount: a.totalTokenCount + b.totalTokenCount,
+		thoughtsTokenCount: (a.thoughtsTokenCount || 0) + (b.thoughtsTokenCount || 0),
+		nativeCostMicros:
+			a.nativeCostMicros !== undefined && b.nativeCostMicros !== undefined ? a.nativeCostMicros + b.nativeCostMicros : undefined,
+	};
+}
+
+export function createRequestId(): string {
+	return crypto.randomUUID().replace(/-/g, '');
+}
+
+export function normalizeUsage(dialect: StreamDialect, raw: any): NormalizedUsage | null {
+	if (!raw) return null;
+
+	if (dialect === 'openai') {
+		const usage: NormalizedUsage = {
+			promptTokenCount: raw.prompt_tokens || 0,
+			candidatesTokenCount: raw.completion_tokens || 0,
+			totalTokenCount: raw.total_tokens || 0,
+		};
+		// cost is in USD (e.g. 0.0005), micros = USD * 1_000_000
+		if (typeof raw.cost === 'number') {
+			usage.nativeCostMicros = Math.round(raw.cost * 1_000_000);
+		}
+		return usage;
+	}
+
+	return {
+		...raw,
+		promptTokenCount: raw.promptTokenCount || 0,
+		candidatesTokenCount: raw.candidatesTokenCount || 0,
+		totalTokenCount: raw.totalTokenCount || 0,
+	};
+}
+
+// Parses a single `data:` payload into the text delta and usage it carries, if any
+export function parseSseData(dialect: StreamDialect, data: string): { text: string | null; usage: NormalizedUsage | null } | null {
+	if (data === '[DONE]') return null;
+
+	let parsed: any;
+	try {
+		parsed = JSON.parse(data);
+	} catch (e) {
+		return null;
+	}
+
+	if (dialect === 'openai') {
+		const choice = parsed.choices?.[0];
+		return {
+			text: choice?.delta?.content ?? choice?.message?.content ?? null,
+			usage: normalizeUsage('openai', parsed.usage),
+		};
+	}
+
+	return {
+		text: parsed.candidates?.[0]?.content?.parts?.[0]?.text ?? null,
+		usage: normalizeUsage('gemini', parsed.usageMetadata),
+	};
+}
+
+// Calls `onData` with the payload of every `data:` line of an upstream SSE body, in order
+export async function readSseData(body: ReadableStream<Uint8Array> | null, onData: (data: string) => Promise<void> | void) {
+	const reader = body?.getReader();
+	if (!reader) return;
+
+	const decoder = new TextDecoder();
+	const handleLine = async (line: string) => {
+		if (line.startsWith('data:')) {
+			await onData(line.slice(5).trimStart());
+		}
+	};
+
+	let buffer = '';
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split('\n');
+		// The last line might be incomplete, keep it in buffer
+		buffer = lines.pop() || '';
+
+		for (const line of lines) {
+			await handleLine(line.trimEnd());
+		}
+	}
+
+	// Process any remaining buffer (though usually SSE ends with newline)
+	await handleLine(buffer.trimEnd());
+}
+
+export function formatTextFrame(text: string): string {
+	const geminiFormat = {
+		candidates: [
+			{
+				content: { parts: [{ text }] },
+			},
+		],
+	};
+	return `data: ${JSON.stringify(geminiFormat)}\n\n`;
+}
+
+export function formatDoneFrame(done: DoneFrame): string {
+	return `event: done\ndata: ${JSON.stringify(done)}\n\n`;
+}
+
+export function toDoneUsage(usage: NormalizedUsage | null): DoneFrame['usage'] {
+	if (!usage) return null;
+	return {
+		input_tokens: usage.promptTokenCount,
+		output_tokens: usage.candidatesTokenCount,
+		total_tokens: usage.totalTokenCount || usage.promptTokenCount + usage.candidatesTokenCount,
+	};
+}
+
+// Wraps an upstream SSE response into our normalized client stream
+export function createSseStream(upstream: Response, options: SseStreamOptions): Response {
+	const { dialect, ctx, model, provider, hooks = {}, validator } = options;
+	const requestId = options.requestId || createRequestId();
+
+	const { readable, writable } = new TransformStream();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+
+	const processPromise = (async () => {
+		let usage: NormalizedUsage | null = null;
+		let fullText = '';
+		let failed = false;
+		let errorMessage = 'Upstream stream interrupted';
+		let mode: 'buffer' | 'stream' | undefined = validator ? undefined : 'stream';
+
+		const handleData = async (data: string) => {
+			const event = parseSseData(dialect, data);
+			if (!event) return;
+
+			if (event.usage) {
+				usage = event.usage;
+			}
+			if (event.text) {
+				fullText += event.text;
+				if (mode === 'stream') {
+					await writer.write(encoder.encode(formatTextFrame(event.text)));
+				} else if (mode === undefined) {
+					mode = validator!.mode(fullText.trimStart());
+					// Flush what was held back while undecided
+					if (mode === 'stream') {
+						await writer.write(encoder.encode(formatTextFrame(fullText)));
+					}
+				}
+			}
+		};
+
+		try {
+			await readSseData(upstream.body, handleData);
+		} catch (err) {
+			failed = true;
+			console.error('Stream processing error:', err);
+		}
+
+		// Undecided at the end counts as buffered: short responses are validated too
+		if (!failed && validator && mode !== 'stream') {
+			try {
+				const finalized = await validator.finalize(fullText);
+				fullText = finalized.text;
+				usage = mergeUsage(usage, finalized.usage ?? null);
+				if (fullText) {
+					await writer.write(encoder.encode(formatTextFrame(fullText)));
+				}
+			} catch (err: any) {
+				failed = true;
+				errorMessage = err.message || 'Response validation failed';
+				usage = mergeUsage(usage, err.usage ?? null);
+				console.error('Stream validation error:', err);
+			}
+		}
+
+		try {
+			let costMicros = 0;
+			if (usage && hooks.onUsage) {
+				costMicros = await hooks.onUsage(usage, requestId);
+			} else if (!usage) {
+				console.log(`[Stream ${provider}] No usage metadata received`);
+			}
+
+			if (failed) {
+				await writer.write(encoder.encode(`event: error\ndata: ${JSON.stringify({ request_id: requestId, message: errorMessage })}\n\n`));
+			} else {
+				await writer.write(
+					encoder.encode(
+						formatDoneFrame({
+							request_id: requestId,
+							model,
+							provider,
+							cached: false,
+							usage: toDoneUsage(usage),
+							cost_micros: costMicros,
+						}),
+					),
+				);
+			}
+		} catch (err) {
+			console.error('Stream finalization error:', err);
+		} finally {
+			await writer.close().catch(() => {});
+		}
+
+		if (!failed && hooks.onComplete) {
+			await hooks.onComplete(fullText, requestId).catch((e) => console.error('Stream onComplete error', e));
+		}
+	})();
+
+	ctx.waitUntil(processPromise);
+
+	return new Response(readable, {
+		headers: { ...SSE_HEADERS, 'X-Request-Id': requestId },
+	});
+}
+
+// Single-frame SSE response for results that are already complete (cache hits, non-streaming upstreams)
+export function createStaticSseResponse(text: string, meta: Partial<Omit<DoneFrame, 'request_id'>> = {}): Response {
+	const requestId = createRequestId();
+	const done: DoneFrame = {
+		request_id: requestId,
+		model: meta.model ?? null,
+		provider: meta.provider ?? null,
+		cached: meta.cached ?? false,
+		usage: meta.usage ?? null,
+		cost_micros: meta.cost_micros ?? 0,
+	};
+
+	return new Response(formatTextFrame(text) + formatDoneFrame(done), {
+		headers: { ...SSE_HEADERS, 'X-Request-Id': requestId },
+	});
+}
+
+// Content negotiation for clients that cannot consume SSE (`Accept: application/json` or `?stream=false`)
+export function wantsJsonResponse(request: Pick<Request, 'url' | 'headers'>): boolean {
+	if (new URL(request.url).searchParams.get('stream') === 'false') return true;
+	const accept = request.headers.get('Accept') || '';
+	return accept.includes('application/json') && !accept.includes('text/event-stream');
+}
+
+export interface JsonTranslationResponse {
+	request_id: string;
+	result: string;
+	model: string | null;
+	provider: string | null;
+	cached: boolean;
+	usage: DoneFrame['usage'];
+	cost_micros: number;
+}
+
+// Drains one of our normalized SSE responses into a single JSON document.
+// Non-SSE responses (validation errors, auth failures) are passed through untouched.
+export async function collectSseResponse(response: Response, request?: Pick<Request, 'headers'>): Promise<Response> {
+	if (!response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+		return response;
+	}
+
+	const requestId = response.headers.get('X-Request-Id') || '';
+	let result = '';
+	let done: DoneFrame | null = null;
+	let error: string | null = null;
+
+	for (const frame of (await response.text()).split('\n\n')) {
+		const lines = frame.split('\n');
+		const event =
+			lines
+				.find((l) => l.startsWith('event:'))
+				?.slice(6)
+				.trim() || 'message';
+		const data = lines
+			.find((l) => l.startsWith('data:'))
+			?.slice(5)
+			.trimStart();
+		if (!data) continue;
+
+		try {
+			const parsed = JSON.parse(data);
+			if (event === 'done') {
+				done = parsed;
+			} else if (event === 'error') {
+				error = parsed.message || 'Stream failed';
+			} else {
+				result += parsed.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+			}
+		} catch (e) {
+			console.error('[Stream] Failed to parse SSE frame while collecting JSON response:', data);
+		}
+	}
+
+	const headers = { 'Content-Type': 'application/json', 'X-Request-Id': requestId };
+
+	if (error || !done) {
+		const reason = error || 'Stream ended without a result';
+		return new Response(JSON.stringify({ request_id: requestId, ...errorBody(request, 'UPSTREAM_UNAVAILABLE', { details: { reason } }) }), {
+			status: 502,
+			headers,
+		});
+	}
+
+	const body: JsonTranslationResponse = {
+		request_id: done.request_id,
+		result,
+		model: done.model,
+		provider: done.provider,
+		cached: done.cached,
+		usage: done.usage,
+		cost_micros: done.cost_micros,
+	};
+	return new Response(JSON.stringify(body), { headers });
+}
+
+export async function negotiateResponse(
+	request: Pick<Request, 'url' | 'headers'>,
+	response: Response | Promise<Response>,
+): Promise<Response> {
+	return wantsJsonResponse(request) ? collectSseResponse(await response, request) : response;
+}
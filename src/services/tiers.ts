@@ -0,0 +1,84 @@
+import { Quota, ResourceType } from '../config/limits';
+import { TierConfig, getSeedTierConfigs, listTierConfigs, seedTierConfigs } from '../models/tier_config';
+import { UserEntitlement, getUserEntitlements } from '../models/subscription';
+import { getActiveQuotaOverride, toQuota } from '../models/quota_override';
+
+// Tier configuration is read on every authenticated request, so it is cached per isolate. Admin
+// edits clear the cache of the isolate that made them; other isolates pick them up within the TTL.
+const CACHE_TTL_MS = 60_000;
+
+let cache: { configs: Map<string, TierConfig>; expiresAt: number } | undefined;
+
+export function clearTierConfigCache(): void {
+	cache = undefined;
+}
+
+export async function getTierConfigs(env: Env): Promise<Map<string, TierConfig>> {
+	if (cache && cache.expiresAt > Date.now()) {
+		return cache.configs;
+	}
+
+	let configs: TierConfig[];
+	try {
+		configs = await listTierConfigs(env.users_db);
+		if (configs.length === 0) {
+			configs = await seedTierConfigs(env.users_db);
+		}
+	} catch (e) {
+		// Keep serving with the built-in limits rather than failing every request
+		console.error('[Tiers] Failed to load tier configs, using built-in defaults:', e);
+		return new Map(getSeedTierConfigs().map((config) => [config.tier, config]));
+	}
+
+	cache = { configs: new Map(configs.map((config) => [config.tier, config])), expiresAt: Date.now() + CACHE_TTL_MS };
+	return cache.configs;
+}
+
+// Unknown tiers (e.g. one deleted while a session was running) get FREE's configuration
+export async function getTierConfig(env: Env, tier: string): Promise<TierConfig> {
+	const configs = await getTierConfigs(env);
+	return configs.get(tier) ?? configs.get('FREE') ?? getSeedTierConfigs().find((config) => config.tier === 'FREE')!;
+}
+
+export async function getTierLimits(env: Env, tier: string, resourceType: ResourceType): Promise<Quota> {
+	return (await getTierConfig(env, tier)).limits[resourceType];
+}
+
+// The tier's limits unless support has set an unexpired override for the user
+export async function getUserLimits(env: Env, userId: string, tier: string, resourceType: ResourceType): Promise<Quota> {
+	const override = await getActiveQuotaOverride(env.users_db, userId, resourceType);
+	return override ? toQuota(override) : getTierLimits(env, tier, resourceType);
+}
+
+export interface Membership {
+	tier: string;
+	activeEntitlements: UserEntitlement[];
+	// Active entitlement that granted the tier, if any
+	entitlement: UserEntitlement | null;
+	isTrialCancelled: boolean;
+}
+
+export async function getMembership(env: Env, userId: string): Promise<Membership> {
+	const entitlements = await getUserEntitlements(env.users_db, userId);
+	const activeEntitlements = entitlements.filter((e) => e.status === 'active' && (e.expiresAt === null || e.expiresAt > Date.now()));
+
+	let tier = 'FREE';
+	let entitlement: UserEntitlement | null = null;
+	let priority = -Infinity;
+	for (const config of (await getTierConfigs(env)).values()) {
+		const granted = activeEntitlements.find((e) => config.entitlementIds.includes(e.entitlementId));
+		if (granted && config.priority > priority) {
+			tier = config.tier;
+			entitlement = granted;
+			priority = config.priority;
+		}
+	}
+
+	// A cancelled trial (isTrial=1 AND autoRenew=0) overrides whatever the entitlement grants
+	const isTrialCancelled = activeEntitlements.some((e) => e.isTrial === 1 && e.autoRenew === 0);
+	if (isTrialCancelled) {
+		tier = 'TRIAL_CANCELLED';
+	}
+
+	return { tier, activeEntitlements, entitlement, isTrialCancelled };
+}
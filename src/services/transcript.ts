@@ -0,0 +1,100 @@
+import { TranslationDirection, detectTranslationDirection } from '../utils/languages';
+
+// Live transcripts: Gemini streams inputTranscription (what was said) and outputTranscription
+// (the interpretation) in fragments; a turn is closed by serverContent.turnComplete.
+
+export type TranscriptRole = 'input' | 'output';
+
+export interface TranscriptTurn {
+	seq: number;
+	role: TranscriptRole;
+	direction: TranslationDirection | null;
+	text: string;
+	// Offsets from the session start
+	startMs: number;
+	endMs: number;
+}
+
+export type TranscriptFormat = 'json' | 'text' | 'srt';
+
+export class TranscriptCollector {
+	private seq = 0;
+	private pending: Partial<Record<TranscriptRole, { text: string; startMs: number; endMs: number }>> = {};
+
+	constructor(
+		private startedAt: number,
+		private sourceLang: string | null,
+		private targetLang: string | null,
+	) {}
+
+	add(role: TranscriptRole, fragment: string, now: number = Date.now()): void {
+		const offset = now - this.startedAt;
+		const current = this.pending[role];
+		if (current) {
+			current.text += fragment;
+			current.endMs = offset;
+		} else {
+			this.pending[role] = { text: fragment, startMs: offset, endMs: offset };
+		}
+	}
+
+	// Closes the current turn and returns its rows (input first); empty when nothing was transcribed
+	completeTurn(): TranscriptTurn[] {
+		const { input, output } = this.pending;
+		this.pending = {};
+		if (!input?.text.trim() && !output?.text.trim()) return [];
+
+		const seq = this.seq++;
+		const direction =
+			input && this.sourceLang && this.targetLang ? detectTranslationDirection(input.text, this.sourceLang, this.targetLang) : null;
+
+		const turns: TranscriptTurn[] = [];
+		for (const [role, part] of [
+			['input', input],
+			['output', output],
+		] as const) {
+			if (part?.text.trim()) {
+				turns.push({ seq, role, direction, text: part.text.trim(), startMs: part.startMs, endMs: part.endMs });
+			}
+		}
+		return turns;
+	}
+}
+
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+	input: 'Speaker',
+	output: 'Interpreter',
+};
+
+function formatTimestamp(ms: number, separator: string): string {
+	const hours = Math.floor(ms / 3_600_000);
+	const minutes = Math.floor((ms % 3_600_000) / 60_000);
+	const seconds = Math.floor((ms % 60_000) / 1000);
+	const millis = ms % 1000;
+	const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+	return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+// Stored rows carry the role as a plain string
+type TranscriptLine = Pick<TranscriptTurn, 'text' | 'startMs' | 'endMs'> & { role: string };
+
+export function formatTranscriptText(turns: TranscriptLine[]): string {
+	return turns
+		.map(
+			(turn) =>
+				`[${formatTimestamp(turn.startMs, '.').slice(0, 8)}] ${ROLE_LABELS[turn.role as TranscriptRole] || turn.role}: ${turn.text}`,
+		)
+		.join('\n');
+}
+
+// Transcription fragments can arrive all at once, so every cue is shown for at least a second
+const MIN_CUE_MS = 1000;
+
+export function formatTranscriptSrt(turns: TranscriptLine[]): string {
+	return turns
+		.map((turn, i) => {
+			const end = Math.max(turn.endMs, turn.startMs + MIN_CUE_MS);
+			return `${i + 1}\n${formatTimestamp(turn.startMs, ',')} --> ${formatTimestamp(end, ',')}\n${turn.text}\n`;
+		})
+		.join('\n');
+}
@@ -0,0 +1,68 @@
+import { findTtsLogByHash, listCompletedTtsLogs, logTts } from '../models/tts';
+import { AUDIO_FORMATS, AudioFormat, DEFAULT_AUDIO_FORMAT, encodePcm, readWavPcm } from '../utils/audio_formats';
+
+export interface TranscodeBatchResult {
+	transcoded: number;
+	skipped: number;
+	failed: number;
+	// Id of the last log looked at; null once every WAV log has been handled
+	nextCursor: string | null;
+}
+
+// Backfill for audio generated before formats existed: each WAV in the batch is re-encoded next to the original and
+// logged as a zero-cost cache entry in `format`, so later requests for that format are cache hits.
+// The WAV and its log are kept since older links still point at them.
+export async function transcodeTtsBatch(env: Env, format: AudioFormat, cursor: string | undefined, limit: number) {
+	const logs = await listCompletedTtsLogs(env.words_db, DEFAULT_AUDIO_FORMAT, cursor, limit);
+	const result: TranscodeBatchResult = { transcoded: 0, skipped: 0, failed: 0, nextCursor: null };
+
+	for (const log of logs) {
+		const languageCode = log.languageCode ?? undefined;
+		const existing = await findTtsLogByHash(
+			env.words_db,
+			log.textHash,
+			log.voiceName,
+			log.modelName,
+			log.promptVersion,
+			languageCode,
+			format,
+		);
+		if (existing || !log.url?.startsWith('r2://')) {
+			result.skipped++;
+			continue;
+		}
+
+		const key = log.url.substring(5);
+		const object = await env.TTS_BUCKET.get(key);
+		const wav = object ? readWavPcm(new Uint8Array(await object.arrayBuffer())) : null;
+		if (!wav) {
+			console.error(`[TTS] Cannot transcode ${log.id}: ${key} is missing or not a 16-bit mono WAV`);
+			result.failed++;
+			continue;
+		}
+
+		const { extension, contentType } = AUDIO_FORMATS[format];
+		const targetKey = `${key.replace(/\.wav$/, '')}.${extension}`;
+		await env.TTS_BUCKET.put(targetKey, encodePcm(wav.pcm, format, wav.sampleRate), { httpMetadata: { contentType } });
+		await logTts(env.words_db, {
+			userId: log.userId,
+			inputTokens: 0,
+			outputTokens: 0,
+			text: log.text,
+			costMicros: 0,
+			textHash: log.textHash,
+			voiceName: log.voiceName,
+			modelName: log.modelName,
+			promptVersion: log.promptVersion,
+			languageCode,
+			url: `r2://${targetKey}`,
+			format,
+			// Same samples, so the same timings
+			alignmentUrl: log.alignmentUrl ?? undefined,
+		});
+		result.transcoded++;
+	}
+
+	result.nextCursor = logs.length === limit ? logs[logs.length - 1].id : null;
+	return result;
+}
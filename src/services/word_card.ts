@@ -0,0 +1,131 @@
+// Word card schema shared by /translation/word and the JSON mode of /translation/smart_text.
+// Model output is repaired where the intent is unambiguous and rejected otherwise, so the client
+// only ever receives a card it can decode.
+
+import { NormalizedUsage } from './stream';
+
+export interface WordCardExample {
+	original: string;
+	translation: string;
+	kana?: string | null;
+}
+
+export interface WordCard {
+	type: 'word';
+	origin: string;
+	translation: string;
+	kana: string | null;
+	examples: WordCardExample[];
+	memory_tip: string;
+	explanation: string;
+	english_word: string;
+	// smart_text prompts ask for `original` instead of `origin`; both are kept for existing clients
+	original?: string;
+}
+
+export type WordCardResult = { card: WordCard; error: null } | { card: null; error: string };
+
+export class WordCardError extends Error {
+	// What the retry that also failed cost, billed with the stream
+	usage?: NormalizedUsage | null;
+
+	constructor(message: string) {
+		super(message);
+		this.name = 'WordCardError';
+	}
+}
+
+function stripCodeFences(text: string): string {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+	return fenced ? fenced[1] : text.replace(/^```(?:json)?/i, '');
+}
+
+// Removes commas directly before a closing bracket, ignoring anything inside strings
+function removeTrailingCommas(json: string): string {
+	let result = '';
+	let inString = false;
+	for (let i = 0; i < json.length; i++) {
+		const char = json[i];
+		if (inString) {
+			result += char;
+			if (char === '\\') {
+				result += json[++i] ?? '';
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+		if (char === '"') {
+			inString = true;
+		} else if (char === ',') {
+			const rest = json.slice(i + 1).trimStart();
+			if (rest.startsWith('}') || rest.startsWith(']')) continue;
+		}
+		result += char;
+	}
+	return result;
+}
+
+function asString(value: unknown): string {
+	return typeof value === 'string' ? value : '';
+}
+
+// Fills optional fields and checks the ones the client cannot do without
+export function validateWordCard(value: unknown): WordCardResult {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return { card: null, error: 'Expected a JSON object' };
+	}
+	const raw = value as Record<string, any>;
+
+	if (raw.type !== undefined && raw.type !== 'word') {
+		return { card: null, error: `Expected "type" to be "word", got ${JSON.stringify(raw.type)}` };
+	}
+	if (!asString(raw.translation).trim()) {
+		return { card: null, error: 'Missing required field "translation"' };
+	}
+	if (raw.examples !== undefined && !Array.isArray(raw.examples)) {
+		return { card: null, error: '"examples" must be an array' };
+	}
+
+	// Drop examples the client cannot render rather than failing the whole card
+	const examples: WordCardExample[] = (raw.examples || [])
+		.filter((e: any) => e && typeof e === 'object' && asString(e.original) && asString(e.translation))
+		.map((e: any) => ({ original: e.original, translation: e.translation, kana: typeof e.kana === 'string' ? e.kana : null }));
+
+	const card: WordCard = {
+		type: 'word',
+		origin: asString(raw.origin) || asString(raw.original),
+		translation: raw.translation,
+		kana: typeof raw.kana === 'string' ? raw.kana : null,
+		examples,
+		memory_tip: asString(raw.memory_tip),
+		explanation: asString(raw.explanation),
+		english_word: asString(raw.english_word),
+	};
+	if (typeof raw.original === 'string') {
+		card.original = raw.original;
+	}
+
+	return { card, error: null };
+}
+
+export function parseWordCard(text: string): WordCardResult {
+	let json = stripCodeFences(text.trim());
+
+	// Ignore any chatter around the object
+	const start = json.indexOf('{');
+	const end = json.lastIndexOf('}');
+	if (start === -1 || end <= start) {
+		return { card: null, error: 'No JSON object found in the response' };
+	}
+	json = removeTrailingCommas(json.slice(start, end + 1));
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch (e: any) {
+		return { card: null, error: `Invalid JSON: ${e.message}` };
+	}
+
+	return validateWordCard(parsed);
+}
@@ -0,0 +1,56 @@
+// Live sessions stream 16-bit mono PCM as base64: the client sends 16kHz in realtimeInput and Gemini
+// answers with 24kHz inlineData. Durations are derived from the byte counts.
+
+const DEFAULT_INPUT_RATE = 16000;
+const DEFAULT_OUTPUT_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+export function getPcmSampleRate(mimeType: string | undefined, fallback: number): number {
+	const match = mimeType?.match(/rate=(\d+)/);
+	return match ? parseInt(match[1], 10) : fallback;
+}
+
+// Decoded size without decoding
+export function getBase64ByteLength(data: string): number {
+	const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+	return Math.max(0, Math.floor((data.length * 3) / 4) - padding);
+}
+
+export function decodeBase64(data: string): Uint8Array {
+	const binaryString = atob(data);
+	const bytes = new Uint8Array(binaryString.length);
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i);
+	}
+	return bytes;
+}
+
+export function getPcmSeconds(base64: string, sampleRate: number): number {
+	return getBase64ByteLength(base64) / (sampleRate * BYTES_PER_SAMPLE);
+}
+
+// Audio in a client realtimeInput message: `audio` (a blob or bare base64) or the older `mediaChunks`
+export function getRealtimeInputAudioSeconds(realtimeInput: any): number {
+	const blobs = [realtimeInput?.audio, ...(Array.isArray(realtimeInput?.mediaChunks) ? realtimeInput.mediaChunks : [])];
+	let seconds = 0;
+	for (const blob of blobs) {
+		if (typeof blob === 'string') {
+			seconds += getPcmSeconds(blob, DEFAULT_INPUT_RATE);
+		} else if (typeof blob?.data === 'string' && (!blob.mimeType || blob.mimeType.startsWith('audio/'))) {
+			seconds += getPcmSeconds(blob.data, getPcmSampleRate(blob.mimeType, DEFAULT_INPUT_RATE));
+		}
+	}
+	return seconds;
+}
+
+// Audio in a Gemini serverContent message (modelTurn inlineData parts)
+export function getServerContentAudioSeconds(serverContent: any): number {
+	let seconds = 0;
+	for (const part of serverContent?.modelTurn?.parts ?? []) {
+		const blob = part?.inlineData;
+		if (typeof blob?.data === 'string' && blob.mimeType?.startsWith('audio/')) {
+			seconds += getPcmSeconds(blob.data, getPcmSampleRate(blob.mimeType, DEFAULT_OUTPUT_RATE));
+		}
+	}
+	return seconds;
+}
@@ -0,0 +1,106 @@
+import { encodeFlac } from './flac';
+import { encodeOggOpus } from './opus';
+
+// Containers TTS audio can be stored and served in. Gemini returns raw 24kHz 16-bit mono PCM, which we wrap or encode.
+// FLAC is lossless; Ogg/Opus is lossy but about a twelfth of the WAV size.
+
+export type AudioFormat = 'wav' | 'flac' | 'opus';
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = 'wav';
+
+export const AUDIO_FORMATS: Record<AudioFormat, { extension: string; contentType: string }> = {
+	wav: { extension: 'wav', contentType: 'audio/wav' },
+	flac: { extension: 'flac', contentType: 'audio/flac' },
+	opus: { extension: 'opus', contentType: 'audio/ogg' },
+};
+
+export const AUDIO_FORMAT_NAMES = Object.keys(AUDIO_FORMATS) as AudioFormat[];
+
+export function isAudioFormat(value: unknown): value is AudioFormat {
+	return typeof value === 'string' && value in AUDIO_FORMATS;
+}
+
+export function createWavHeader(dataLength: number, sampleRate: number, numChannels: number, bitsPerSample: number): Uint8Array {
+	const blockAlign = (numChannels * bitsPerSample) / 8;
+	const byteRate = sampleRate * blockAlign;
+	const buffer = new ArrayBuffer(44);
+	const view = new DataView(buffer);
+
+	// RIFF string
+	writeString(view, 0, 'RIFF');
+	// File size (data + 36)
+	view.setUint32(4, 36 + dataLength, true);
+	// WAVE string
+	writeString(view, 8, 'WAVE');
+	// fmt string
+	writeString(view, 12, 'fmt ');
+	// Subchunk1Size
+	view.setUint32(16, 16, true);
+	// AudioFormat (1 = PCM)
+	view.setUint16(20, 1, true);
+	// NumChannels
+	view.setUint16(22, numChannels, true);
+	// SampleRate
+	view.setUint32(24, sampleRate, true);
+	// ByteRate
+	view.setUint32(28, byteRate, true);
+	// BlockAlign
+	view.setUint16(32, blockAlign, true);
+	// BitsPerSample
+	view.setUint16(34, bitsPerSample, true);
+	// data string
+	writeString(view, 36, 'data');
+	// Subchunk2Size
+	view.setUint32(40, dataLength, true);
+
+	return new Uint8Array(buffer);
+}
+
+// Sizes are unknown while audio is still being generated, so both are set to the maximum, which players read as
+// "until the end of the stream"
+export function createStreamingWavHeader(sampleRate: number): Uint8Array {
+	return createWavHeader(0xffffffff - 36, sampleRate, 1, 16);
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+	for (let i = 0; i < string.length; i++) {
+		view.setUint8(offset + i, string.charCodeAt(i));
+	}
+}
+
+// The PCM samples of a 16-bit mono WAV file, or null if it is anything else
+export function readWavPcm(wav: Uint8Array): { pcm: Uint8Array; sampleRate: number } | null {
+	const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+	const tag = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+	if (wav.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+	let sampleRate = 0;
+	for (let offset = 12; offset + 8 <= wav.byteLength;) {
+		const size = view.getUint32(offset + 4, true);
+		if (tag(offset) === 'fmt ') {
+			const isPcm = view.getUint16(offset + 8, true) === 1;
+			if (!isPcm || view.getUint16(offset + 10, true) !== 1 || view.getUint16(offset + 22, true) !== 16) return null;
+			sampleRate = view.getUint32(offset + 12, true);
+		} else if (tag(offset) === 'data') {
+			if (!sampleRate) return null;
+			return { pcm: wav.subarray(offset + 8, Math.min(offset + 8 + size, wav.byteLength)), sampleRate };
+		}
+		// Chunks are padded to an even size
+		offset += 8 + size + (size % 2);
+	}
+	return null;
+}
+
+export function encodePcm(pcm: Uint8Array, format: AudioFormat, sampleRate: number): Uint8Array {
+	if (format === 'flac') {
+		return encodeFlac(pcm, sampleRate);
+	}
+	if (format === 'opus') {
+		return encodeOggOpus(pcm, sampleRate);
+	}
+	const wavHeader = createWavHeader(pcm.length, sampleRate, 1, 16);
+	const wavFile = new Uint8Array(wavHeader.length + pcm.length);
+	wavFile.set(wavHeader);
+	wavFile.set(pcm, wavHeader.length);
+	return wavFile;
+}
@@ -230,3 +230,22 @@ export const calculateCostFromBreakdown = (
 
 	return Math.ceil(inputCost + outputCost);
 };
+
+// Adds two breakdowns, e.g. to keep a running total of a live session without storing every usage event
+export const mergeUsage = (a: CostBreakdown, b: CostBreakdown): CostBreakdown => ({
+	cost: a.cost + b.cost,
+	input: {
+		total: a.input.total + b.input.total,
+		text: a.input.text + b.input.text,
+		image: a.input.image + b.input.image,
+		audio: a.input.audio + b.input.audio,
+		prompt: a.input.prompt + b.input.prompt,
+	},
+	output: {
+		total: a.output.total + b.output.total,
+		image: a.output.image + b.output.image,
+		text: a.output.text + b.output.text,
+		audio: a.output.audio + b.output.audio,
+		thought: a.output.thought + b.output.thought,
+	},
+});
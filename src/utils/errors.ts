@@ -0,0 +1,351 @@
+// Error responses shared by every endpoint: `{ error: { code, message, details } }`. Clients branch on
+// `code`, which never changes once published; `message` is for display and follows Accept-Language.
+
+export type ErrorLocale = 'en' | 'zh-Hans' | 'zh-Hant';
+
+export type ErrorDetails = Record<string, unknown>;
+
+interface ErrorDefinition {
+	status: number;
+	messages: Record<ErrorLocale, (details: ErrorDetails) => string>;
+}
+
+const list = (value: unknown) => (Array.isArray(value) ? value.join(', ') : String(value ?? ''));
+
+// Quota messages end with what would unblock the request, from the `upsell` in their details
+const UPSELL_HINTS: Record<ErrorLocale, (tier: string | undefined, credits: boolean) => string> = {
+	en: (tier, credits) =>
+		tier && credits
+			? `. Upgrade to ${tier} or buy more minutes to continue.`
+			: tier
+				? `. Upgrade to ${tier} to continue.`
+				: credits
+					? '. Buy more minutes to continue.'
+					: '',
+	'zh-Hans': (tier, credits) =>
+		tier && credits
+			? `升级到 ${tier} 或购买时长即可继续使用。`
+			: tier
+				? `升级到 ${tier} 即可继续使用。`
+				: credits
+					? '购买时长即可继续使用。'
+					: '',
+	'zh-Hant': (tier, credits) =>
+		tier && credits
+			? `升級至 ${tier} 或購買時數即可繼續使用。`
+			: tier
+				? `升級至 ${tier} 即可繼續使用。`
+				: credits
+					? '購買時數即可繼續使用。'
+					: '',
+};
+
+function upsellHint(locale: ErrorLocale, details: ErrorDetails): string {
+	const upsell = details.upsell as { tier?: { tier: string } | null; credit_package?: unknown } | undefined;
+	return UPSELL_HINTS[locale](upsell?.tier?.tier, Boolean(upsell?.credit_package));
+}
+
+const ERRORS = {
+	// Request validation
+	INVALID_JSON: {
+		status: 400,
+		messages: {
+			en: () => 'Invalid JSON',
+			'zh-Hans': () => '请求内容不是有效的 JSON',
+			'zh-Hant': () => '請求內容不是有效的 JSON',
+		},
+	},
+	MISSING_FIELDS: {
+		status: 400,
+		messages: {
+			en: (d) => `Missing required field${Array.isArray(d.fields) && d.fields.length > 1 ? 's' : ''}: ${list(d.fields)}`,
+			'zh-Hans': (d) => `缺少必填字段：${list(d.fields)}`,
+			'zh-Hant': (d) => `缺少必填欄位：${list(d.fields)}`,
+		},
+	},
+	INVALID_LANGUAGE: {
+		status: 400,
+		messages: {
+			en: () => 'Invalid language code: must be a valid BCP-47 language tag (e.g. "en-US", "zh-TW")',
+			'zh-Hans': () => '语言代码无效：必须是有效的 BCP-47 语言标签（例如 "en-US"、"zh-TW"）',
+			'zh-Hant': () => '語言代碼無效：必須是有效的 BCP-47 語言標籤（例如 "en-US"、"zh-TW"）',
+		},
+	},
+	INVALID_PARAMETER: {
+		status: 400,
+		messages: {
+			en: (d) => `Invalid ${d.parameter}: ${Array.isArray(d.expected) ? 'must be one of ' : 'expected '}${list(d.expected)}`,
+			'zh-Hans': (d) => `参数 ${d.parameter} 无效：应为 ${list(d.expected)}`,
+			'zh-Hant': (d) => `參數 ${d.parameter} 無效：應為 ${list(d.expected)}`,
+		},
+	},
+	INVALID_CREDENTIAL: {
+		status: 400,
+		messages: {
+			en: () => 'Credential must be a 32-character string',
+			'zh-Hans': () => '凭证必须是 32 个字符的字符串',
+			'zh-Hant': () => '憑證必須是 32 個字元的字串',
+		},
+	},
+	TOO_MANY_ITEMS: {
+		status: 400,
+		messages: {
+			en: (d) => `Too many items: at most ${d.max_items} per batch`,
+			'zh-Hans': (d) => `条目过多：每批最多 ${d.max_items} 条`,
+			'zh-Hant': (d) => `項目過多：每批最多 ${d.max_items} 項`,
+		},
+	},
+	TEXT_TOO_LONG: {
+		status: 400,
+		messages: {
+			en: (d) => `Text too long: at most ${d.max_length} characters`,
+			'zh-Hans': (d) => `文本过长：最多 ${d.max_length} 个字符`,
+			'zh-Hant': (d) => `文字過長：最多 ${d.max_length} 個字元`,
+		},
+	},
+	VOICE_NOT_AVAILABLE: {
+		status: 400,
+		messages: {
+			en: (d) => `Voice ${d.voice} is not available; choose one of ${list(d.voices)}`,
+			'zh-Hans': (d) => `不支持音色 ${d.voice}，可选：${list(d.voices)}`,
+			'zh-Hant': (d) => `不支援音色 ${d.voice}，可選：${list(d.voices)}`,
+		},
+	},
+	IMAGE_TOO_LARGE: {
+		status: 413,
+		messages: {
+			en: (d) => (d.tier ? `Image too large for the ${d.tier} tier.` : 'Image too large. Limit is approx 3MB.'),
+			'zh-Hans': (d) => (d.tier ? `图片超过了 ${d.tier} 会员的大小限制` : '图片过大，上限约为 3MB'),
+			'zh-Hant': (d) => (d.tier ? `圖片超過了 ${d.tier} 會員的大小限制` : '圖片過大，上限約為 3MB'),
+		},
+	},
+	WEBSOCKET_REQUIRED: {
+		status: 426,
+		messages: {
+			en: () => 'Please connect via WebSocket',
+			'zh-Hans': () => '请通过 WebSocket 连接',
+			'zh-Hant': () => '請透過 WebSocket 連線',
+		},
+	},
+
+	// Authentication
+	AUTH_MISSING: {
+		status: 401,
+		messages: {
+			en: () => 'Missing Authorization header',
+			'zh-Hans': () => '缺少 Authorization 请求头',
+			'zh-Hant': () => '缺少 Authorization 標頭',
+		},
+	},
+	TOKEN_INVALID: {
+		status: 401,
+		messages: {
+			en: () => 'Invalid token',
+			'zh-Hans': () => '登录凭证无效，请重新登录',
+			'zh-Hant': () => '登入憑證無效，請重新登入',
+		},
+	},
+	TOKEN_EXPIRED: {
+		status: 401,
+		messages: {
+			en: () => 'Token expired',
+			'zh-Hans': () => '登录已过期，请刷新登录状态',
+			'zh-Hant': () => '登入已過期，請重新整理登入狀態',
+		},
+	},
+	REFRESH_TOKEN_INVALID: {
+		status: 401,
+		messages: {
+			en: () => 'Invalid refresh token',
+			'zh-Hans': () => '刷新凭证无效，请重新登录',
+			'zh-Hant': () => '重新整理憑證無效，請重新登入',
+		},
+	},
+	REFRESH_TOKEN_EXPIRED: {
+		status: 401,
+		messages: {
+			en: () => 'Refresh token expired',
+			'zh-Hans': () => '刷新凭证已过期，请重新登录',
+			'zh-Hant': () => '重新整理憑證已過期，請重新登入',
+		},
+	},
+	UNAUTHORIZED: {
+		status: 401,
+		messages: {
+			en: () => 'Unauthorized',
+			'zh-Hans': () => '未授权',
+			'zh-Hant': () => '未授權',
+		},
+	},
+
+	// Membership and limits
+	MODE_NOT_AVAILABLE: {
+		status: 403,
+		messages: {
+			en: (d) => `Mode ${d.mode} is not available on the ${d.tier} tier`,
+			'zh-Hans': (d) => `${d.tier} 会员不支持 ${d.mode} 模式`,
+			'zh-Hant': (d) => `${d.tier} 會員不支援 ${d.mode} 模式`,
+		},
+	},
+	VOICE_NOT_IN_TIER: {
+		status: 403,
+		messages: {
+			en: (d) => `Voice ${d.voice} is not available on the ${d.tier} tier`,
+			'zh-Hans': (d) => `${d.tier} 会员不支持音色 ${d.voice}`,
+			'zh-Hant': (d) => `${d.tier} 會員不支援音色 ${d.voice}`,
+		},
+	},
+	QUOTA_DAILY_EXCEEDED: {
+		status: 429,
+		messages: {
+			en: (d) =>
+				`Daily Rate limit exceeded for ${d.tier} tier on ${d.resource_type}. Limit: ${d.limit}, Used: ${d.used}` + upsellHint('en', d),
+			'zh-Hans': (d) => `今日额度已用完（${d.tier} 会员，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hans', d),
+			'zh-Hant': (d) => `今日額度已用完（${d.tier} 會員，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hant', d),
+		},
+	},
+	QUOTA_MONTHLY_EXCEEDED: {
+		status: 429,
+		messages: {
+			en: (d) =>
+				`Monthly Rate limit exceeded for ${d.tier} tier on ${d.resource_type}. Limit: ${d.limit}, Used: ${d.used}` + upsellHint('en', d),
+			'zh-Hans': (d) => `本月额度已用完（${d.tier} 会员，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hans', d),
+			'zh-Hant': (d) => `本月額度已用完（${d.tier} 會員，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hant', d),
+		},
+	},
+	QUOTA_TOTAL_EXCEEDED: {
+		status: 429,
+		messages: {
+			en: (d) =>
+				`Total Usage limit exceeded for ${d.tier} tier on ${d.resource_type}. Limit: ${d.limit}, Used: ${d.used}` + upsellHint('en', d),
+			'zh-Hans': (d) => `总额度已用完（${d.tier} 会员，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hans', d),
+			'zh-Hant': (d) => `總額度已用完（${d.tier} 會員，${d.resource_type}：已用 ${d.used} / ${d.limit}）` + upsellHint('zh-Hant', d),
+		},
+	},
+	RATE_LIMITED: {
+		status: 429,
+		messages: {
+			en: (d) =>
+				`Rate limit exceeded for ${d.resource_type}: ${d.limit} requests per ${d.window_seconds}s. Retry after ${d.retry_after_seconds}s`,
+			'zh-Hans': (d) => `请求过于频繁，请 ${d.retry_after_seconds} 秒后重试`,
+			'zh-Hant': (d) => `請求過於頻繁，請 ${d.retry_after_seconds} 秒後重試`,
+		},
+	},
+
+	// Lookups
+	ROUTE_NOT_FOUND: {
+		status: 404,
+		messages: {
+			en: () => 'Not Found.',
+			'zh-Hans': () => '接口不存在',
+			'zh-Hant': () => '介面不存在',
+		},
+	},
+	SESSION_NOT_FOUND: {
+		status: 404,
+		messages: {
+			en: () => 'Session not found',
+			'zh-Hans': () => '会话不存在',
+			'zh-Hant': () => '工作階段不存在',
+		},
+	},
+	TRANSCRIPT_NOT_RECORDED: {
+		status: 404,
+		messages: {
+			en: () => 'No transcript was recorded for this session',
+			'zh-Hans': () => '该会话没有保存文字记录',
+			'zh-Hant': () => '該工作階段沒有保存文字記錄',
+		},
+	},
+	AUDIO_NOT_FOUND: {
+		status: 404,
+		messages: {
+			en: () => 'Audio not found',
+			'zh-Hans': () => '音频不存在',
+			'zh-Hant': () => '音訊不存在',
+		},
+	},
+
+	// Failures
+	UPSTREAM_UNAVAILABLE: {
+		status: 502,
+		messages: {
+			en: () => 'The translation service is temporarily unavailable, please try again later',
+			'zh-Hans': () => '翻译服务暂时不可用，请稍后重试',
+			'zh-Hant': () => '翻譯服務暫時無法使用，請稍後重試',
+		},
+	},
+	INTERNAL_ERROR: {
+		status: 500,
+		messages: {
+			en: () => 'Internal Server Error',
+			'zh-Hans': () => '服务器内部错误',
+			'zh-Hant': () => '伺服器內部錯誤',
+		},
+	},
+
+	// Internal tooling (admin API, webhooks): English only, so callers pass their own message
+	INVALID_REQUEST: {
+		status: 400,
+		messages: { en: () => 'Invalid request', 'zh-Hans': () => '请求无效', 'zh-Hant': () => '請求無效' },
+	},
+	NOT_FOUND: {
+		status: 404,
+		messages: { en: () => 'Not found', 'zh-Hans': () => '资源不存在', 'zh-Hant': () => '資源不存在' },
+	},
+	CONFLICT: {
+		status: 409,
+		messages: { en: () => 'Conflict', 'zh-Hans': () => '请求冲突', 'zh-Hant': () => '請求衝突' },
+	},
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERRORS;
+
+// Picks the first supported language in Accept-Language order; Traditional Chinese for zh-TW/HK/MO and zh-Hant
+export function getErrorLocale(request?: Pick<Request, 'headers'>): ErrorLocale {
+	const header = request?.headers?.get('Accept-Language');
+	if (!header) return 'en';
+
+	const ranked = header
+		.split(',')
+		.map((part) => {
+			const [tag, ...params] = part.trim().split(';');
+			const q = params.find((p) => p.trim().startsWith('q='));
+			return { tag: tag.toLowerCase(), q: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+		})
+		.filter((entry) => entry.tag && entry.q > 0)
+		.sort((a, b) => b.q - a.q);
+
+	for (const { tag } of ranked) {
+		if (tag === 'en' || tag.startsWith('en-')) return 'en';
+		if (tag === 'zh' || tag.startsWith('zh-')) {
+			return /^zh-(hant|tw|hk|mo)/.test(tag) ? 'zh-Hant' : 'zh-Hans';
+		}
+	}
+	return 'en';
+}
+
+export interface ErrorOptions {
+	// Machine-readable context, also used to fill in the message
+	details?: ErrorDetails;
+	// Replaces the catalogue message (internal endpoints only; it is not localized)
+	message?: string;
+	status?: number;
+	headers?: HeadersInit;
+}
+
+export function errorBody(request: Pick<Request, 'headers'> | undefined, code: ErrorCode, options: ErrorOptions = {}) {
+	const details = options.details ?? null;
+	const definition: ErrorDefinition = ERRORS[code];
+	const message = options.message ?? definition.messages[getErrorLocale(request)](details ?? {});
+	return { error: { code, message, details } };
+}
+
+export function errorResponse(request: Pick<Request, 'headers'> | undefined, code: ErrorCode, options: ErrorOptions = {}): Response {
+	const headers = new Headers(options.headers);
+	headers.set('Content-Type', 'application/json; charset=utf-8');
+	return new Response(JSON.stringify(errorBody(request, code, options)), {
+		status: options.status ?? ERRORS[code].status,
+		headers,
+	});
+}
@@ -0,0 +1,264 @@
+// Lossless FLAC encoding of 16-bit mono PCM, written in plain TypeScript since Workers cannot compile WASM at runtime.
+// Each block uses the cheapest of a constant, verbatim or fixed-predictor subframe with partitioned Rice residuals.
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_RICE_PARAMETER = 14;
+const MAX_PARTITION_ORDER = 6;
+
+class BitWriter {
+	private bytes = new Uint8Array(1024);
+	private length = 0;
+	private accumulator = 0;
+	private pending = 0;
+
+	get byteLength(): number {
+		return this.length;
+	}
+
+	// Writes the low `count` (up to 24) bits of `value`, most significant first
+	write(value: number, count: number) {
+		this.accumulator = (this.accumulator << count) | (value & ((1 << count) - 1));
+		this.pending += count;
+		while (this.pending >= 8) {
+			this.pending -= 8;
+			this.pushByte((this.accumulator >>> this.pending) & 0xff);
+		}
+		this.accumulator &= (1 << this.pending) - 1;
+	}
+
+	writeSigned(value: number, count: number) {
+		this.write(value < 0 ? value + (1 << count) : value, count);
+	}
+
+	writeUnary(zeros: number) {
+		while (zeros >= 16) {
+			this.write(0, 16);
+			zeros -= 16;
+		}
+		this.write(1, zeros + 1);
+	}
+
+	alignToByte() {
+		if (this.pending > 0) this.write(0, 8 - this.pending);
+	}
+
+	slice(start: number, end: number = this.length): Uint8Array {
+		return this.bytes.subarray(start, end);
+	}
+
+	finish(): Uint8Array {
+		this.alignToByte();
+		return this.bytes.slice(0, this.length);
+	}
+
+	private pushByte(byte: number) {
+		if (this.length === this.bytes.length) {
+			const grown = new Uint8Array(this.bytes.length * 2);
+			grown.set(this.bytes);
+			this.bytes = grown;
+		}
+		this.bytes[this.length++] = byte;
+	}
+}
+
+function crc8(bytes: Uint8Array): number {
+	let crc = 0;
+	for (const byte of bytes) {
+		crc ^= byte;
+		for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+	}
+	return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+	let crc = 0;
+	for (const byte of bytes) {
+		crc ^= byte << 8;
+		for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+	}
+	return crc;
+}
+
+// Residuals of the fixed polynomial predictors of orders 0-4 (FLAC format, "FIXED" subframe)
+function getFixedResiduals(samples: Int32Array, order: number): Int32Array {
+	const residuals = new Int32Array(samples.length - order);
+	for (let i = order; i < samples.length; i++) {
+		const s = samples;
+		let prediction = 0;
+		if (order === 1) prediction = s[i - 1];
+		else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+		else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+		else if (order === 4) prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+		residuals[i - order] = s[i] - prediction;
+	}
+	return residuals;
+}
+
+function zigzag(value: number): number {
+	return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+interface RicePlan {
+	partitionOrder: number;
+	parameters: number[];
+	bits: number;
+}
+
+function getRiceBits(residuals: Int32Array, start: number, end: number, k: number): number {
+	let bits = (end - start) * (k + 1);
+	for (let i = start; i < end; i++) bits += Math.floor(zigzag(residuals[i]) / (1 << k));
+	return bits;
+}
+
+// Cheapest Rice parameter for one partition. The optimum sits next to log2 of the mean, so only its neighbours are priced.
+function planPartition(residuals: Int32Array, start: number, end: number): { parameter: number; bits: number } {
+	let sum = 0;
+	for (let i = start; i < end; i++) sum += zigzag(residuals[i]);
+	const mean = end > start ? sum / (end - start) : 0;
+	const estimate = mean > 1 ? Math.min(Math.floor(Math.log2(mean)), MAX_RICE_PARAMETER) : 0;
+
+	let best = { parameter: 0, bits: Infinity };
+	for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+		const bits = getRiceBits(residuals, start, end, k);
+		if (bits < best.bits) best = { parameter: k, bits };
+	}
+	return best;
+}
+
+function planResidual(residuals: Int32Array, blockSize: number, predictorOrder: number): RicePlan {
+	let best: RicePlan = { partitionOrder: 0, parameters: [], bits: Infinity };
+	for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+		const partitionSize = blockSize >> order;
+		if (blockSize % (1 << order) !== 0 || partitionSize <= predictorOrder) break;
+		const parameters: number[] = [];
+		let bits = 2 + 4;
+		let start = 0;
+		for (let p = 0; p < 1 << order; p++) {
+			const end = start + partitionSize - (p === 0 ? predictorOrder : 0);
+			const partition = planPartition(residuals, start, end);
+			parameters.push(partition.parameter);
+			bits += 4 + partition.bits;
+			start = end;
+		}
+		if (bits < best.bits) best = { partitionOrder: order, parameters, bits };
+	}
+	return best;
+}
+
+function writeResidual(writer: BitWriter, residuals: Int32Array, blockSize: number, predictorOrder: number, plan: RicePlan) {
+	// Coding method 0: 4-bit Rice parameters
+	writer.write(0, 2);
+	writer.write(plan.partitionOrder, 4);
+	const partitionSize = blockSize >> plan.partitionOrder;
+	let start = 0;
+	plan.parameters.forEach((k, p) => {
+		const end = start + partitionSize - (p === 0 ? predictorOrder : 0);
+		writer.write(k, 4);
+		for (let i = start; i < end; i++) {
+			const u = zigzag(residuals[i]);
+			writer.writeUnary(Math.floor(u / (1 << k)));
+			if (k > 0) writer.write(u & ((1 << k) - 1), k);
+		}
+		start = end;
+	});
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array) {
+	if (samples.every((sample) => sample === samples[0])) {
+		writer.write(0b00000000, 8);
+		writer.writeSigned(samples[0], BITS_PER_SAMPLE);
+		return;
+	}
+
+	let best: { order: number; residuals: Int32Array; plan: RicePlan } | undefined;
+	for (let order = 0; order <= 4 && order < samples.length; order++) {
+		const residuals = getFixedResiduals(samples, order);
+		const plan = planResidual(residuals, samples.length, order);
+		if (!best || order * BITS_PER_SAMPLE + plan.bits < best.order * BITS_PER_SAMPLE + best.plan.bits) {
+			best = { order, residuals, plan };
+		}
+	}
+
+	if (!best || best.order * BITS_PER_SAMPLE + best.plan.bits >= samples.length * BITS_PER_SAMPLE) {
+		writer.write(0b00000010, 8);
+		for (const sample of samples) writer.writeSigned(sample, BITS_PER_SAMPLE);
+		return;
+	}
+
+	// Zero pad bit, type 001xxx (fixed, order xxx), no wasted bits
+	writer.write((0b001000 | best.order) << 1, 8);
+	for (let i = 0; i < best.order; i++) writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+	writeResidual(writer, best.residuals, samples.length, best.order, best.plan);
+}
+
+// Frame numbers are coded like UTF-8 code points
+function writeUtf8Number(writer: BitWriter, value: number) {
+	if (value < 0x80) {
+		writer.write(value, 8);
+		return;
+	}
+	const continuations = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+	const leadBits = 6 - continuations;
+	const lead = (0xff << (7 - continuations)) & 0xff;
+	writer.write(lead | ((value >>> (continuations * 6)) & ((1 << leadBits) - 1)), 8);
+	for (let i = continuations - 1; i >= 0; i--) writer.write(0x80 | ((value >>> (i * 6)) & 0x3f), 8);
+}
+
+function writeFrame(writer: BitWriter, samples: Int32Array, frameNumber: number) {
+	const frameStart = writer.byteLength;
+	const isFullBlock = samples.length === BLOCK_SIZE;
+
+	writer.write(0b11111111111110, 14);
+	// Reserved bit, fixed-blocksize stream
+	writer.write(0, 2);
+	// Block size 4096 (0b1100) or a 16-bit size after the header (0b0111); sample rate taken from STREAMINFO
+	writer.write(isFullBlock ? 0b1100 : 0b0111, 4);
+	writer.write(0b0000, 4);
+	// Mono, 16 bits per sample, reserved bit
+	writer.write(0b0000, 4);
+	writer.write(0b100, 3);
+	writer.write(0, 1);
+	writeUtf8Number(writer, frameNumber);
+	if (!isFullBlock) writer.write(samples.length - 1, 16);
+	writer.write(crc8(writer.slice(frameStart)), 8);
+
+	writeSubframe(writer, samples);
+	writer.alignToByte();
+	writer.write(crc16(writer.slice(frameStart)), 16);
+}
+
+// Encodes 16-bit little-endian mono PCM as a FLAC stream
+export function encodeFlac(pcm: Uint8Array, sampleRate: number): Uint8Array {
+	const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+	const totalSamples = Math.floor(pcm.byteLength / 2);
+	const writer = new BitWriter();
+
+	writer.write(0x664c, 16); // "fL"
+	writer.write(0x6143, 16); // "aC"
+	// Last metadata block, STREAMINFO, 34 bytes
+	writer.write(0x80, 8);
+	writer.write(34, 24);
+	writer.write(Math.min(BLOCK_SIZE, Math.max(totalSamples, 16)), 16);
+	writer.write(BLOCK_SIZE, 16);
+	// Unknown minimum and maximum frame sizes
+	writer.write(0, 24);
+	writer.write(0, 24);
+	writer.write(sampleRate >>> 4, 16);
+	writer.write(sampleRate & 0xf, 4);
+	writer.write(0, 3);
+	writer.write(BITS_PER_SAMPLE - 1, 5);
+	// 36-bit sample count, then an MD5 left blank (allowed: "unknown")
+	writer.write(Math.floor(totalSamples / 2 ** 24) & 0xfff, 12);
+	writer.write(totalSamples & 0xffffff, 24);
+	for (let i = 0; i < 16; i++) writer.write(0, 8);
+
+	for (let offset = 0, frame = 0; offset < totalSamples; offset += BLOCK_SIZE, frame++) {
+		const count = Math.min(BLOCK_SIZE, totalSamples - offset);
+		const samples = new Int32Array(count);
+		for (let i = 0; i < count; i++) samples[i] = view.getInt16((offset + i) * 2, true);
+		writeFrame(writer, samples, frame);
+	}
+
+	return writer.finish();
+}
@@ -15,6 +15,13 @@ export async function sign(payload: any, secret: string): Promise<string> {
 	return `${data}.${encodedSignature}`;
 }
 
+export class TokenExpiredError extends Error {
+	constructor() {
+		super('Token expired');
+		this.name = 'TokenExpiredError';
+	}
+}
+
 export async function verify(token: string, secret: string): Promise<any> {
 	const parts = token.split('.');
 	if (parts.length !== 3) {
@@ -34,5 +41,10 @@ export async function verify(token: string, secret: string): Promise<any> {
 		throw new Error('Invalid signature');
 	}
 
-	return JSON.parse(atob(encodedPayload));
+	const payload = JSON.parse(atob(encodedPayload));
+	// exp is in seconds since the epoch (RFC 7519)
+	if (typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now()) {
+		throw new TokenExpiredError();
+	}
+	return payload;
 }
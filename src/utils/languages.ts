@@ -66,3 +66,30 @@ export function normalizeLanguageTag(lang: string): string {
 		return mapped;
 	}
 }
+
+export type TranslationDirection = 'source_to_target' | 'target_to_source';
+
+// Scripts that tell a language's text apart from Latin-script languages
+const LANGUAGE_SCRIPTS: Record<string, RegExp> = {
+	zh: /\p{Script=Han}/gu,
+	ja: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/gu,
+	ko: /\p{Script=Hangul}/gu,
+	ru: /\p{Script=Cyrillic}/gu,
+	ar: /\p{Script=Arabic}/gu,
+	th: /\p{Script=Thai}/gu,
+	hi: /\p{Script=Devanagari}/gu,
+};
+const LATIN_SCRIPT = /\p{Script=Latin}/gu;
+
+// Guesses which side of a language pair `text` was spoken in. Only works when the two languages use
+// different scripts (e.g. en/zh); returns null for pairs like en/fr or when the text is ambiguous.
+export function detectTranslationDirection(text: string, sourceLang: string, targetLang: string): TranslationDirection | null {
+	const sourceScript = LANGUAGE_SCRIPTS[sourceLang.split('-')[0].toLowerCase()] || LATIN_SCRIPT;
+	const targetScript = LANGUAGE_SCRIPTS[targetLang.split('-')[0].toLowerCase()] || LATIN_SCRIPT;
+	if (sourceScript === targetScript) return null;
+
+	const sourceCount = text.match(sourceScript)?.length ?? 0;
+	const targetCount = text.match(targetScript)?.length ?? 0;
+	if (sourceCount === targetCount) return null;
+	return sourceCount > targetCount ? 'source_to_target' : 'target_to_source';
+}
@@ -0,0 +1,190 @@
+// Ogg/Opus encoder for TTS audio, built on the libopus build that @evan/opus ships as a standalone WASM file. Wrangler
+// bundles the file as a compiled module at deploy time, so only the (synchronous) instantiation happens here, once per
+// isolate. The package's own JS glue reads the file with `fs`, so it is not used.
+import opusWasm from '@evan/opus/wasm/opus.wasm';
+
+interface OpusExports {
+	memory: WebAssembly.Memory;
+	_initialize?: () => void;
+	malloc(size: number): number;
+	free(ptr: number): void;
+	opus_encoder_get_size(channels: number): number;
+	opus_encoder_init(encoder: number, sampleRate: number, channels: number, application: number): number;
+	opus_encoder_ctl_set(encoder: number, request: number, value: number): number;
+	opus_encoder_ctl_get(encoder: number, request: number): number;
+	opus_encode(encoder: number, pcm: number, frameSize: number, packet: number, maxPacketBytes: number): number;
+}
+
+const OPUS_APPLICATION_VOIP = 2048;
+const OPUS_SET_BITRATE_REQUEST = 4002;
+const OPUS_SET_SIGNAL_REQUEST = 4024;
+const OPUS_SIGNAL_VOICE = 3001;
+const OPUS_GET_LOOKAHEAD_REQUEST = 4027;
+
+// Speech at 32 kbit/s is about a twelfth of 24kHz 16-bit PCM
+const BITRATE = 32000;
+const FRAME_MS = 20;
+const MAX_PACKET_BYTES = 4000;
+// Ogg granule positions always count 48kHz samples, whatever the input rate
+const GRANULE_RATE = 48000;
+// Packets per Ogg page: a second of audio
+const PACKETS_PER_PAGE = 50;
+const SUPPORTED_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+let opus: OpusExports | undefined;
+
+function getOpus(): OpusExports {
+	if (!opus) {
+		const instance = new WebAssembly.Instance(opusWasm, {
+			wasi_snapshot_preview1: { fd_seek: () => 0, fd_write: () => 0, fd_close: () => 0, proc_exit: () => {} },
+			env: { emscripten_notify_memory_growth: () => {} },
+		});
+		opus = instance.exports as unknown as OpusExports;
+		opus._initialize?.();
+	}
+	return opus;
+}
+
+function check(code: number, what: string): number {
+	if (code < 0) throw new Error(`opus: ${what} failed with error ${code}`);
+	return code;
+}
+
+// Ogg page checksum: CRC-32 with polynomial 0x04c11db7, unreflected, no final xor
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let crc = i << 24;
+		for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+		table[i] = crc >>> 0;
+	}
+	return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+	let crc = 0;
+	for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+	return crc;
+}
+
+class OggWriter {
+	private pages: Uint8Array[] = [];
+	private sequence = 0;
+
+	constructor(private serial: number) {}
+
+	// headerType: 2 starts the stream, 4 ends it
+	writePage(packets: Uint8Array[], granule: number, headerType: number): void {
+		const lacing: number[] = [];
+		for (const packet of packets) {
+			for (let left = packet.length; ; left -= 255) {
+				lacing.push(Math.min(left, 255));
+				if (left < 255) break;
+			}
+		}
+		const dataLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+		const page = new Uint8Array(27 + lacing.length + dataLength);
+		const view = new DataView(page.buffer);
+		page.set([0x4f, 0x67, 0x67, 0x53]); // OggS
+		view.setUint8(5, headerType);
+		view.setBigUint64(6, BigInt(granule), true);
+		view.setUint32(14, this.serial, true);
+		view.setUint32(18, this.sequence++, true);
+		view.setUint8(26, lacing.length);
+		page.set(lacing, 27);
+		let offset = 27 + lacing.length;
+		for (const packet of packets) {
+			page.set(packet, offset);
+			offset += packet.length;
+		}
+		view.setUint32(22, oggCrc(page), true);
+		this.pages.push(page);
+	}
+
+	toBytes(): Uint8Array {
+		const out = new Uint8Array(this.pages.reduce((sum, page) => sum + page.length, 0));
+		let offset = 0;
+		for (const page of this.pages) {
+			out.set(page, offset);
+			offset += page.length;
+		}
+		return out;
+	}
+}
+
+function opusHead(preSkip: number, sampleRate: number): Uint8Array {
+	const head = new Uint8Array(19);
+	const view = new DataView(head.buffer);
+	head.set(new TextEncoder().encode('OpusHead'));
+	view.setUint8(8, 1); // version
+	view.setUint8(9, 1); // mono
+	view.setUint16(10, preSkip, true);
+	view.setUint32(12, sampleRate, true);
+	// Output gain 0 and channel mapping family 0 are already zero
+	return head;
+}
+
+function opusTags(): Uint8Array {
+	const vendor = new TextEncoder().encode('libopus');
+	const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+	const view = new DataView(tags.buffer);
+	tags.set(new TextEncoder().encode('OpusTags'));
+	view.setUint32(8, vendor.length, true);
+	tags.set(vendor, 12);
+	// No user comments
+	return tags;
+}
+
+// Encodes 16-bit mono little-endian PCM as an Ogg/Opus file (RFC 7845)
+export function encodeOggOpus(pcm: Uint8Array, sampleRate: number): Uint8Array {
+	if (!SUPPORTED_SAMPLE_RATES.includes(sampleRate)) {
+		throw new Error(`opus: unsupported sample rate ${sampleRate}`);
+	}
+	const wasm = getOpus();
+	const frameSize = (sampleRate * FRAME_MS) / 1000;
+	const granulePerSample = GRANULE_RATE / sampleRate;
+
+	const encoder = wasm.malloc(wasm.opus_encoder_get_size(1));
+	const input = wasm.malloc(frameSize * 2);
+	const output = wasm.malloc(MAX_PACKET_BYTES);
+	try {
+		check(wasm.opus_encoder_init(encoder, sampleRate, 1, OPUS_APPLICATION_VOIP), 'init');
+		check(wasm.opus_encoder_ctl_set(encoder, OPUS_SET_BITRATE_REQUEST, BITRATE), 'set bitrate');
+		check(wasm.opus_encoder_ctl_set(encoder, OPUS_SET_SIGNAL_REQUEST, OPUS_SIGNAL_VOICE), 'set signal');
+		const lookahead = check(wasm.opus_encoder_ctl_get(encoder, OPUS_GET_LOOKAHEAD_REQUEST), 'get lookahead');
+
+		const preSkip = lookahead * granulePerSample;
+		const sampleCount = pcm.length >> 1;
+		// The decoder trails the input by the lookahead, so silence is encoded past the end until all of it comes out
+		const frameCount = Math.ceil((sampleCount + lookahead) / frameSize);
+		const frameBytes = frameSize * 2;
+
+		const ogg = new OggWriter(crypto.getRandomValues(new Uint32Array(1))[0]);
+		ogg.writePage([opusHead(preSkip, sampleRate)], 0, 2);
+		ogg.writePage([opusTags()], 0, 0);
+
+		let packets: Uint8Array[] = [];
+		for (let frame = 0; frame < frameCount; frame++) {
+			const heap = new Uint8Array(wasm.memory.buffer);
+			const chunk = pcm.subarray(frame * frameBytes, (frame + 1) * frameBytes);
+			heap.fill(0, input, input + frameBytes);
+			heap.set(chunk.subarray(0, chunk.length & ~1), input);
+			const length = check(wasm.opus_encode(encoder, input, frameSize, output, MAX_PACKET_BYTES), 'encode');
+			// Encoding may have grown the memory, detaching the earlier view
+			packets.push(new Uint8Array(wasm.memory.buffer).slice(output, output + length));
+
+			const isLast = frame === frameCount - 1;
+			if (packets.length === PACKETS_PER_PAGE || isLast) {
+				// The last page's granule marks where the real audio ends, trimming the padding of the final frame
+				const granule = isLast ? preSkip + sampleCount * granulePerSample : (frame + 1) * frameSize * granulePerSample;
+				ogg.writePage(packets, granule, isLast ? 4 : 0);
+				packets = [];
+			}
+		}
+		return ogg.toBytes();
+	} finally {
+		wasm.free(output);
+		wasm.free(input);
+		wasm.free(encoder);
+	}
+}
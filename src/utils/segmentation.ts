@@ -0,0 +1,70 @@
+// Sentence splitting for long-text TTS. Intl.Segmenter knows each language's sentence rules (e.g. "。" and "！" in
+// Chinese and Japanese); the results are then evened out so every segment makes a reasonable prompt.
+
+// Where an over-long sentence may be cut, best first
+const CLAUSE_BREAK = /[,;:，；：、]\s*/g;
+const WORD_BREAK = /\s+/g;
+
+function createSegmenter(languageCode: string | undefined, granularity: 'sentence' | 'word'): Intl.Segmenter {
+	try {
+		return new Intl.Segmenter(languageCode, { granularity });
+	} catch (e) {
+		// Unknown or malformed tags fall back to the root locale's rules
+		return new Intl.Segmenter(undefined, { granularity });
+	}
+}
+
+function getSentences(text: string, languageCode?: string): string[] {
+	return Array.from(createSegmenter(languageCode, 'sentence').segment(text), (s) => s.segment);
+}
+
+// The last break whose piece fits in `maxLength` once trimmed, or -1
+function findBreak(sentence: string, pattern: RegExp, maxLength: number): number {
+	let index = -1;
+	for (const match of sentence.matchAll(pattern)) {
+		const end = match.index! + match[0].length;
+		if (sentence.slice(0, end).trimEnd().length > maxLength) break;
+		if (match.index! > 0) index = end;
+	}
+	return index;
+}
+
+// Cuts a sentence into pieces of at most `maxLength`, preferring clause breaks, then spaces, then a hard cut
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+	const pieces: string[] = [];
+	let rest = sentence;
+	while (rest.length > maxLength) {
+		let cut = findBreak(rest, CLAUSE_BREAK, maxLength);
+		if (cut <= 0) cut = findBreak(rest, WORD_BREAK, maxLength);
+		if (cut <= 0) cut = maxLength;
+		pieces.push(rest.slice(0, cut));
+		rest = rest.slice(cut);
+	}
+	return rest ? [...pieces, rest] : pieces;
+}
+
+// Splits `text` into trimmed segments of at most `maxLength` characters, in order and without losing any words.
+// Merged fragments keep the original spacing, so Chinese and Japanese are not given spaces between sentences.
+export function splitSentences(text: string, maxLength: number, languageCode?: string): string[] {
+	const segments: string[] = [];
+	for (const sentence of getSentences(text, languageCode)) {
+		for (const piece of splitLongSentence(sentence, maxLength)) {
+			const last = segments.length - 1;
+			// Pieces with nothing to say (a closing quote, an ellipsis) are spoken with the sentence before them
+			const isFragment = !/[\p{L}\p{N}]/u.test(piece);
+			if (last >= 0 && isFragment && (segments[last] + piece).trim().length <= maxLength) {
+				segments[last] += piece;
+			} else {
+				segments.push(piece);
+			}
+		}
+	}
+	return segments.map((segment) => segment.trim()).filter(Boolean);
+}
+
+// The words of `text` in order, without spaces or punctuation; Chinese and Japanese are split by the segmenter's dictionary
+export function splitWords(text: string, languageCode?: string): string[] {
+	return Array.from(createSegmenter(languageCode, 'word').segment(text))
+		.filter((s) => s.isWordLike)
+		.map((s) => s.segment);
+}
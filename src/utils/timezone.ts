@@ -0,0 +1,59 @@
+// Usage periods follow the user's local calendar, so a daily quota resets at their midnight rather than UTC's
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+		hourCycle: 'h23',
+	}).formatToParts(date);
+	const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+	return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at `date`
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+	const p = getZonedParts(date, timeZone);
+	return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant the zone's wall clock reads midnight on the given date (month is 0-based and may overflow)
+function getZonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+	const wallClock = Date.UTC(year, month, day);
+	const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+	// Corrects the guess when a DST change falls between UTC midnight and local midnight
+	return wallClock - getTimeZoneOffset(new Date(guess), timeZone);
+}
+
+// `period_value` keys of user_usage_stats: YYYY-MM-DD and YYYY-MM in the zone
+export function getPeriodKeys(date: Date, timeZone: string = DEFAULT_TIME_ZONE): { daily: string; monthly: string } {
+	const { year, month, day } = getZonedParts(date, timeZone);
+	const yyyy = String(year);
+	const mm = String(month).padStart(2, '0');
+	const dd = String(day).padStart(2, '0');
+	return { daily: `${yyyy}-${mm}-${dd}`, monthly: `${yyyy}-${mm}` };
+}
+
+// When the current daily and monthly periods roll over, as epoch milliseconds
+export function getPeriodResetTimes(date: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): { daily: number; monthly: number } {
+	const { year, month, day } = getZonedParts(date, timeZone);
+	return {
+		daily: getZonedMidnight(year, month - 1, day + 1, timeZone),
+		monthly: getZonedMidnight(year, month, 1, timeZone),
+	};
+}
@@ -0,0 +1,5 @@
+// Wrangler bundles imported .wasm files as compiled modules, ready to instantiate
+declare module '*.wasm' {
+	const module: WebAssembly.Module;
+	export default module;
+}
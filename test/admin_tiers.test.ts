@@ -0,0 +1,136 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { userEntitlements } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { clearTierConfigCache } from '../src/services/tiers';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Admin Tier Config API', () => {
+	const adminHeaders = { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' };
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		// Storage is reset between tests but the in-isolate cache is not
+		clearTierConfigCache();
+	});
+
+	async function call(method: string, path: string, init: { headers?: Record<string, string>; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.headers ?? adminHeaders,
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	async function tokenFor(userId: string) {
+		return sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+	}
+
+	it('rejects requests without the admin key', async () => {
+		expect((await call('GET', '/admin/tiers', { headers: {} })).status).toBe(401);
+		expect((await call('GET', '/admin/tiers', { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+	});
+
+	it('seeds the built-in tiers on first read', async () => {
+		const response = await call('GET', '/admin/tiers');
+		expect(response.status).toBe(200);
+		const body = (await response.json()) as any;
+
+		expect(body.tiers.map((t: any) => t.tier)).toEqual(['FREE', 'TRIAL_CANCELLED', 'LITE', 'PRO', 'UNLIMITED']);
+		const pro = body.tiers.find((t: any) => t.tier === 'PRO');
+		expect(pro.entitlement_ids).toEqual(['pro_member']);
+		expect(pro.limits.text_translation).toEqual({ daily: 100, monthly: 500 });
+		expect(pro.features.live_modes).toContain('tutor');
+	});
+
+	it('applies edited limits and new entitlement mappings without a deploy', async () => {
+		let response = await call('PUT', '/admin/tiers/PRO', {
+			body: { entitlement_ids: ['pro_member', 'pro_promo'], limits: { text_translation: { daily: 7, monthly: 70 } } },
+		});
+		expect(response.status).toBe(200);
+		const saved = (await response.json()) as any;
+		expect(saved.entitlement_ids).toEqual(['pro_member', 'pro_promo']);
+		// Untouched resources keep their limits
+		expect(saved.limits.image_translation).toBeDefined();
+
+		const userId = 'test_admin_tiers_promo';
+		await createDb(env.users_db)
+			.insert(userEntitlements)
+			.values({ userId, entitlementId: 'pro_promo', status: 'active', expiresAt: Date.now() + 10000000 })
+			.execute();
+
+		const ctx = createExecutionContext();
+		response = await worker.fetch(
+			new IncomingRequest('http://example.com/user/quota', { headers: { Authorization: `Bearer ${await tokenFor(userId)}` } }),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		const quota = (await response.json()) as any;
+		expect(quota.tier).toBe('PRO');
+		expect(quota.quotas.text_translation.daily.limit).toBe(7);
+	});
+
+	it('creates new tiers only with a full set of limits', async () => {
+		let response = await call('PUT', '/admin/tiers/PLUS', { body: { limits: { text_translation: { daily: 1, monthly: 1 } } } });
+		expect(response.status).toBe(400);
+		expect(await response.text()).toContain('Missing limits for');
+
+		const limits = Object.fromEntries(
+			['text_translation', 'text_classify', 'image_translation', 'live_translation', 'tts', 'recognition'].map((r) => [
+				r,
+				{ daily: 5, monthly: 50 },
+			]),
+		);
+		response = await call('PUT', '/admin/tiers/PLUS', { body: { entitlement_ids: ['plus_member'], priority: 15, limits } });
+		expect(response.status).toBe(201);
+
+		expect((await call('DELETE', '/admin/tiers/PLUS')).status).toBe(204);
+		expect((await call('DELETE', '/admin/tiers/PLUS')).status).toBe(404);
+		expect((await call('DELETE', '/admin/tiers/FREE')).status).toBe(400);
+	});
+
+	it('validates limits and features', async () => {
+		let response = await call('PUT', '/admin/tiers/PRO', { body: { limits: { text_translation: { daily: -1, monthly: 10 } } } });
+		expect(response.status).toBe(400);
+
+		response = await call('PUT', '/admin/tiers/PRO', { body: { features: { live_modes: ['karaoke'] } } });
+		expect(response.status).toBe(400);
+		expect(await response.text()).toContain('features.live_modes');
+	});
+
+	it('gates live modes by tier features', async () => {
+		const response = await call('PUT', '/admin/tiers/FREE', { body: { features: { live_modes: ['interpret'] } } });
+		expect(response.status).toBe(200);
+
+		const ctx = createExecutionContext();
+		const live = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/live?mode=tutor', {
+				headers: { Authorization: `Bearer ${await tokenFor('test_admin_tiers_free')}`, Upgrade: 'websocket' },
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(live.status).toBe(403);
+		const body = (await live.json()) as any;
+		expect(body.error.code).toBe('MODE_NOT_AVAILABLE');
+		expect(body.error.message).toBe('Mode tutor is not available on the FREE tier');
+	});
+});
@@ -0,0 +1,131 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { creditPurchases, userEntitlements, userUsageStats, users } from '../src/db/schema';
+import { logUsage } from '../src/models/usage';
+import { sign } from '../src/utils/jwt';
+import { eq } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Admin User API', () => {
+	const userId = 'test_admin_user';
+	const adminHeaders = { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' };
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	beforeEach(async () => {
+		await createDb(env.users_db).insert(users).values({ id: userId, credential: 'admin_user_credential' }).execute();
+	});
+
+	async function call(method: string, path: string, init: { headers?: Record<string, string>; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.headers ?? adminHeaders,
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	async function recognizeAsUser() {
+		const token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		// Fails validation after withAuth, so a 400 means the quota check passed
+		return call('POST', '/translation/recognition', { headers: { Authorization: `Bearer ${token}` }, body: {} });
+	}
+
+	async function exhaustDailyRecognitionQuota() {
+		const today = new Date().toISOString().slice(0, 10);
+		await createDb(env.logs_db)
+			.insert(userUsageStats)
+			.values({ userId, endpoint: 'recognition', periodType: 'daily', periodValue: today, count: 600 })
+			.execute();
+	}
+
+	it('requires the admin key', async () => {
+		expect((await call('GET', `/admin/users/${userId}`, { headers: {} })).status).toBe(401);
+	});
+
+	it('shows entitlements, usage, credits and recent logs', async () => {
+		await createDb(env.users_db)
+			.insert(userEntitlements)
+			.values({ userId, entitlementId: 'pro_member', status: 'active', expiresAt: Date.now() + 10000000 })
+			.execute();
+		await logUsage(env.logs_db, userId, 'test-model', 10, 20, 5, 'text_translation');
+
+		const response = await call('GET', `/admin/users/${userId}`);
+		expect(response.status).toBe(200);
+		const body = (await response.json()) as any;
+
+		expect(body.user_id).toBe(userId);
+		expect(body.tier).toBe('PRO');
+		expect(body.entitlements).toEqual([expect.objectContaining({ entitlement_id: 'pro_member', status: 'active' })]);
+		expect(body.usage_stats).toHaveLength(3);
+		expect(body.recent_usage).toEqual([expect.objectContaining({ endpoint: 'text_translation', model: 'test-model' })]);
+		expect(body.credits).toEqual({ balance_seconds: 0, purchases: [] });
+
+		expect((await call('GET', '/admin/users/nobody')).status).toBe(404);
+	});
+
+	it('grants credits once per reference and records them as admin purchases', async () => {
+		let response = await call('POST', `/admin/users/${userId}/credits`, { body: { amount_seconds: 1800, reference: 'ticket-42' } });
+		expect(response.status).toBe(201);
+		const body = (await response.json()) as any;
+		expect(body.balance_seconds).toBe(1800);
+
+		response = await call('POST', `/admin/users/${userId}/credits`, { body: { amount_seconds: 1800, reference: 'ticket-42' } });
+		expect(response.status).toBe(409);
+
+		const purchases = await createDb(env.logs_db).select().from(creditPurchases).where(eq(creditPurchases.userId, userId)).all();
+		expect(purchases).toEqual([expect.objectContaining({ id: 'admin:ticket-42', amountSeconds: 1800, source: 'admin' })]);
+
+		response = await call('GET', `/admin/users/${userId}/credits`);
+		expect(((await response.json()) as any).balance_seconds).toBe(1800);
+
+		expect((await call('POST', `/admin/users/${userId}/credits`, { body: { amount_seconds: -5 } })).status).toBe(400);
+	});
+
+	it('resets daily usage so withAuth lets the user through again', async () => {
+		await exhaustDailyRecognitionQuota();
+		expect((await recognizeAsUser()).status).toBe(429);
+
+		const response = await call('POST', `/admin/users/${userId}/usage/reset`, { body: { resource_type: 'recognition' } });
+		expect(((await response.json()) as any).reset_rows).toBe(1);
+		expect((await recognizeAsUser()).status).toBe(400);
+	});
+
+	it('applies quota overrides until they expire or are removed', async () => {
+		await exhaustDailyRecognitionQuota();
+
+		let response = await call('PUT', `/admin/users/${userId}/quota-override`, {
+			body: { resource_type: 'recognition', daily: 1000, monthly: 2000, expires_at: Date.now() + 3600_000, reason: 'refund' },
+		});
+		expect(response.status).toBe(200);
+		expect((await recognizeAsUser()).status).toBe(400);
+
+		response = await call('GET', `/admin/users/${userId}/quota-override`);
+		expect(((await response.json()) as any).quota_overrides).toEqual([
+			expect.objectContaining({ resource_type: 'recognition', daily: 1000, total: null, active: true }),
+		]);
+
+		response = await call('DELETE', `/admin/users/${userId}/quota-override?resource_type=recognition`);
+		expect(response.status).toBe(204);
+		expect((await recognizeAsUser()).status).toBe(429);
+
+		response = await call('PUT', `/admin/users/${userId}/quota-override`, {
+			body: { resource_type: 'recognition', daily: 1000, monthly: 2000, expires_at: Date.now() - 1 },
+		});
+		expect(response.status).toBe(400);
+	});
+});
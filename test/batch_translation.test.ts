@@ -0,0 +1,266 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { translations, userUsageStats } from '../src/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { clearTierConfigCache } from '../src/services/tiers';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function getMd5(text: string): Promise<string> {
+	const hashBuffer = await crypto.subtle.digest('MD5', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+function openRouterJson(content: object) {
+	return new Response(
+		JSON.stringify({
+			choices: [{ message: { content: JSON.stringify(content) } }],
+			usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 },
+		}),
+	);
+}
+
+describe('Batch Translation', () => {
+	const userId = 'test_user_batch';
+	let validToken: string;
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		validToken = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		clearTierConfigCache();
+	});
+
+	async function translateBatch(items: object[], headers: Record<string, string> = { Authorization: `Bearer ${validToken}` }) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/batch', { method: 'POST', headers, body: JSON.stringify({ items }) }),
+			env,
+			ctx,
+		);
+		const body = response.status === 200 ? ((await response.json()) as any) : await response.text();
+		await waitOnExecutionContext(ctx);
+		return { response, body };
+	}
+
+	async function getDailyCount() {
+		const row = await createDb(env.logs_db)
+			.select()
+			.from(userUsageStats)
+			.where(
+				and(eq(userUsageStats.userId, userId), eq(userUsageStats.endpoint, 'text_translation'), eq(userUsageStats.periodType, 'daily')),
+			)
+			.get();
+		return row?.count ?? 0;
+	}
+
+	it('serves cache hits, packs misses into one prompt and meters each translated item', async () => {
+		await createDb(env.words_db)
+			.insert(translations)
+			.values({
+				id: 'batch_cache_1',
+				sourceTextHash: await getMd5('batch_cached'),
+				sourceText: 'batch_cached',
+				sourceLang: 'en-US',
+				targetLang: 'zh-CN',
+				resultJson: '缓存',
+				endpoint: 'batch_translation',
+				model: 'qwen/qwen3-235b-a22b-2507',
+				promptVersion: 'batch@v1',
+				createdAt: Date.now(),
+			})
+			.execute();
+
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['你好', '世界'] }));
+
+		const { response, body } = await translateBatch([
+			{ text: 'batch_cached', source_language: 'en', target_language: 'zh' },
+			{ text: 'hello', source_language: 'en', target_language: 'zh' },
+			{ text: 'missing languages' },
+			{ text: 'world', source_lang: 'en', target_lang: 'zh' },
+		]);
+
+		expect(response.status).toBe(200);
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		const prompt = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string).messages[0].content;
+		expect(prompt).toContain('"hello"');
+		expect(prompt).toContain('"world"');
+		expect(prompt).not.toContain('batch_cached');
+
+		expect(body.results).toEqual([
+			{ index: 0, text: 'batch_cached', translation: '缓存', cached: true, error: null },
+			{ index: 1, text: 'hello', translation: '你好', cached: false, error: null },
+			{
+				index: 2,
+				text: 'missing languages',
+				translation: null,
+				cached: false,
+				error: {
+					code: 'MISSING_FIELDS',
+					message: 'Missing required fields: source_language, target_language',
+					details: { fields: ['source_language', 'target_language'] },
+				},
+			},
+			{ index: 3, text: 'world', translation: '世界', cached: false, error: null },
+		]);
+		expect(body.summary).toEqual({ total: 4, cached: 1, translated: 2, failed: 1 });
+
+		// Cached and invalid items do not count against the quota
+		expect(await getDailyCount()).toBe(2);
+
+		const saved = await createDb(env.words_db).select().from(translations).where(eq(translations.endpoint, 'batch_translation')).all();
+		expect(saved.map((r) => r.resultJson).sort()).toEqual(['世界', '你好', '缓存']);
+	});
+
+	it('fails the items beyond the remaining quota and keeps cache hits for exhausted users', async () => {
+		const today = new Date().toISOString().slice(0, 10);
+		await createDb(env.logs_db)
+			.insert(userUsageStats)
+			.values({ userId, endpoint: 'text_translation', periodType: 'daily', periodValue: today, count: 39 })
+			.execute();
+
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['un'] }));
+
+		let { body } = await translateBatch([
+			{ text: 'one', source_language: 'en', target_language: 'fr' },
+			{ text: 'two', source_language: 'en', target_language: 'fr' },
+		]);
+
+		expect(body.results[0].translation).toBe('un');
+		// The same error the endpoint answers once the quota is used up
+		expect(body.results[1]).toMatchObject({
+			translation: null,
+			error: { code: 'QUOTA_DAILY_EXCEEDED', details: { resource_type: 'text_translation', limit: 40, used: 40 } },
+		});
+		expect(await getDailyCount()).toBe(40);
+
+		// The quota is now exhausted but the cached item is still served
+		({ body } = await translateBatch([
+			{ text: 'one', source_language: 'en', target_language: 'fr' },
+			{ text: 'three', source_language: 'en', target_language: 'fr' },
+		]));
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect(body.results[0]).toMatchObject({ translation: 'un', cached: true });
+		expect(body.results[1].error).toMatchObject({ code: 'QUOTA_DAILY_EXCEEDED', details: { window: 'daily', used: 40 } });
+	});
+
+	it('fails a whole pack when the model returns the wrong number of translations', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['only one'] }));
+
+		const { body } = await translateBatch([
+			{ text: 'a', source_language: 'en', target_language: 'de' },
+			{ text: 'b', source_language: 'en', target_language: 'de' },
+		]);
+
+		expect(body.summary).toEqual({ total: 2, cached: 0, translated: 0, failed: 2 });
+		expect(body.results[0].error).toMatchObject({ code: 'UPSTREAM_UNAVAILABLE' });
+		// The model was still called for both items
+		expect(await getDailyCount()).toBe(2);
+	});
+
+	it('counts each prompt against the rate limit and passes a rate-limited refusal through', async () => {
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/admin/tiers/FREE', {
+				method: 'PUT',
+				headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+				body: JSON.stringify({ rate_limits: { text_translation: [{ requests: 2, window_seconds: 60 }] } }),
+			}),
+			env,
+			createExecutionContext(),
+		);
+		expect(response.status).toBe(200);
+		const headers = {
+			Authorization: `Bearer ${await sign({ uid: 'test_user_batch_rate', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET)}`,
+		};
+
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['hallo'] }));
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['bonjour'] }));
+
+		// Two language pairs, two prompts, two requests of the limit
+		let { body } = await translateBatch(
+			[
+				{ text: 'hello', source_language: 'en', target_language: 'de' },
+				{ text: 'hello', source_language: 'en', target_language: 'fr' },
+			],
+			headers,
+		);
+		expect(body.summary).toMatchObject({ translated: 2, failed: 0 });
+
+		let result = await translateBatch([{ text: 'bye', source_language: 'en', target_language: 'de' }], headers);
+		expect(result.response.status).toBe(429);
+		expect(result.response.headers.get('Retry-After')).toEqual(expect.any(String));
+		expect(JSON.parse(result.body).error.code).toBe('RATE_LIMITED');
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+	});
+
+	it('only counts the prompts sent within the quota against the rate limit', async () => {
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/admin/tiers/FREE', {
+				method: 'PUT',
+				headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+				body: JSON.stringify({ rate_limits: { text_translation: [{ requests: 2, window_seconds: 60 }] } }),
+			}),
+			env,
+			createExecutionContext(),
+		);
+		expect(response.status).toBe(200);
+		const rateUserId = 'test_user_batch_rate_quota';
+		const headers = {
+			Authorization: `Bearer ${await sign({ uid: rateUserId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET)}`,
+		};
+		const today = new Date().toISOString().slice(0, 10);
+		await createDb(env.logs_db)
+			.insert(userUsageStats)
+			.values({ userId: rateUserId, endpoint: 'text_translation', periodType: 'daily', periodValue: today, count: 39 })
+			.execute();
+
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['hallo'] }));
+		fetchSpy.mockResolvedValueOnce(openRouterJson({ translations: ['ciao'] }));
+
+		// Three language pairs, but only the first is within the quota: one prompt, one request of the limit
+		let { body } = await translateBatch(
+			[
+				{ text: 'hello', source_language: 'en', target_language: 'de' },
+				{ text: 'hello', source_language: 'en', target_language: 'fr' },
+				{ text: 'hello', source_language: 'en', target_language: 'es' },
+			],
+			headers,
+		);
+		expect(body.summary).toMatchObject({ translated: 1, failed: 2 });
+		expect(body.results[2].error.code).toBe('QUOTA_DAILY_EXCEEDED');
+
+		// Refused outright once the quota is used up, without using the limit either
+		({ body } = await translateBatch([{ text: 'bye', source_language: 'en', target_language: 'de' }], headers));
+		expect(body.results[0].error.code).toBe('QUOTA_DAILY_EXCEEDED');
+
+		// With quota again, the second request of the limit is still there
+		await createDb(env.logs_db).delete(userUsageStats).where(eq(userUsageStats.userId, rateUserId)).execute();
+		({ body } = await translateBatch([{ text: 'hello', source_language: 'en', target_language: 'it' }], headers));
+		expect(body.results[0].translation).toBe('ciao');
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+	});
+
+	it('rejects missing auth on misses and oversized batches', async () => {
+		let { response } = await translateBatch([{ text: 'anon', source_language: 'en', target_language: 'fr' }], {});
+		expect(response.status).toBe(401);
+
+		({ response } = await translateBatch(Array.from({ length: 51 }, () => ({ text: 'x', source_language: 'en', target_language: 'fr' }))));
+		expect(response.status).toBe(400);
+	});
+});
@@ -0,0 +1,90 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { userUsageStats } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { getErrorLocale } from '../src/utils/errors';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Structured errors', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	async function call(method: string, path: string, headers: Record<string, string> = {}, body?: object) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, { method, headers, body: body ? JSON.stringify(body) : undefined }),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('picks the message locale from Accept-Language', () => {
+		const locale = (value: string) => getErrorLocale(new Request('http://example.com', { headers: { 'Accept-Language': value } }));
+		expect(getErrorLocale(new Request('http://example.com'))).toBe('en');
+		expect(locale('zh-CN,zh;q=0.9')).toBe('zh-Hans');
+		expect(locale('zh-TW')).toBe('zh-Hant');
+		expect(locale('zh-Hant-HK')).toBe('zh-Hant');
+		expect(locale('fr-FR, zh-HK;q=0.5, en;q=0.8')).toBe('en');
+		expect(locale('de')).toBe('en');
+	});
+
+	it('returns a JSON body for unknown routes', async () => {
+		const response = await call('GET', '/unknown', { 'Accept-Language': 'zh-TW' });
+		expect(response.status).toBe(404);
+		expect(response.headers.get('Content-Type')).toContain('application/json');
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('ROUTE_NOT_FOUND');
+		expect(body.error.details).toBeNull();
+		expect(body.error.message).not.toBe('Not Found.');
+	});
+
+	it('tells expired tokens apart from invalid ones', async () => {
+		const expired = await sign({ uid: 'errors_expired', exp: Math.floor(Date.now() / 1000) - 60 }, env.JWT_SECRET);
+		let response = await call('GET', '/user/quota', { Authorization: `Bearer ${expired}` });
+		expect(response.status).toBe(401);
+		expect(((await response.json()) as any).error.code).toBe('TOKEN_EXPIRED');
+
+		response = await call('GET', '/user/quota', { Authorization: 'Bearer not-a-token' });
+		expect(response.status).toBe(401);
+		expect(((await response.json()) as any).error.code).toBe('TOKEN_INVALID');
+
+		response = await call('GET', '/user/quota');
+		expect(((await response.json()) as any).error.code).toBe('AUTH_MISSING');
+	});
+
+	it('reports quota errors with their details in the requested language', async () => {
+		const userId = 'errors_quota_user';
+		const today = new Date().toISOString().slice(0, 10);
+		await createDb(env.logs_db)
+			.insert(userUsageStats)
+			.values({ userId, endpoint: 'recognition', periodType: 'daily', periodValue: today, count: 600 })
+			.execute();
+		const token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+		const response = await call('POST', '/translation/recognition', { Authorization: `Bearer ${token}`, 'Accept-Language': 'zh-CN' }, {});
+		expect(response.status).toBe(429);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('QUOTA_DAILY_EXCEEDED');
+		expect(body.error.details).toMatchObject({ tier: 'FREE', resource_type: 'recognition', limit: 600, used: 600 });
+		expect(body.error.message).toContain('今日额度已用完');
+	});
+
+	it('localizes validation errors', async () => {
+		const token = await sign({ uid: 'errors_validation_user', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const response = await call('POST', '/translation/recognition', { Authorization: `Bearer ${token}`, 'Accept-Language': 'zh-Hant' }, {});
+		expect(response.status).toBe(400);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('MISSING_FIELDS');
+		expect(body.error.details.fields).toEqual(['audio', 'source_language', 'target_language']);
+		expect(body.error.message).toBe('缺少必填欄位：audio, source_language, target_language');
+	});
+});
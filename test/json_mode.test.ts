@@ -0,0 +1,208 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { translations } from '../src/db/schema';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+async function getMd5(text: string): Promise<string> {
+	const hashBuffer = await crypto.subtle.digest('MD5', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+describe('JSON Response Mode', () => {
+	let validToken: string;
+	const userId = 'test_user_json_mode';
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		validToken = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('returns the full result, usage, cost and model with Accept: application/json', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(
+			new Response(
+				`data: ${JSON.stringify({ choices: [{ delta: { content: 'Bonjour ' } }] })}\n\n` +
+					`data: ${JSON.stringify({ choices: [{ delta: { content: 'le monde' } }] })}\n\n` +
+					`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24, cost: 0.00005 } })}\n\n` +
+					'data: [DONE]\n\n',
+			),
+		);
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/longtext', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}`, Accept: 'application/json' },
+				body: JSON.stringify({ text: 'Hello world', source_language: 'en', target_language: 'fr' }),
+			}),
+			env,
+			ctx,
+		);
+		const body = (await response.json()) as any;
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('application/json');
+		expect(body).toMatchObject({
+			result: 'Bonjour le monde',
+			model: 'qwen/qwen3-235b-a22b-2507',
+			provider: 'openrouter',
+			cached: false,
+			usage: { input_tokens: 20, output_tokens: 4, total_tokens: 24 },
+			cost_micros: 50,
+		});
+		expect(body.request_id).toBe(response.headers.get('X-Request-Id'));
+	});
+
+	it('reports the model, usage and cost of input corrections', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(
+			Response.json({
+				choices: [{ message: { content: 'Je voudrais un café' } }],
+				usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36, cost: 0.00002 },
+			}),
+		);
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/correct_input', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}`, Accept: 'application/json' },
+				body: JSON.stringify({
+					original_input: 'I would like a coffee',
+					translated_output: 'Je voudrais un cafe',
+					source_language: 'en',
+					target_language: 'fr',
+				}),
+			}),
+			env,
+			ctx,
+		);
+		const body = (await response.json()) as any;
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			result: 'Je voudrais un café',
+			model: 'qwen/qwen3-235b-a22b-2507',
+			cached: false,
+			usage: { input_tokens: 30, output_tokens: 6, total_tokens: 36 },
+			cost_micros: 20,
+		});
+	});
+
+	it('flags cache hits with ?stream=false', async () => {
+		const text = 'json_mode_cached';
+		await createDb(env.words_db)
+			.insert(translations)
+			.values({
+				id: 'json_mode_cache_1',
+				sourceTextHash: await getMd5(text),
+				sourceText: text,
+				sourceLang: 'en-US',
+				targetLang: 'zh-CN',
+				resultJson: '{"type":"sentence"}',
+				model: 'gemini-3-flash-preview',
+				promptVersion: 'text@v1',
+				createdAt: Date.now(),
+			})
+			.execute();
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/text?stream=false', {
+				method: 'POST',
+				body: JSON.stringify({ text, source_language: 'en', target_language: 'zh' }),
+			}),
+			env,
+			ctx,
+		);
+		const body = (await response.json()) as any;
+		await waitOnExecutionContext(ctx);
+
+		expect(body).toMatchObject({
+			result: '{"type":"sentence"}',
+			cached: true,
+			model: 'gemini-3-flash-preview',
+			cost_micros: 0,
+			usage: null,
+		});
+	});
+
+	it('reports stream failures as a JSON error', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(
+			new Response(
+				new ReadableStream({
+					start(controller) {
+						controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`));
+						controller.error(new Error('connection reset'));
+					},
+				}),
+			),
+		);
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/longtext?stream=false', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}` },
+				body: JSON.stringify({ text: 'Broken', source_language: 'en', target_language: 'fr' }),
+			}),
+			env,
+			ctx,
+		);
+		const body = (await response.json()) as any;
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(502);
+		expect(body.error.code).toBe('UPSTREAM_UNAVAILABLE');
+		expect(body.error.details.reason).toBe('Upstream stream interrupted');
+	});
+
+	it('passes non-stream errors through and keeps SSE as the default', async () => {
+		let ctx = createExecutionContext();
+		let response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/word', {
+				method: 'POST',
+				headers: { Accept: 'application/json' },
+				body: JSON.stringify({ text: 'unauthenticated_json', source_language: 'en', target_language: 'zh' }),
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(401);
+
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(
+			new Response(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Salut' } }] })}\n\ndata: [DONE]\n\n`),
+		);
+		ctx = createExecutionContext();
+		response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/longtext', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}` },
+				body: JSON.stringify({ text: 'Hi', source_language: 'en', target_language: 'fr' }),
+			}),
+			env,
+			ctx,
+		);
+		await response.text();
+		await waitOnExecutionContext(ctx);
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+	});
+});
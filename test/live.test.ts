@@ -78,7 +78,7 @@ describe('Live Translation API (Placeholder Verification)', () => {
 		const response = await worker.fetch(request, env, ctx);
 		await waitOnExecutionContext(ctx);
 		expect(response.status).toBe(401);
-		expect(await response.text()).toContain('Invalid or expired token');
+		expect(((await response.json()) as any).error.code).toBe('TOKEN_INVALID');
 	});
 
 	it('responds with 429 when rate limit exceeded', async () => {
@@ -110,6 +110,6 @@ describe('Live Translation API (Placeholder Verification)', () => {
 		const response = await worker.fetch(request, env, ctx);
 		await waitOnExecutionContext(ctx);
 		expect(response.status).toBe(404);
-		expect(await response.text()).toBe('Not Found.');
+		expect(((await response.json()) as any).error.code).toBe('ROUTE_NOT_FOUND');
 	});
 });
@@ -0,0 +1,563 @@
+import {
+	env,
+	applyD1Migrations,
+	createExecutionContext,
+	waitOnExecutionContext,
+	runInDurableObject,
+	runDurableObjectAlarm,
+	listDurableObjectIds,
+} from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+import { createDb } from '../src/db';
+import { usageLogs } from '../src/db/schema';
+import { eq } from 'drizzle-orm';
+import { LiveSessionConfig } from '../src/durable_objects/live_session';
+import { aggregateUsage } from '../src/utils/cost';
+import { buildLiveSetup } from '../src/services/live_setup';
+import { LIVE_SESSION_LIMITS } from '../src/config/limits';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const usageMetadata = {
+	promptTokenCount: 100,
+	candidatesTokenCount: 200,
+	totalTokenCount: 300,
+	promptTokensDetails: [{ modality: 'AUDIO', tokenCount: 100 }],
+	responseTokensDetails: [{ modality: 'AUDIO', tokenCount: 200 }],
+};
+
+// Stands in for Gemini's socket. Events must be emitted from inside the Durable Object
+// (runInDurableObject) because the proxied client socket belongs to its I/O context.
+function createGeminiSocket() {
+	const listeners: Record<string, ((event: any) => void)[]> = {};
+	const gemini = {
+		sent: [] as string[],
+		accept: vi.fn(),
+		send: vi.fn((data: string) => gemini.sent.push(data)),
+		close: vi.fn(),
+		addEventListener: (type: string, listener: (event: any) => void) => {
+			(listeners[type] ||= []).push(listener);
+		},
+		emit: (type: string, event: any) => listeners[type]?.forEach((listener) => listener(event)),
+	};
+	return gemini;
+}
+
+function mockGeminiSocket() {
+	const gemini = createGeminiSocket();
+	vi.spyOn(global, 'fetch').mockResolvedValue({ status: 101, webSocket: gemini } as any);
+	return gemini;
+}
+
+// A fresh socket per connection, for sessions that reconnect
+function mockGeminiSockets() {
+	const sockets: ReturnType<typeof createGeminiSocket>[] = [];
+	vi.spyOn(global, 'fetch').mockImplementation(async () => {
+		const gemini = createGeminiSocket();
+		sockets.push(gemini);
+		return { status: 101, webSocket: gemini } as any;
+	});
+	return sockets;
+}
+
+function sessionConfig(userId: string, overrides: Partial<LiveSessionConfig> = {}): LiveSessionConfig {
+	return {
+		userId,
+		tier: 'PRO',
+		model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+		promptVersion: 'live_system@v1',
+		setup: { setup: { model: 'models/gemini-2.5-flash-native-audio-preview-12-2025' } },
+		remainingSeconds: 600,
+		mode: 'interpret',
+		voice: 'Kore',
+		vad: false,
+		quotaRate: 1,
+		sourceLanguage: 'en-US',
+		targetLanguage: 'zh-CN',
+		transcript: false,
+		...overrides,
+	};
+}
+
+async function getLiveLogs(userId: string) {
+	return createDb(env.logs_db).select().from(usageLogs).where(eq(usageLogs.userId, userId)).all();
+}
+
+// Final logging runs in the Durable Object after the close event, outside the request
+async function waitForLiveLogs(userId: string) {
+	for (let i = 0; i < 50; i++) {
+		const logs = await getLiveLogs(userId);
+		if (logs.length > 0) return logs;
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+	return [];
+}
+
+describe('Live Session Durable Object', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('proxies both sockets and logs the aggregated usage when the client hangs up', async () => {
+		const userId = 'live_session_user';
+		const token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const gemini = mockGeminiSocket();
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/live?sourceLanguage=en&targetLanguage=zh', {
+				headers: { Authorization: `Bearer ${token}`, Upgrade: 'websocket' },
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(101);
+		expect(JSON.parse(gemini.sent[0]).setup.systemInstruction.parts[0].text).toContain('zh-CN');
+
+		const [id] = await listDurableObjectIds(env.LIVE_SESSION);
+		const stub = env.LIVE_SESSION.get(id);
+
+		const client = response.webSocket!;
+		client.accept();
+		const fromGemini: string[] = [];
+		client.addEventListener('message', (event) => fromGemini.push(event.data as string));
+
+		// The client's own setup is dropped, everything else is forwarded
+		client.send(JSON.stringify({ setup: { model: 'client-chosen' } }));
+		client.send(JSON.stringify({ realtimeInput: { audio: 'AAAA' } }));
+		await runInDurableObject(stub, () => {
+			gemini.emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+			gemini.emit('message', { data: JSON.stringify({ serverContent: { turnComplete: true }, usageMetadata }) });
+			gemini.emit('message', { data: new TextEncoder().encode(JSON.stringify({ usageMetadata })).buffer });
+		});
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		expect(gemini.sent.slice(1)).toEqual([JSON.stringify({ realtimeInput: { audio: 'AAAA' } })]);
+		expect(fromGemini.length).toBe(3);
+
+		// Usage is checkpointed as it arrives, before the session ends
+		await runInDurableObject(stub, async (_, state) => {
+			const saved = await state.storage.get<any>('state');
+			expect(saved.usageEvents).toBe(2);
+			expect(saved.usage.output.audio).toBe(400);
+		});
+
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+
+		expect(logs.length).toBe(1);
+		expect(logs[0]).toMatchObject({
+			endpoint: 'live_translation',
+			inputTokens: 200,
+			outputTokens: 400,
+			promptVersion: 'live_system@v1',
+		});
+		expect(logs[0].costMicros).toBeGreaterThan(0);
+		expect(gemini.close).toHaveBeenCalled();
+	});
+
+	it('runs text-only subtitles with their own setup and bills them at the mode rate', async () => {
+		const userId = 'live_session_subtitles';
+		const token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const gemini = mockGeminiSocket();
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/live?sourceLanguage=en&targetLanguage=zh&mode=subtitles', {
+				headers: { Authorization: `Bearer ${token}`, Upgrade: 'websocket' },
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(101);
+
+		const { setup } = JSON.parse(gemini.sent[0]);
+		expect(setup.model).toBe('models/gemini-live-2.5-flash-preview');
+		expect(setup.generationConfig).toEqual({ responseModalities: ['TEXT'] });
+		expect(setup.outputAudioTranscription).toBeUndefined();
+		expect(setup.inputAudioTranscription).toEqual({});
+
+		const client = response.webSocket!;
+		client.accept();
+		const [id] = await listDurableObjectIds(env.LIVE_SESSION);
+		const stub = env.LIVE_SESSION.get(id);
+		await runInDurableObject(stub, (instance: any) => {
+			instance.state.audio.inputSeconds = 60;
+			gemini.emit('message', { data: JSON.stringify({ usageMetadata }) });
+		});
+
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+		expect(logs[0].model).toBe('gemini-live-2.5-flash-preview');
+		// A minute of captions costs half a minute of quota
+		expect(logs[0]).toMatchObject({ durationSeconds: 30, meteredSeconds: 60 });
+	});
+
+	it('rejects unknown modes', async () => {
+		const token = await sign({ uid: 'live_session_mode', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/live?mode=karaoke', {
+				headers: { Authorization: `Bearer ${token}`, Upgrade: 'websocket' },
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(400);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('INVALID_PARAMETER');
+		expect(body.error.message).toBe('Invalid mode: must be one of interpret, one_way, subtitles, lecture, tutor');
+	});
+
+	it('answers control messages and reconnects Gemini on a language swap without dropping the client', async () => {
+		const userId = 'live_session_control';
+		const sockets = mockGeminiSockets();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		const { setup } = buildLiveSetup({
+			userId,
+			mode: 'interpret',
+			sourceLanguage: 'en-US',
+			targetLanguage: 'ja-JP',
+			voice: 'Kore',
+			vad: false,
+		});
+		await stub.init(sessionConfig(userId, { setup, targetLanguage: 'ja-JP' }));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		const frames: any[] = [];
+		client.addEventListener('message', (event) => frames.push(JSON.parse(event.data as string)));
+		const send = async (frame: object) => {
+			client.send(JSON.stringify(frame));
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		};
+		const audio = JSON.stringify({ realtimeInput: { audio: 'AAAA' } });
+		await runInDurableObject(stub, () => {
+			sockets[0].emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+		});
+
+		await send({ type: 'ping', id: 'p1' });
+		expect(frames.pop()).toEqual({ type: 'pong', id: 'p1' });
+
+		// Paused audio never reaches Gemini
+		await send({ type: 'pause' });
+		expect(frames.pop()).toEqual({ type: 'ack', command: 'pause' });
+		client.send(audio);
+		await send({ type: 'resume' });
+		expect(frames.pop()).toEqual({ type: 'ack', command: 'resume' });
+		client.send(audio);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(sockets[0].sent.slice(1)).toEqual([JSON.stringify({ realtimeInput: { audioStreamEnd: true } }), audio]);
+
+		await runInDurableObject(stub, () => {
+			sockets[0].emit('message', { data: JSON.stringify({ usageMetadata }) });
+		});
+
+		await send({ type: 'swap_languages', id: 's1' });
+		expect(frames.pop()).toEqual({ type: 'ack', command: 'swap_languages', id: 's1', source_language: 'ja-JP', target_language: 'en-US' });
+		expect(sockets.length).toBe(2);
+		expect(sockets[0].close).toHaveBeenCalledWith(1000, 'Reconnecting');
+		const swapped = JSON.parse(sockets[1].sent[0]).setup;
+		expect(swapped.systemInstruction.parts[0].text).toContain('ja-JP 或 en-US');
+
+		await send({ type: 'set_vad', enabled: true, silence_duration_ms: 2500 });
+		expect(frames.pop()).toEqual({ type: 'ack', command: 'set_vad', enabled: true, silence_duration_ms: 2500 });
+		expect(JSON.parse(sockets[2].sent[0]).setup.realtimeInputConfig.automaticActivityDetection).toMatchObject({
+			disabled: false,
+			silenceDurationMs: 2500,
+		});
+
+		await send({ type: 'set_vad', enabled: 'yes' });
+		expect(frames.pop()).toEqual({ type: 'error', command: 'set_vad', message: 'set_vad requires a boolean "enabled"' });
+		await send({ type: 'rewind' });
+		expect(frames.pop()).toEqual({ type: 'error', command: 'rewind', message: 'Unknown control message type: rewind' });
+		expect(sockets.length).toBe(3);
+
+		// Usage from every upstream connection is billed once, on the same session
+		await runInDurableObject(stub, () => {
+			sockets[2].emit('message', { data: JSON.stringify({ usageMetadata }) });
+		});
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+		expect(logs.length).toBe(1);
+		expect(logs[0].outputTokens).toBe(400);
+	});
+
+	it('reconnects a dropped Gemini connection with its resumption handle, buffering client audio meanwhile', async () => {
+		const userId = 'live_session_resume';
+		const sockets: ReturnType<typeof createGeminiSocket>[] = [];
+		let releaseReconnect!: () => void;
+		const reconnectHeld = new Promise<void>((resolve) => (releaseReconnect = resolve));
+		vi.spyOn(global, 'fetch').mockImplementation(async () => {
+			// Hold the first reconnect so audio arrives during the gap
+			if (sockets.length === 1) await reconnectHeld;
+			const gemini = createGeminiSocket();
+			sockets.push(gemini);
+			return { status: 101, webSocket: gemini } as any;
+		});
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		const frames: any[] = [];
+		client.addEventListener('message', (event) => frames.push(JSON.parse(event.data as string)));
+		const audio = JSON.stringify({ realtimeInput: { audio: 'AAAA' } });
+
+		await runInDurableObject(stub, () => {
+			sockets[0].emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+			sockets[0].emit('message', { data: JSON.stringify({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } }) });
+			sockets[0].emit('message', { data: JSON.stringify({ usageMetadata }) });
+			sockets[0].emit('close', { type: 'close', code: 1006 });
+		});
+		client.send(audio);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(frames).toEqual([{ setupComplete: {} }, { usageMetadata }, { type: 'reconnecting' }]);
+
+		releaseReconnect();
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(sockets.length).toBe(2);
+		expect(JSON.parse(sockets[1].sent[0]).setup.sessionResumption).toEqual({ handle: 'handle-1' });
+		expect(frames.pop()).toEqual({ type: 'reconnected', resumed: true });
+
+		// The audio waits for Gemini to accept the setup
+		expect(sockets[1].sent.length).toBe(1);
+		await runInDurableObject(stub, () => {
+			sockets[1].emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+		});
+		expect(sockets[1].sent[1]).toBe(audio);
+		// The reconnect is invisible: the client saw the session start only once
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(frames.filter((frame) => frame.setupComplete)).toHaveLength(1);
+
+		// A go-away notice reconnects before Gemini drops the connection
+		await runInDurableObject(stub, () => {
+			sockets[1].emit('message', { data: JSON.stringify({ goAway: { timeLeft: '5s' } }) });
+		});
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(sockets.length).toBe(3);
+		expect(sockets[1].close).toHaveBeenCalledWith(1000, 'Reconnecting');
+
+		// Usage from every upstream connection lands on one session record
+		await runInDurableObject(stub, () => {
+			sockets[2].emit('message', { data: JSON.stringify({ usageMetadata }) });
+		});
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+		expect(logs.length).toBe(1);
+		expect(logs[0].outputTokens).toBe(400);
+	});
+
+	it('ends the session when Gemini rejects it outright', async () => {
+		const sockets = mockGeminiSockets();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig('live_session_fatal'));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		const closed = new Promise<CloseEvent>((resolve) => client.addEventListener('close', resolve));
+
+		await runInDurableObject(stub, () => {
+			sockets[0].emit('close', { type: 'close', code: 1008 });
+		});
+		await closed;
+		expect(sockets.length).toBe(1);
+	});
+
+	it('meters the audio streamed each way instead of the time the socket is open', async () => {
+		const userId = 'live_session_metered';
+		const gemini = mockGeminiSocket();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+
+		// 1.5s of 16kHz PCM from the client, 2.25s of 24kHz PCM back from Gemini
+		const pcm = (seconds: number, rate: number) => btoa('\0'.repeat(seconds * rate * 2));
+		client.send(JSON.stringify({ realtimeInput: { audio: { data: pcm(1, 16000), mimeType: 'audio/pcm;rate=16000' } } }));
+		client.send(JSON.stringify({ realtimeInput: { mediaChunks: [{ data: pcm(0.5, 16000), mimeType: 'audio/pcm;rate=16000' }] } }));
+		// Binary JSON frames are metered and filtered like text ones
+		const encode = (message: object) => new TextEncoder().encode(JSON.stringify(message));
+		client.send(encode({ realtimeInput: { audio: { data: pcm(0.5, 16000), mimeType: 'audio/pcm;rate=16000' } } }));
+		client.send(encode({ setup: { model: 'client-chosen' } }));
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		// Held, and not metered, until Gemini accepts the setup
+		await runInDurableObject(stub, (instance: any) => {
+			expect(gemini.sent.length).toBe(1);
+			expect(instance.state.audio.inputSeconds).toBe(0);
+			gemini.emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+		});
+		expect(gemini.sent.length).toBe(4);
+		await runInDurableObject(stub, (instance: any) => {
+			const audioPart = (seconds: number) => ({ inlineData: { mimeType: 'audio/pcm;rate=24000', data: pcm(seconds, 24000) } });
+			gemini.emit('message', { data: JSON.stringify({ serverContent: { modelTurn: { parts: [audioPart(2), audioPart(0.25)] } } }) });
+			gemini.emit('message', { data: JSON.stringify({ usageMetadata }) });
+			// The socket sat open for ten minutes
+			instance.state.startedAt -= 600_000;
+			expect(instance.state.audio).toEqual({ inputSeconds: 2, outputSeconds: 2.25 });
+		});
+
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+		expect(logs[0]).toMatchObject({ durationSeconds: 3, meteredSeconds: 3 });
+		expect(logs[0].wallSeconds).toBeGreaterThanOrEqual(600);
+	});
+
+	it('does not meter client audio dropped while Gemini is not ready', async () => {
+		const gemini = mockGeminiSocket();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig('live_session_overflow'));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+
+		// 10ms frames: the oldest one no longer fits in the buffer
+		const frame = JSON.stringify({ realtimeInput: { audio: { data: btoa('\0'.repeat(320)), mimeType: 'audio/pcm;rate=16000' } } });
+		for (let i = 0; i <= LIVE_SESSION_LIMITS.maxBufferedFrames; i++) client.send(frame);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		await runInDurableObject(stub, (instance: any) => {
+			gemini.emit('message', { data: JSON.stringify({ setupComplete: {} }) });
+			expect(gemini.sent.length).toBe(1 + LIVE_SESSION_LIMITS.maxBufferedFrames);
+			expect(instance.state.audio.inputSeconds).toBeCloseTo(LIVE_SESSION_LIMITS.maxBufferedFrames * 0.01);
+		});
+		client.close(1000, 'done');
+		expect((await waitForLiveLogs('live_session_overflow'))[0].meteredSeconds).toBe(3);
+	});
+
+	it('logs a session that streamed audio but never got a usage report', async () => {
+		const userId = 'live_session_no_usage';
+		mockGeminiSocket();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		await runInDurableObject(stub, (instance: any) => {
+			instance.state.audio.inputSeconds = 12;
+		});
+
+		client.close(1000, 'done');
+		const logs = await waitForLiveLogs(userId);
+		expect(logs[0]).toMatchObject({ inputTokens: 0, outputTokens: 0, costMicros: 0, durationSeconds: 12, meteredSeconds: 12 });
+	});
+
+	it('closes a session with no audio in either direction', async () => {
+		const userId = 'live_session_idle';
+		mockGeminiSocket();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		const frames: any[] = [];
+		client.addEventListener('message', (event) => frames.push(JSON.parse(event.data as string)));
+		const closed = new Promise<CloseEvent>((resolve) => client.addEventListener('close', resolve));
+
+		await runInDurableObject(stub, (instance: any) => {
+			instance.state.lastActivityAt -= 121_000;
+		});
+		await runDurableObjectAlarm(stub);
+
+		const event = await closed;
+		expect(frames).toEqual([{ type: 'idle_timeout' }]);
+		expect(event.code).toBe(4003);
+		// Nothing was streamed, so nothing is billed
+		expect(await getLiveLogs(userId)).toEqual([]);
+	});
+
+	it('bills a session whose sockets disappeared from the persisted usage', async () => {
+		const userId = 'live_session_crashed';
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId));
+
+		// Simulate an isolate that died 65s into the call after its last checkpoint at 60s, with 50s of audio streamed
+		await runInDurableObject(stub, async (instance, state) => {
+			// Forget the in-memory state as a restarted object would
+			(instance as any).state = undefined;
+			const now = Date.now();
+			const saved = (await state.storage.get<any>('state'))!;
+			await state.storage.put('state', {
+				...saved,
+				startedAt: now - 65_000,
+				lastSeenAt: now - 5_000,
+				usage: aggregateUsage([usageMetadata, usageMetadata]),
+				usageEvents: 2,
+				audio: { inputSeconds: 50, outputSeconds: 40 },
+			});
+			await state.storage.setAlarm(now + 60_000);
+		});
+
+		expect(await runDurableObjectAlarm(stub)).toBe(true);
+
+		const logs = await getLiveLogs(userId);
+		expect(logs.length).toBe(1);
+		expect(logs[0]).toMatchObject({ durationSeconds: 50, meteredSeconds: 50, wallSeconds: 60, inputTokens: 200 });
+
+		// Storage is cleared so a later alarm cannot bill twice
+		await runInDurableObject(stub, async (_, state) => {
+			expect(await state.storage.get('state')).toBeUndefined();
+		});
+	});
+
+	it('warns the client as the budget runs low and closes with a distinct code when it is exhausted', async () => {
+		const userId = 'live_session_quota';
+		const gemini = mockGeminiSocket();
+		const stub = env.LIVE_SESSION.get(env.LIVE_SESSION.newUniqueId());
+		await stub.init(sessionConfig(userId, { tier: 'FREE', remainingSeconds: 120 }));
+
+		const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+		const client = response.webSocket!;
+		client.accept();
+		const frames: any[] = [];
+		client.addEventListener('message', (event) => frames.push(JSON.parse(event.data as string)));
+		const closed = new Promise<CloseEvent>((resolve) => client.addEventListener('close', resolve));
+
+		// Stream audio without waiting for it
+		const elapse = (seconds: number) =>
+			runInDurableObject(stub, (instance: any) => {
+				instance.state.audio.inputSeconds += seconds;
+			});
+
+		await elapse(30);
+		await runDurableObjectAlarm(stub);
+		expect(frames).toEqual([]);
+
+		await elapse(40);
+		await runDurableObjectAlarm(stub);
+		expect(frames).toEqual([{ type: 'quota_warning', remaining_seconds: 50 }]);
+
+		// Both remaining thresholds are crossed at once: only one warning is sent
+		await elapse(45);
+		await runDurableObjectAlarm(stub);
+		await runDurableObjectAlarm(stub);
+		expect(frames.slice(1)).toEqual([{ type: 'quota_warning', remaining_seconds: 5 }]);
+
+		await elapse(5);
+		await runDurableObjectAlarm(stub);
+		const event = await closed;
+		expect(frames[frames.length - 1]).toEqual({ type: 'quota_exceeded' });
+		expect(event.code).toBe(4002);
+		expect(event.reason).toBe('Live translation quota exceeded');
+		expect(gemini.close).toHaveBeenCalledWith(1000, 'Live translation quota exceeded');
+	});
+});
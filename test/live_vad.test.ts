@@ -1,4 +1,4 @@
-import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
 import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
 import { handleTranslation } from '../src/controllers/translation';
 import { sign } from '../src/utils/jwt';
@@ -10,6 +10,10 @@ describe('Live Translation - VAD Parameter', () => {
 	const userId = 'vad_test_user';
 
 	beforeAll(async () => {
+		// The live handler reads the remaining live_translation seconds before handing off the session
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+
 		const payload = { uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 };
 		validToken = await sign(payload, env.JWT_SECRET);
 	});
@@ -53,6 +57,9 @@ describe('Live Translation - VAD Parameter', () => {
 
 		expect(sentMessage.setup.realtimeInputConfig.automaticActivityDetection.disabled).toBe(false);
 
+		// End the session so its Durable Object releases storage before the test finishes
+		response.webSocket!.accept();
+		response.webSocket!.close();
 		fetchSpy.mockRestore();
 	});
 
@@ -89,6 +96,9 @@ describe('Live Translation - VAD Parameter', () => {
 
 		expect(sentMessage.setup.realtimeInputConfig.automaticActivityDetection.disabled).toBe(true);
 
+		// End the session so its Durable Object releases storage before the test finishes
+		response.webSocket!.accept();
+		response.webSocket!.close();
 		fetchSpy.mockRestore();
 	});
 
@@ -125,6 +135,9 @@ describe('Live Translation - VAD Parameter', () => {
 
 		expect(sentMessage.setup.realtimeInputConfig.automaticActivityDetection.disabled).toBe(true);
 
+		// End the session so its Durable Object releases storage before the test finishes
+		response.webSocket!.accept();
+		response.webSocket!.close();
 		fetchSpy.mockRestore();
 	});
 });
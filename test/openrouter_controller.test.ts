@@ -16,7 +16,7 @@ const mockCtx = {
 vi.mock('../src/services/openrouter', () => {
 	return {
 		OpenRouterService: vi.fn().mockImplementation(() => ({
-			correctInput: vi.fn().mockResolvedValue('Corrected Text'),
+			correctInput: vi.fn().mockResolvedValue({ text: 'Corrected Text', model: 'test-model', usage: null, costMicros: 0 }),
 		})),
 	};
 });
@@ -0,0 +1,126 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { usageLogs } from '../src/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { PROMPT_TEMPLATES } from '../src/config/prompts';
+import { getPromptBucket, renderPrompt, renderTemplate, selectPromptVersion } from '../src/services/prompts';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Prompt Registry', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('escapes interpolated values and leaves triple-brace values raw', () => {
+		const rendered = renderTemplate('Input: "{{text}}" / {{{raw}}}', { text: 'say "hi" \\ {{other}}', raw: '"as is"' });
+		expect(rendered).toBe('Input: "say \\"hi\\" \\\\ {{other}}" / "as is"');
+	});
+
+	it('renders sections only when their value is non-empty', () => {
+		const template = 'Base{{#extra}}\nExtra: {{extra}}{{/extra}}';
+		expect(renderTemplate(template, { extra: '' })).toBe('Base');
+		expect(renderTemplate(template, { extra: '   ' })).toBe('Base');
+		expect(renderTemplate(template, { extra: 'more' })).toBe('Base\nExtra: more');
+	});
+
+	it('throws on missing variables', () => {
+		expect(() => renderTemplate('Hello {{name}}', {})).toThrow('Missing prompt variable: name');
+	});
+
+	it('renders the default version and reports its id', () => {
+		const prompt = renderPrompt('classify', { text: 'apple' }, 'user_1');
+		expect(prompt.version).toBe(PROMPT_TEMPLATES.classify.defaultVersion);
+		expect(prompt.id).toBe(`classify@${PROMPT_TEMPLATES.classify.defaultVersion}`);
+		expect(prompt.text).toContain('Input: "apple"');
+	});
+
+	it('buckets users deterministically across experiment variants', () => {
+		const experiments = {
+			word: {
+				id: 'word_card_test',
+				variants: [
+					{ version: 'v1', weight: 50 },
+					{ version: 'v2', weight: 50 },
+				],
+			},
+		};
+		// Pretend a second version exists for the duration of the test
+		(PROMPT_TEMPLATES.word.versions as Record<string, string>).v2 = 'v2 {{text}}';
+
+		try {
+			const counts: Record<string, number> = { v1: 0, v2: 0 };
+			for (let i = 0; i < 1000; i++) {
+				const userId = `user_${i}`;
+				const version = selectPromptVersion('word', userId, experiments);
+				expect(selectPromptVersion('word', userId, experiments)).toBe(version);
+				counts[version]++;
+			}
+			expect(counts.v1).toBeGreaterThan(350);
+			expect(counts.v2).toBeGreaterThan(350);
+
+			// Anonymous callers and prompts without an experiment get the default
+			expect(selectPromptVersion('word', null, experiments)).toBe('v1');
+			expect(selectPromptVersion('smart', 'user_1', experiments)).toBe('v1');
+
+			const bucket = getPromptBucket('word_card_test', 'user_42');
+			expect(
+				renderPrompt(
+					'word',
+					{ text: 'x', sourceLang: 'en', targetLang: 'zh', sourceLangName: 'English', targetLangName: 'Chinese' },
+					'user_42',
+					experiments,
+				).version,
+			).toBe(bucket < 50 ? 'v1' : 'v2');
+		} finally {
+			delete (PROMPT_TEMPLATES.word.versions as Record<string, string>).v2;
+		}
+	});
+
+	describe('usage logging', () => {
+		const userId = 'test_user_prompts';
+		let validToken: string;
+
+		beforeAll(async () => {
+			await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+			await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+			await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+			validToken = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		});
+
+		it('records the prompt version on usage_logs', async () => {
+			const fetchSpy = vi.spyOn(global, 'fetch');
+			fetchSpy.mockResolvedValueOnce(
+				new Response(
+					`data: ${JSON.stringify({ choices: [{ delta: { content: 'Un texte' } }], usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 } })}\n\ndata: [DONE]\n\n`,
+				),
+			);
+
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest('http://example.com/translation/longtext', {
+					method: 'POST',
+					headers: { Authorization: `Bearer ${validToken}` },
+					body: JSON.stringify({ text: 'A text', source_language: 'en', target_language: 'fr' }),
+				}),
+				env,
+				ctx,
+			);
+			await response.text();
+			await waitOnExecutionContext(ctx);
+
+			const db = createDb(env.logs_db);
+			const logs = await db
+				.select()
+				.from(usageLogs)
+				.where(and(eq(usageLogs.userId, userId), eq(usageLogs.endpoint, 'long_text_translation')))
+				.all();
+			expect(logs.length).toBe(1);
+			expect(logs[0].promptVersion).toBe('long_text@v1');
+		});
+	});
+});
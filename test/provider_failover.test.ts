@@ -0,0 +1,121 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { usageLogs } from '../src/db/schema';
+import { eq, and } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function geminiSseStream(text: string) {
+	const chunk = JSON.stringify({
+		candidates: [{ content: { parts: [{ text }] } }],
+		usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 8, totalTokenCount: 20 },
+	});
+	return new ReadableStream({
+		start(controller) {
+			controller.enqueue(new TextEncoder().encode(`data: ${chunk}\n\n`));
+			controller.close();
+		},
+	});
+}
+
+describe('Provider Failover', () => {
+	let validToken: string;
+	const userId = 'test_user_failover';
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+
+		const payload = {
+			uid: userId,
+			exp: Math.floor(Date.now() / 1000) + 3600,
+		};
+		validToken = await sign(payload, env.JWT_SECRET);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('fails over from OpenRouter to Gemini on 5xx and records it in usage_logs', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(new Response('upstream down', { status: 503 }));
+		fetchSpy.mockResolvedValueOnce(new Response(geminiSseStream('{"type":"word","translation":"苹果"}')));
+
+		const request = new IncomingRequest('http://example.com/translation/word', {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${validToken}` },
+			body: JSON.stringify({
+				text: 'failover_apple',
+				source_language: 'en',
+				target_language: 'zh',
+			}),
+		});
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		const text = await response.text();
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		expect(text).toContain('苹果');
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(String(fetchSpy.mock.calls[0][0])).toContain('openrouter.ai');
+		expect(String(fetchSpy.mock.calls[1][0])).toContain('google-ai-studio');
+
+		const db = createDb(env.logs_db);
+		const logs = await db
+			.select()
+			.from(usageLogs)
+			.where(and(eq(usageLogs.userId, userId), eq(usageLogs.endpoint, 'word_translation')))
+			.all();
+
+		expect(logs.length).toBe(1);
+		expect(logs[0].provider).toBe('gemini');
+		expect(logs[0].failoverFrom).toBe('openrouter');
+		expect(logs[0].model).toBe('gemini-2.5-flash');
+
+		// The failover result is cached under the key lookups use, so the next request is served without upstream calls
+		const cachedCtx = createExecutionContext();
+		const cached = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/word', {
+				method: 'POST',
+				body: JSON.stringify({ text: 'failover_apple', source_language: 'en', target_language: 'zh' }),
+			}),
+			env,
+			cachedCtx,
+		);
+		await waitOnExecutionContext(cachedCtx);
+		expect(cached.status).toBe(200);
+		expect(await cached.text()).toContain('苹果');
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not fail over on non-retryable upstream errors', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(new Response('bad request', { status: 400 }));
+
+		const request = new IncomingRequest('http://example.com/translation/word', {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${validToken}` },
+			body: JSON.stringify({
+				text: 'failover_bad_request',
+				source_language: 'en',
+				target_language: 'zh',
+			}),
+		});
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(502);
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,115 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { userEntitlements, userUsageStats } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { addCredits } from '../src/models/usage';
+import { getPeriodResetTimes } from '../src/utils/timezone';
+import { clearTierConfigCache } from '../src/services/tiers';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Quota exceeded responses', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		clearTierConfigCache();
+	});
+
+	async function seedUsage(userId: string, endpoint: string, periodType: 'daily' | 'monthly' | 'total', amount: number) {
+		const now = new Date().toISOString();
+		const periodValue = periodType === 'daily' ? now.slice(0, 10) : periodType === 'monthly' ? now.slice(0, 7) : 'total';
+		await createDb(env.logs_db)
+			.insert(userUsageStats)
+			.values({ userId, endpoint, periodType, periodValue, count: amount, durationSeconds: amount })
+			.execute();
+	}
+
+	async function callAs(userId: string, method: string, path: string, headers: Record<string, string> = {}) {
+		const token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: { Authorization: `Bearer ${token}`, ...headers },
+				body: method === 'POST' ? '{}' : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('offers the cheapest tier and credit package with the reset time of the window that was hit', async () => {
+		const userId = 'quota_exceeded_live';
+		await seedUsage(userId, 'live_translation', 'daily', 600);
+
+		const response = await callAs(userId, 'GET', '/translation/live');
+		expect(response.status).toBe(429);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('QUOTA_DAILY_EXCEEDED');
+		expect(body.error.details).toEqual({
+			tier: 'FREE',
+			resource_type: 'live_translation',
+			window: 'daily',
+			limit: 600,
+			used: 600,
+			reset_at: getPeriodResetTimes().daily,
+			credits_remaining_seconds: 0,
+			upsell: {
+				tier: { tier: 'LITE', entitlement_ids: ['lite_member'], limits: { daily: 3600, monthly: 3600, total: null } },
+				credit_package: { product_id: 'packages_499', amount_seconds: 3600 },
+			},
+		});
+		expect(body.error.message).toContain('Upgrade to LITE or buy more minutes to continue.');
+	});
+
+	it('skips tiers that would still be over their limits and never offers credits for other resources', async () => {
+		const userId = 'quota_exceeded_recognition';
+		await createDb(env.users_db)
+			.insert(userEntitlements)
+			.values({ userId, entitlementId: 'lite_member', status: 'active', expiresAt: Date.now() + 3600_000 })
+			.execute();
+		// PRO stops at 1000 recognitions a month, so only UNLIMITED would let this one through
+		await seedUsage(userId, 'recognition', 'monthly', 1000);
+
+		const response = await callAs(userId, 'POST', '/translation/recognition', { 'Accept-Language': 'zh-TW' });
+		expect(response.status).toBe(429);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('QUOTA_MONTHLY_EXCEEDED');
+		expect(body.error.details.window).toBe('monthly');
+		expect(body.error.details.reset_at).toBe(getPeriodResetTimes().monthly);
+		expect(body.error.details.upsell).toEqual({
+			tier: { tier: 'UNLIMITED', entitlement_ids: ['unlimited_member'], limits: { daily: 100, monthly: 2000, total: null } },
+			credit_package: null,
+		});
+		expect(body.error.message).toContain('升級至 UNLIMITED 即可繼續使用。');
+	});
+
+	it('reports a spent total allowance as never resetting and includes remaining credits', async () => {
+		const userId = 'quota_exceeded_total';
+		await seedUsage(userId, 'recognition', 'total', 600);
+		await addCredits(env.logs_db, {
+			id: 'quota_exceeded_grant',
+			userId,
+			productId: 'admin_grant',
+			amountSeconds: 120,
+			createdAt: Date.now(),
+			source: 'admin',
+		});
+
+		const response = await callAs(userId, 'POST', '/translation/recognition');
+		expect(response.status).toBe(429);
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('QUOTA_TOTAL_EXCEEDED');
+		expect(body.error.details).toMatchObject({ window: 'total', reset_at: null, credits_remaining_seconds: 120 });
+		expect(body.error.details.upsell.tier.tier).toBe('LITE');
+	});
+});
@@ -0,0 +1,119 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+import { clearTierConfigCache } from '../src/services/tiers';
+import { getResourceTypeFromUrl, isMeteredPath } from '../src/config/limits';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Rate Limiting', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		clearTierConfigCache();
+	});
+
+	async function call(path: string, init: { method?: string; headers: Record<string, string>; body?: object }) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method: init.method ?? 'POST',
+				headers: init.headers,
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	async function setFreeRateLimits(rateLimits: object) {
+		const response = await call('/admin/tiers/FREE', {
+			method: 'PUT',
+			headers: { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' },
+			body: { rate_limits: rateLimits },
+		});
+		expect(response.status).toBe(200);
+	}
+
+	it('applies every rule of a rolling window and reports when to retry', async () => {
+		const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName('test_rate_limiter_unit'));
+		const rules = [
+			{ requests: 2, windowSeconds: 1 },
+			{ requests: 3, windowSeconds: 60 },
+		];
+		const start = 1_700_000_000_000;
+
+		let result = await limiter.consume('tts', rules, start);
+		expect(result).toMatchObject({ allowed: true, limit: 2, windowSeconds: 1, remaining: 1 });
+		expect((await limiter.consume('tts', rules, start + 100)).allowed).toBe(true);
+
+		// Burst rule: the first request leaves the one-second window at start + 1000
+		result = await limiter.consume('tts', rules, start + 200);
+		expect(result).toMatchObject({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 1 });
+
+		// Rolling minute: the third request fits, the fourth waits for the first to be a minute old
+		expect((await limiter.consume('tts', rules, start + 1500)).allowed).toBe(true);
+		result = await limiter.consume('tts', rules, start + 5000);
+		expect(result).toMatchObject({ allowed: false, limit: 3, windowSeconds: 60, retryAfterSeconds: 55, resetAt: start + 60_000 });
+		expect((await limiter.consume('tts', rules, start + 60_001)).allowed).toBe(true);
+
+		// Resources are counted separately
+		expect((await limiter.consume('recognition', rules, start + 5000)).allowed).toBe(true);
+
+		// A request can count as several; one larger than a rule only needs that rule's window to be empty
+		const minute = [{ requests: 3, windowSeconds: 60 }];
+		expect(await limiter.consume('batch', minute, start, 2)).toMatchObject({ allowed: true, remaining: 1 });
+		expect(await limiter.consume('batch', minute, start + 1000, 2)).toMatchObject({ allowed: false, retryAfterSeconds: 59 });
+		expect((await limiter.consume('batch', minute, start + 1000, 1)).allowed).toBe(true);
+		expect((await limiter.consume('large', minute, start, 5)).allowed).toBe(true);
+		expect((await limiter.consume('large', minute, start + 1000, 1)).allowed).toBe(false);
+	});
+
+	it('returns 429 with Retry-After and X-RateLimit headers before the quota check', async () => {
+		await setFreeRateLimits({ recognition: [{ requests: 2, window_seconds: 60 }] });
+		const token = await sign({ uid: 'test_rate_limit_user', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const headers = { Authorization: `Bearer ${token}` };
+
+		// An empty body fails validation after withAuth, so a 400 means the request got through
+		expect((await call('/translation/recognition', { headers, body: {} })).status).toBe(400);
+		expect((await call('/translation/recognition', { headers, body: {} })).status).toBe(400);
+
+		const response = await call('/translation/recognition', { headers, body: {} });
+		expect(response.status).toBe(429);
+		expect(await response.text()).toContain('Rate limit exceeded for recognition: 2 requests per 60s');
+		expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(55);
+		expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+		expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+		expect(Number(response.headers.get('X-RateLimit-Reset'))).toBeGreaterThan(Date.now() / 1000);
+
+		// Other resources have their own counters
+		expect((await call('/translation/text', { headers, body: {} })).status).toBe(400);
+	});
+
+	it('can be turned off per resource and ignores unmetered endpoints', async () => {
+		await setFreeRateLimits({ recognition: [], text_translation: [{ requests: 1, window_seconds: 60 }] });
+		const token = await sign({ uid: 'test_rate_limit_off', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		const headers = { Authorization: `Bearer ${token}` };
+
+		for (let i = 0; i < 3; i++) {
+			expect((await call('/translation/recognition', { headers, body: {} })).status).toBe(400);
+			// /user/quota goes through withAuth but calls no provider
+			expect((await call('/user/quota', { method: 'GET', headers })).status).toBe(200);
+		}
+	});
+
+	it('covers every endpoint that calls a provider', () => {
+		for (const path of ['/translation/text', '/translation/smart_text', '/translation/correct_input', '/translation/longtext']) {
+			expect(isMeteredPath(path)).toBe(true);
+			expect(getResourceTypeFromUrl(path)).toBe('text_translation');
+		}
+		expect(isMeteredPath('/user/quota')).toBe(false);
+	});
+});
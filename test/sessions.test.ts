@@ -0,0 +1,170 @@
+import { env, applyD1Migrations, runInDurableObject, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+import { createDb } from '../src/db';
+import { liveSessions } from '../src/db/schema';
+import { eq } from 'drizzle-orm';
+import { TranscriptCollector, formatTranscriptSrt, formatTranscriptText } from '../src/services/transcript';
+import { detectTranslationDirection } from '../src/utils/languages';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function mockGeminiSocket() {
+	const listeners: Record<string, ((event: any) => void)[]> = {};
+	const gemini = {
+		accept: vi.fn(),
+		send: vi.fn(),
+		close: vi.fn(),
+		addEventListener: (type: string, listener: (event: any) => void) => {
+			(listeners[type] ||= []).push(listener);
+		},
+		emit: (type: string, event: any) => listeners[type]?.forEach((listener) => listener(event)),
+	};
+	vi.spyOn(global, 'fetch').mockResolvedValue({ status: 101, webSocket: gemini } as any);
+	return gemini;
+}
+
+describe('Live Session Transcripts', () => {
+	it('collects fragments into turns and detects the direction from the script', () => {
+		const collector = new TranscriptCollector(1_000, 'en-US', 'zh-CN');
+		collector.add('input', ' Hello', 2_000);
+		collector.add('output', '你好', 2_500);
+		collector.add('input', ' there', 3_000);
+		collector.add('output', '。', 3_200);
+
+		expect(collector.completeTurn()).toEqual([
+			{ seq: 0, role: 'input', direction: 'source_to_target', text: 'Hello there', startMs: 1_000, endMs: 2_000 },
+			{ seq: 0, role: 'output', direction: 'source_to_target', text: '你好。', startMs: 1_500, endMs: 2_200 },
+		]);
+		expect(collector.completeTurn()).toEqual([]);
+
+		expect(detectTranslationDirection('谢谢', 'en', 'zh')).toBe('target_to_source');
+		// Same script on both sides cannot be told apart
+		expect(detectTranslationDirection('merci', 'en', 'fr')).toBeNull();
+	});
+
+	it('formats text and SRT output', () => {
+		const turns = [
+			{ role: 'input', text: 'Hello', startMs: 61_000, endMs: 62_500 },
+			{ role: 'output', text: '你好', startMs: 3_723_004, endMs: 3_723_004 },
+		];
+		expect(formatTranscriptText(turns)).toBe('[00:01:01] Speaker: Hello\n[01:02:03] Interpreter: 你好');
+		expect(formatTranscriptSrt(turns)).toBe('1\n00:01:01,000 --> 00:01:02,500\nHello\n\n2\n01:02:03,004 --> 01:02:04,004\n你好\n');
+	});
+
+	describe('API', () => {
+		const userId = 'transcript_user';
+		let token: string;
+
+		beforeAll(async () => {
+			await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+			await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+			token = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		async function runSession(transcript: boolean) {
+			const gemini = mockGeminiSocket();
+			const id = env.LIVE_SESSION.newUniqueId();
+			const stub = env.LIVE_SESSION.get(id);
+			await stub.init({
+				userId,
+				tier: 'PRO',
+				model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+				promptVersion: 'live_system@v1',
+				setup: { setup: {} },
+				remainingSeconds: 600,
+				mode: 'interpret',
+				voice: 'Kore',
+				vad: false,
+				quotaRate: 1,
+				sourceLanguage: 'en-US',
+				targetLanguage: 'zh-CN',
+				transcript,
+			});
+
+			const response = await stub.fetch('http://live-session/', { headers: { Upgrade: 'websocket' } });
+			const client = response.webSocket!;
+			client.accept();
+
+			await runInDurableObject(stub, () => {
+				gemini.emit('message', { data: JSON.stringify({ serverContent: { inputTranscription: { text: 'Good morning' } } }) });
+				gemini.emit('message', { data: JSON.stringify({ serverContent: { outputTranscription: { text: '早上好' } } }) });
+				gemini.emit('message', { data: JSON.stringify({ serverContent: { turnComplete: true } }) });
+				gemini.emit('message', { data: JSON.stringify({ serverContent: { inputTranscription: { text: '谢谢' } } }) });
+				gemini.emit('message', { data: JSON.stringify({ serverContent: { outputTranscription: { text: 'Thank you' } } }) });
+			});
+			client.close(1000, 'done');
+
+			// The session row is closed after the final flush
+			const db = createDb(env.logs_db);
+			for (let i = 0; i < 50; i++) {
+				const row = await db.select().from(liveSessions).where(eq(liveSessions.id, id.toString())).get();
+				if (row?.endedAt) break;
+				await new Promise((resolve) => setTimeout(resolve, 20));
+			}
+			return id.toString();
+		}
+
+		async function get(path: string, headers: Record<string, string> = {}) {
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest(`http://example.com${path}`, { headers: { Authorization: `Bearer ${token}`, ...headers } }),
+				env,
+				ctx,
+			);
+			await waitOnExecutionContext(ctx);
+			return response;
+		}
+
+		it('stores opted-in transcripts and serves them as JSON, text and SRT', async () => {
+			const sessionId = await runSession(true);
+
+			const list = (await (await get('/sessions')).json()) as any;
+			expect(list.sessions.length).toBe(1);
+			expect(list.sessions[0]).toMatchObject({
+				id: sessionId,
+				source_language: 'en-US',
+				target_language: 'zh-CN',
+				transcript_enabled: true,
+			});
+			expect(list.sessions[0].ended_at).not.toBeNull();
+
+			const json = (await (await get(`/sessions/${sessionId}/transcript`)).json()) as any;
+			expect(json.turns.map((t: any) => [t.seq, t.role, t.direction, t.text])).toEqual([
+				[0, 'input', 'source_to_target', 'Good morning'],
+				[0, 'output', 'source_to_target', '早上好'],
+				// The unfinished turn is flushed when the session ends
+				[1, 'input', 'target_to_source', '谢谢'],
+				[1, 'output', 'target_to_source', 'Thank you'],
+			]);
+
+			const text = await get(`/sessions/${sessionId}/transcript`, { Accept: 'text/plain' });
+			expect(text.headers.get('Content-Type')).toContain('text/plain');
+			expect(await text.text()).toContain('Speaker: Good morning');
+
+			const srt = await get(`/sessions/${sessionId}/transcript?format=srt`);
+			expect(srt.headers.get('Content-Type')).toContain('application/x-subrip');
+			expect(await srt.text()).toMatch(/^1\n\d{2}:\d{2}:\d{2},\d{3} --> /);
+		});
+
+		it('stores nothing without opt-in and hides other users sessions', async () => {
+			const sessionId = await runSession(false);
+
+			let response = await get(`/sessions/${sessionId}/transcript`);
+			expect(response.status).toBe(404);
+			expect(((await response.json()) as any).error.code).toBe('TRANSCRIPT_NOT_RECORDED');
+
+			const otherToken = await sign({ uid: 'someone_else', exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+			response = await get(`/sessions/${sessionId}/transcript`, { Authorization: `Bearer ${otherToken}` });
+			expect(response.status).toBe(404);
+
+			response = await get(`/sessions/${sessionId}/transcript?format=pdf`);
+			expect(response.status).toBe(400);
+		});
+	});
+});
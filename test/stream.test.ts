@@ -0,0 +1,146 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { createSseStream, createStaticSseResponse } from '../src/services/stream';
+
+function sseBody(chunks: string[], error?: Error) {
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(new TextEncoder().encode(chunk));
+			}
+			if (error) {
+				controller.error(error);
+			} else {
+				controller.close();
+			}
+		},
+	});
+}
+
+function parseFrames(body: string) {
+	return body
+		.split('\n\n')
+		.filter((frame) => frame.trim())
+		.map((frame) => {
+			const lines = frame.split('\n');
+			const event = lines.find((l) => l.startsWith('event: '))?.slice(7) || 'message';
+			const data = JSON.parse(lines.find((l) => l.startsWith('data: '))!.slice(6));
+			return { event, data };
+		});
+}
+
+describe('SSE Stream Normalizer', () => {
+	it('normalizes OpenAI-style chunks and emits a done frame with usage and cost', async () => {
+		const upstream = new Response(
+			sseBody([
+				`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`,
+				// Split a frame across chunks to exercise line buffering
+				`data: ${JSON.stringify({ choices: [{ delta: { content: 'lo' } }] }).slice(0, 10)}`,
+				`${JSON.stringify({ choices: [{ delta: { content: 'lo' } }] }).slice(10)}\n\n`,
+				`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7, cost: 0.0001 } })}\n\n`,
+				'data: [DONE]\n\n',
+			]),
+		);
+
+		const onUsage = vi.fn().mockResolvedValue(100);
+		const onComplete = vi.fn().mockResolvedValue(undefined);
+		const ctx = createExecutionContext();
+
+		const response = createSseStream(upstream, {
+			dialect: 'openai',
+			ctx,
+			model: 'qwen/qwen3-235b-a22b-2507',
+			provider: 'openrouter',
+			hooks: { onUsage, onComplete },
+		});
+		const body = await response.text();
+		await waitOnExecutionContext(ctx);
+
+		const frames = parseFrames(body);
+		const textFrames = frames.filter((f) => f.event === 'message');
+		expect(textFrames.map((f) => f.data.candidates[0].content.parts[0].text).join('')).toBe('Hello');
+
+		const done = frames[frames.length - 1];
+		expect(done.event).toBe('done');
+		expect(done.data.request_id).toBe(response.headers.get('X-Request-Id'));
+		expect(done.data.usage).toEqual({ input_tokens: 5, output_tokens: 2, total_tokens: 7 });
+		expect(done.data.cost_micros).toBe(100);
+		expect(done.data.cached).toBe(false);
+
+		expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ promptTokenCount: 5, nativeCostMicros: 100 }), done.data.request_id);
+		expect(onComplete).toHaveBeenCalledWith('Hello', done.data.request_id);
+	});
+
+	it('handles Gemini-style chunks with a trailing frame lacking a newline', async () => {
+		const upstream = new Response(
+			sseBody([
+				`data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: '你好' }] } }] })}\r\n\r\n`,
+				`data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text: '!' }] } }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 1 } })}`,
+			]),
+		);
+
+		const ctx = createExecutionContext();
+		const response = createSseStream(upstream, { dialect: 'gemini', ctx, model: 'gemini-2.5-flash', provider: 'gemini' });
+		const body = await response.text();
+		await waitOnExecutionContext(ctx);
+
+		const frames = parseFrames(body);
+		expect(frames.filter((f) => f.event === 'message').map((f) => f.data.candidates[0].content.parts[0].text)).toEqual(['你好', '!']);
+		expect(frames[frames.length - 1].data.usage).toEqual({ input_tokens: 3, output_tokens: 1, total_tokens: 4 });
+	});
+
+	it('emits an error frame instead of done when the upstream stream breaks', async () => {
+		const upstream = new Response(
+			sseBody([`data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`], new Error('connection reset')),
+		);
+		const onComplete = vi.fn();
+
+		const ctx = createExecutionContext();
+		const response = createSseStream(upstream, { dialect: 'openai', ctx, model: 'm', provider: 'openrouter', hooks: { onComplete } });
+		const body = await response.text();
+		await waitOnExecutionContext(ctx);
+
+		const frames = parseFrames(body);
+		expect(frames[frames.length - 1].event).toBe('error');
+		expect(frames.some((f) => f.event === 'done')).toBe(false);
+		expect(onComplete).not.toHaveBeenCalled();
+	});
+
+	it('holds text back until the validator decides, then flushes it', async () => {
+		const upstream = new Response(
+			sseBody([
+				`data: ${JSON.stringify({ choices: [{ delta: { content: '[[SEN' } }] })}\n\n`,
+				`data: ${JSON.stringify({ choices: [{ delta: { content: 'TENCE]]' } }] })}\n\n`,
+				`data: ${JSON.stringify({ choices: [{ delta: { content: ' Hi' } }] })}\n\n`,
+			]),
+		);
+		const finalize = vi.fn();
+
+		const ctx = createExecutionContext();
+		const response = createSseStream(upstream, {
+			dialect: 'openai',
+			ctx,
+			model: 'm',
+			provider: 'openrouter',
+			validator: { mode: (prefix) => (prefix.length < 12 ? undefined : 'stream'), finalize },
+		});
+		const frames = parseFrames(await response.text());
+		await waitOnExecutionContext(ctx);
+
+		expect(frames.filter((f) => f.event === 'message').map((f) => f.data.candidates[0].content.parts[0].text)).toEqual([
+			'[[SENTENCE]]',
+			' Hi',
+		]);
+		expect(finalize).not.toHaveBeenCalled();
+	});
+
+	it('builds a static response with a cached done frame', async () => {
+		const response = createStaticSseResponse('cached text', { cached: true });
+		const frames = parseFrames(await response.text());
+
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		expect(frames[0].data.candidates[0].content.parts[0].text).toBe('cached text');
+		expect(frames[1].event).toBe('done');
+		expect(frames[1].data.cached).toBe(true);
+	});
+});
@@ -0,0 +1,129 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { userInitData, userTimezones, userUsageStats } from '../src/db/schema';
+import { getUserTimeZone, logUsage } from '../src/models/usage';
+import { getPeriodKeys, getPeriodResetTimes, isValidTimeZone } from '../src/utils/timezone';
+import { sign } from '../src/utils/jwt';
+import { eq } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Timezone-aware usage periods', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	async function call(method: string, path: string, init: { token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.token ? { Authorization: `Bearer ${init.token}` } : {},
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	it('computes period keys and resets on the local calendar', () => {
+		// 18:30 UTC on Jan 31 is already Feb 1 in Shanghai (UTC+8) and Tokyo (UTC+9)
+		const date = new Date(Date.UTC(2025, 0, 31, 18, 30));
+		expect(getPeriodKeys(date)).toEqual({ daily: '2025-01-31', monthly: '2025-01' });
+		expect(getPeriodKeys(date, 'Asia/Shanghai')).toEqual({ daily: '2025-02-01', monthly: '2025-02' });
+		expect(getPeriodResetTimes(date, 'Asia/Tokyo')).toEqual({
+			daily: Date.UTC(2025, 1, 1, 15),
+			monthly: Date.UTC(2025, 1, 28, 15),
+		});
+		expect(getPeriodResetTimes(date)).toEqual({ daily: Date.UTC(2025, 1, 1), monthly: Date.UTC(2025, 1, 1) });
+
+		// New York leaves EST (UTC-5) for EDT (UTC-4) on Mar 9, 2025
+		expect(getPeriodResetTimes(new Date(Date.UTC(2025, 2, 8, 12)), 'America/New_York').daily).toBe(Date.UTC(2025, 2, 9, 5));
+		expect(getPeriodResetTimes(new Date(Date.UTC(2025, 2, 9, 12)), 'America/New_York').daily).toBe(Date.UTC(2025, 2, 10, 4));
+
+		expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+		expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+	});
+
+	it('stores the timezone from init-data and buckets usage in it', async () => {
+		const userId = 'timezone_init_data_user';
+		const token = await tokenFor(userId);
+
+		let response = await call('POST', '/user/init-data', { token, body: { source_language: 'en', timezone: 'Not/AZone' } });
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error.details.parameter).toBe('timezone');
+
+		response = await call('POST', '/user/init-data', { token, body: { source_language: 'en', timezone: 'Asia/Tokyo' } });
+		expect(response.status).toBe(200);
+		expect(await getUserTimeZone(env.logs_db, userId)).toBe('Asia/Tokyo');
+
+		await logUsage(env.logs_db, userId, 'test-model', 10, 10, 5, 'text_translation');
+		const rows = await createDb(env.logs_db).select().from(userUsageStats).where(eq(userUsageStats.userId, userId)).all();
+		const expected = getPeriodKeys(new Date(), 'Asia/Tokyo');
+		expect(rows.find((row) => row.periodType === 'daily')?.periodValue).toBe(expected.daily);
+		expect(rows.find((row) => row.periodType === 'monthly')?.periodValue).toBe(expected.monthly);
+
+		response = await call('GET', '/user/quota', { token });
+		const quota = (await response.json()) as any;
+		expect(quota.timezone).toBe('Asia/Tokyo');
+		expect(quota.resets_at).toEqual(getPeriodResetTimes(new Date(), 'Asia/Tokyo'));
+		expect(quota.quotas.text_translation.daily.used).toBe(1);
+	});
+
+	it('captures the timezone at login and defaults to UTC', async () => {
+		const credential = 'tz0123456789abcdef0123456789abcd';
+		let response = await call('POST', '/login', { body: { credential } });
+		const { user } = (await response.json()) as any;
+		expect(await getUserTimeZone(env.logs_db, user.id)).toBe('UTC');
+
+		response = await call('POST', '/login', { body: { credential, timezone: 'Invalid/Zone' } });
+		expect(response.status).toBe(200);
+		expect(await getUserTimeZone(env.logs_db, user.id)).toBe('UTC');
+
+		response = await call('POST', '/login', { body: { credential, timezone: 'Asia/Shanghai' } });
+		expect(response.status).toBe(200);
+		expect(await getUserTimeZone(env.logs_db, user.id)).toBe('Asia/Shanghai');
+	});
+
+	it('lets the timezone change only once per interval', async () => {
+		const userId = 'timezone_change_user';
+		const token = await tokenFor(userId);
+
+		expect((await call('POST', '/user/init-data', { token, body: { source_language: 'en', timezone: 'Pacific/Kiritimati' } })).status).toBe(
+			200,
+		);
+		// Reporting the same zone again is not a change
+		expect((await call('POST', '/user/init-data', { token, body: { source_language: 'en', timezone: 'Pacific/Kiritimati' } })).status).toBe(
+			200,
+		);
+
+		// A refused change still saves the rest of the data
+		let response = await call('POST', '/user/init-data', { token, body: { source_language: 'fr', timezone: 'Pacific/Pago_Pago' } });
+		expect(response.status).toBe(200);
+		const body = (await response.json()) as any;
+		expect(body.success).toBe(true);
+		expect(body.timezone_next_change_at).toBeGreaterThan(Date.now() + 29 * 24 * 3600 * 1000);
+		expect(await getUserTimeZone(env.logs_db, userId)).toBe('Pacific/Kiritimati');
+		const initData = await createDb(env.users_db).select().from(userInitData).where(eq(userInitData.userId, userId)).get();
+		expect(initData?.sourceLanguage).toBe('fr');
+
+		// Once the interval has passed the zone moves
+		await createDb(env.logs_db)
+			.update(userTimezones)
+			.set({ updatedAt: Date.now() - 31 * 24 * 3600 * 1000 })
+			.where(eq(userTimezones.userId, userId))
+			.execute();
+		response = await call('POST', '/user/init-data', { token, body: { source_language: 'en', timezone: 'Pacific/Pago_Pago' } });
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).timezone_next_change_at).toBeUndefined();
+		expect(await getUserTimeZone(env.logs_db, userId)).toBe('Pacific/Pago_Pago');
+	});
+});
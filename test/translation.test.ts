@@ -63,6 +63,8 @@ describe('Text Translation API', () => {
 				sourceLang: 'en-US',
 				targetLang: 'zh-CN',
 				resultJson: resultJson,
+				model: 'gemini-3-flash-preview',
+				promptVersion: 'text@v1',
 				createdAt: Date.now(),
 			})
 			.execute();
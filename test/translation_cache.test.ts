@@ -0,0 +1,127 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { translations } from '../src/db/schema';
+import { eq } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function openRouterSseStream(text: string) {
+	const chunks = [
+		`data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`,
+		`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost: 0.0001 } })}\n\n`,
+		'data: [DONE]\n\n',
+	];
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(new TextEncoder().encode(chunk));
+			}
+			controller.close();
+		},
+	});
+}
+
+function parseDoneFrame(body: string) {
+	const frame = body.split('\n\n').find((f) => f.startsWith('event: done'));
+	return frame ? JSON.parse(frame.split('\n')[1].slice(6)) : null;
+}
+
+describe('Translation Cache (OpenRouter endpoints)', () => {
+	let validToken: string;
+	const userId = 'test_user_translation_cache';
+
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+
+		const payload = {
+			uid: userId,
+			exp: Math.floor(Date.now() / 1000) + 3600,
+		};
+		validToken = await sign(payload, env.JWT_SECRET);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('caches a smart translation once the stream completes and serves it without auth', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(new Response(openRouterSseStream('[[SENTENCE]]\nBonjour le monde')));
+
+		const body = JSON.stringify({ text: 'cache_smart_hello_world', source_language: 'en', target_language: 'fr' });
+
+		let ctx = createExecutionContext();
+		let response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/smart_text', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}` },
+				body,
+			}),
+			env,
+			ctx,
+		);
+		expect(await response.text()).toContain('Bonjour le monde');
+		await waitOnExecutionContext(ctx);
+
+		const db = createDb(env.words_db);
+		const rows = await db.select().from(translations).where(eq(translations.sourceText, 'cache_smart_hello_world')).all();
+		expect(rows.length).toBe(1);
+		expect(rows[0].endpoint).toBe('smart_translation');
+		expect(rows[0].model).toBe('qwen/qwen3-235b-a22b-2507');
+		expect(rows[0].promptVersion).toBe('smart@v1');
+
+		// Second request: no token, no upstream call
+		ctx = createExecutionContext();
+		response = await worker.fetch(new IncomingRequest('http://example.com/translation/smart_text', { method: 'POST', body }), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		const text = await response.text();
+		expect(text).toContain('Bonjour le monde');
+		expect(parseDoneFrame(text)).toMatchObject({ cached: true, model: 'qwen/qwen3-235b-a22b-2507' });
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+		// Same text and languages on the long text endpoint is a miss and requires auth
+		ctx = createExecutionContext();
+		response = await worker.fetch(new IncomingRequest('http://example.com/translation/longtext', { method: 'POST', body }), env, ctx);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(401);
+	});
+
+	it('does not cache a stream that broke mid-way', async () => {
+		const fetchSpy = vi.spyOn(global, 'fetch');
+		fetchSpy.mockResolvedValueOnce(
+			new Response(
+				new ReadableStream({
+					start(controller) {
+						controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`));
+						controller.error(new Error('connection reset'));
+					},
+				}),
+			),
+		);
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest('http://example.com/translation/longtext', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${validToken}` },
+				body: JSON.stringify({ text: 'cache_broken_stream', source_language: 'en', target_language: 'fr' }),
+			}),
+			env,
+			ctx,
+		);
+		await response.text();
+		await waitOnExecutionContext(ctx);
+
+		const db = createDb(env.words_db);
+		const rows = await db.select().from(translations).where(eq(translations.sourceText, 'cache_broken_stream')).all();
+		expect(rows.length).toBe(0);
+	});
+});
@@ -5,6 +5,8 @@ import worker from '../src/index';
 import { createDb } from '../src/db';
 import { ttsLogs, usageLogs } from '../src/db/schema';
 import { sign } from '../src/utils/jwt';
+import { calculateHash } from '../src/services/speech';
+import { eq } from 'drizzle-orm';
 
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
@@ -72,7 +74,9 @@ describe('TTS API', () => {
 		const response = await worker.fetch(request, env, ctx);
 		await waitOnExecutionContext(ctx);
 		expect(response.status).toBe(400);
-		expect(await response.text()).toContain('Only "Kore" voice is supported');
+		const body = (await response.json()) as any;
+		expect(body.error.code).toBe('VOICE_NOT_AVAILABLE');
+		expect(body.error.details.voices).toContain('Puck');
 	});
 
 	it('successfully generates audio and logs usage', async () => {
@@ -330,4 +334,55 @@ describe('TTS API', () => {
 		const langs = relevantLogs.map((l) => l.languageCode).sort();
 		expect(langs).toEqual(['en-US', 'ja-JP', 'zh-CN']);
 	});
+
+	it('does not serve audio generated with another prompt version', async () => {
+		const text = 'Old prompt text';
+		const db = createDb(env.words_db);
+		await db.insert(ttsLogs).values({
+			id: 'old_prompt_log',
+			userId,
+			inputTokens: 10,
+			outputTokens: 100,
+			text,
+			costMicros: 1,
+			textHash: await calculateHash(text),
+			voiceName: 'Kore',
+			modelName: 'gemini-2.5-flash-preview-tts',
+			url: 'r2://tts/old_prompt.wav',
+			promptVersion: 'tts@v0',
+			createdAt: Date.now(),
+		});
+
+		const call = async (headers: Record<string, string>) => {
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest('http://example.com/translation/tts', {
+					method: 'POST',
+					headers,
+					body: JSON.stringify({ text, voiceName: 'Kore' }),
+				}),
+				env,
+				ctx,
+			);
+			await waitOnExecutionContext(ctx);
+			return response;
+		};
+
+		// Not a cache hit, so anonymous callers are asked to sign in
+		expect((await call({})).status).toBe(401);
+
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(200, {
+				candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: 'AAAA' } }] } }],
+				usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 100 },
+			});
+		const response = await call({ Authorization: `Bearer ${validToken}` });
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).audio_url).not.toContain('old_prompt');
+
+		const logs = await db.select().from(ttsLogs).where(eq(ttsLogs.text, text)).execute();
+		expect(logs.map((log) => log.promptVersion).sort()).toEqual(['tts@v0', 'tts@v1']);
+	});
 });
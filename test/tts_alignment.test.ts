@@ -0,0 +1,137 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { ttsLogs, usageLogs } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { eq } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('TTS alignment', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	async function call(method: string, path: string, init: { token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.token ? { Authorization: `Bearer ${init.token}` } : {},
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	// 100ms per prompt: 20ms of silence, 60ms of sound, 20ms of silence
+	const view = new DataView(new ArrayBuffer(2400 * 2));
+	for (let i = 480; i < 1920; i++) view.setInt16(i * 2, i % 2 ? 4000 : -4000, true);
+	const speechBase64 = btoa(String.fromCharCode(...new Uint8Array(view.buffer)));
+
+	function mockGeminiTts(times: number) {
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(200, {
+				candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: speechBase64 } }] } }],
+				usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 100 },
+			})
+			.times(times);
+	}
+
+	const text = 'Good morning, everyone. See you soon.';
+	const expectedAlignment = {
+		version: 1,
+		method: 'segment_pcm',
+		word_timing: 'estimated',
+		duration_ms: 200,
+		sentences: [
+			{
+				index: 0,
+				text: 'Good morning, everyone.',
+				start_ms: 0,
+				end_ms: 100,
+				words: [
+					{ text: 'Good', start_ms: 20, end_ms: 33 },
+					{ text: 'morning', start_ms: 33, end_ms: 55 },
+					{ text: 'everyone', start_ms: 55, end_ms: 80 },
+				],
+			},
+			{
+				index: 1,
+				text: 'See you soon.',
+				start_ms: 100,
+				end_ms: 200,
+				words: [
+					{ text: 'See', start_ms: 120, end_ms: 138 },
+					{ text: 'you', start_ms: 138, end_ms: 156 },
+					{ text: 'soon', start_ms: 156, end_ms: 180 },
+				],
+			},
+		],
+	};
+
+	it('returns and stores sentence and word timings', async () => {
+		const userId = 'tts_alignment_user';
+		const token = await tokenFor(userId);
+
+		let response = await call('POST', '/translation/tts', { token, body: { text, alignment: 'yes' } });
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error.details).toEqual({ parameter: 'alignment', expected: 'a boolean' });
+
+		mockGeminiTts(2);
+		response = await call('POST', '/translation/tts', { token, body: { text, languageCode: 'en-US', alignment: true } });
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).alignment).toEqual(expectedAlignment);
+
+		const [log] = await createDb(env.words_db).select().from(ttsLogs).where(eq(ttsLogs.text, text)).all();
+		expect(log.alignmentUrl).toMatch(/^r2:\/\/tts\/tts_alignment_user\/.+\.alignment\.json$/);
+		const stored = await env.TTS_BUCKET.get(log.alignmentUrl!.substring(5));
+		expect(await stored!.json()).toEqual(expectedAlignment);
+
+		// Cached for anyone, with or without the alignment
+		response = await call('POST', '/translation/tts', { body: { text, languageCode: 'en-US', alignment: true } });
+		expect(((await response.json()) as any).alignment).toEqual(expectedAlignment);
+		response = await call('POST', '/translation/tts', { body: { text, languageCode: 'en-US' } });
+		expect(await response.json()).toEqual({ audio_url: expect.any(String) });
+	});
+
+	it('aligns audio that was cached without an alignment at no cost', async () => {
+		const userId = 'tts_alignment_cached';
+		const token = await tokenFor(userId);
+
+		mockGeminiTts(1);
+		expect((await call('POST', '/translation/tts', { token, body: { text: 'See you soon.', languageCode: 'en-US' } })).status).toBe(200);
+
+		// The cached audio has no alignment, so this is a miss that needs a user, but its one sentence is in the cache
+		expect(
+			(await call('POST', '/translation/tts', { body: { text: 'See you soon.', languageCode: 'en-US', alignment: true } })).status,
+		).toBe(401);
+		const response = await call('POST', '/translation/tts', {
+			token,
+			body: { text: 'See you soon.', languageCode: 'en-US', alignment: true },
+		});
+		const body = (await response.json()) as any;
+		expect(body.segments).toEqual([{ index: 0, text: 'See you soon.', start_ms: 0, end_ms: 100, cached: true }]);
+		expect(body.alignment.sentences[0].words.map((word: any) => word.start_ms)).toEqual([20, 38, 56]);
+
+		const usage = await createDb(env.logs_db).select().from(usageLogs).where(eq(usageLogs.userId, userId)).all();
+		expect(usage).toHaveLength(1);
+	});
+});
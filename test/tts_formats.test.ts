@@ -0,0 +1,304 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { ttsLogs } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { encodeFlac } from '../src/utils/flac';
+import { encodePcm, readWavPcm } from '../src/utils/audio_formats';
+import opusWasm from '@evan/opus/wasm/opus.wasm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+// Minimal FLAC reader for what encodeFlac writes (mono, 16-bit, constant/verbatim/fixed subframes), checking both CRCs
+function decodeFlac(bytes: Uint8Array): { sampleRate: number; totalSamples: number; samples: number[] } {
+	let bit = 0;
+	const read = (count: number) => {
+		let value = 0;
+		for (let i = 0; i < count; i++, bit++) value = value * 2 + ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+		return value;
+	};
+	const readSigned = (count: number) => {
+		const value = read(count);
+		return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+	};
+	const crc = (start: number, end: number, poly: number, width: number) => {
+		let value = 0;
+		for (let i = start; i < end; i++) {
+			value ^= bytes[i] << (width - 8);
+			for (let b = 0; b < 8; b++)
+				value = value & (1 << (width - 1)) ? ((value << 1) ^ poly) & ((1 << width) - 1) : (value << 1) & ((1 << width) - 1);
+		}
+		return value;
+	};
+
+	expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+	bit = 32 + 8 + 24 + 16 + 16 + 24 + 24;
+	const sampleRate = read(20);
+	expect(read(3)).toBe(0);
+	expect(read(5)).toBe(15);
+	const totalSamples = read(36);
+	bit += 128;
+
+	const samples: number[] = [];
+	while (bit < bytes.length * 8) {
+		const frameStart = bit >> 3;
+		expect(read(14)).toBe(0b11111111111110);
+		read(2);
+		const blockSizeCode = read(4);
+		read(4 + 4 + 3 + 1);
+		// UTF-8 coded frame number: one continuation byte per extra leading 1
+		const lead = read(8);
+		for (let mask = 0x40; lead & 0x80 && lead & mask; mask >>= 1) read(8);
+		const blockSize = blockSizeCode === 0b1100 ? 4096 : read(16) + 1;
+		// The CRC covers the header up to, not including, itself
+		expect(read(8)).toBe(crc(frameStart, (bit >> 3) - 1, 0x07, 8));
+
+		read(1);
+		const type = read(6);
+		read(1);
+		const block: number[] = [];
+		if (type === 0) {
+			const value = readSigned(16);
+			for (let i = 0; i < blockSize; i++) block.push(value);
+		} else if (type === 1) {
+			for (let i = 0; i < blockSize; i++) block.push(readSigned(16));
+		} else {
+			const order = type & 0b111;
+			for (let i = 0; i < order; i++) block.push(readSigned(16));
+			expect(read(2)).toBe(0);
+			const partitionOrder = read(4);
+			for (let p = 0; p < 1 << partitionOrder; p++) {
+				const k = read(4);
+				const count = (blockSize >> partitionOrder) - (p === 0 ? order : 0);
+				for (let i = 0; i < count; i++) {
+					let q = 0;
+					while (read(1) === 0) q++;
+					const u = q * 2 ** k + read(k);
+					const residual = u % 2 ? -(u + 1) / 2 : u / 2;
+					const s = block;
+					const n = s.length;
+					const prediction = [
+						0,
+						s[n - 1],
+						2 * s[n - 1] - s[n - 2],
+						3 * s[n - 1] - 3 * s[n - 2] + s[n - 3],
+						4 * s[n - 1] - 6 * s[n - 2] + 4 * s[n - 3] - s[n - 4],
+					][order];
+					block.push(prediction + residual);
+				}
+			}
+		}
+		bit = Math.ceil(bit / 8) * 8;
+		expect(read(16)).toBe(crc(frameStart, (bit >> 3) - 2, 0x8005, 16));
+		samples.push(...block);
+	}
+	return { sampleRate, totalSamples, samples };
+}
+
+// Splits an Ogg/Opus file into its packets, checking each page's CRC, and decodes them back to 24kHz samples with libopus
+function decodeOggOpus(bytes: Uint8Array): { preSkip: number; sampleRate: number; granule: number; samples: number[] } {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const packets: Uint8Array[] = [];
+	let granule = 0;
+	let partial: number[] = [];
+	for (let offset = 0; offset < bytes.length;) {
+		expect(String.fromCharCode(...bytes.subarray(offset, offset + 4))).toBe('OggS');
+		const segments = bytes[offset + 26];
+		const lacing = bytes.subarray(offset + 27, offset + 27 + segments);
+		const end = offset + 27 + segments + lacing.reduce((sum, size) => sum + size, 0);
+		const page = bytes.slice(offset, end);
+		const crc = view.getUint32(offset + 22, true);
+		page.fill(0, 22, 26);
+		let value = 0;
+		for (const byte of page) {
+			value ^= byte << 24;
+			for (let b = 0; b < 8; b++) value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+		}
+		expect(value >>> 0).toBe(crc);
+		granule = Number(view.getBigUint64(offset + 6, true));
+		let data = offset + 27 + segments;
+		for (const size of lacing) {
+			partial.push(...bytes.subarray(data, data + size));
+			data += size;
+			if (size < 255) {
+				packets.push(new Uint8Array(partial));
+				partial = [];
+			}
+		}
+		offset = end;
+	}
+
+	const [head, tags, ...audio] = packets;
+	expect(String.fromCharCode(...head.subarray(0, 8))).toBe('OpusHead');
+	expect(String.fromCharCode(...tags.subarray(0, 8))).toBe('OpusTags');
+	const headView = new DataView(head.buffer);
+	const preSkip = headView.getUint16(10, true);
+
+	const wasm = new WebAssembly.Instance(opusWasm, {
+		wasi_snapshot_preview1: { fd_seek: () => 0, fd_write: () => 0, fd_close: () => 0, proc_exit: () => {} },
+		env: { emscripten_notify_memory_growth: () => {} },
+	}).exports as any;
+	const decoder = wasm.malloc(wasm.opus_decoder_get_size(1));
+	expect(wasm.opus_decoder_init(decoder, 24000, 1)).toBe(0);
+	const packetPtr = wasm.malloc(4000);
+	const pcmPtr = wasm.malloc(5760 * 2);
+	const samples: number[] = [];
+	for (const packet of audio) {
+		new Uint8Array(wasm.memory.buffer).set(packet, packetPtr);
+		const count = wasm.opus_decode(decoder, packetPtr, packet.length, pcmPtr, 5760, 0);
+		expect(count).toBeGreaterThan(0);
+		samples.push(...new Int16Array(wasm.memory.buffer, pcmPtr, count));
+	}
+	return { preSkip, sampleRate: headView.getUint32(12, true), granule, samples };
+}
+
+function toPcm(samples: number[]): Uint8Array {
+	const view = new DataView(new ArrayBuffer(samples.length * 2));
+	samples.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+	return new Uint8Array(view.buffer);
+}
+
+describe('TTS audio formats', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	async function call(method: string, path: string, init: { headers?: Record<string, string>; token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.headers ?? (init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	// A second of a decaying 440Hz tone with a silent tail, base64 as Gemini sends it
+	const tone = Array.from({ length: 24000 }, (_, i) =>
+		i < 20000 ? Math.round(12000 * Math.sin((2 * Math.PI * 440 * i) / 24000) * Math.exp(-i / 12000)) | 0 : 0,
+	);
+	const toneBase64 = btoa(String.fromCharCode(...toPcm(tone)));
+
+	function mockGeminiTts() {
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(200, {
+				candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: toneBase64 } }] } }],
+				usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 100 },
+			});
+	}
+
+	it('encodes FLAC losslessly and smaller than WAV', () => {
+		const noise = Array.from({ length: 5000 }, (_, i) => ((i * 7919) % 65536) - 32768);
+		for (const samples of [tone, noise, [5], []]) {
+			const flac = encodeFlac(toPcm(samples), 24000);
+			expect(decodeFlac(flac)).toEqual({ sampleRate: 24000, totalSamples: samples.length, samples });
+		}
+		expect(encodeFlac(toPcm(tone), 24000).length).toBeLessThan(encodePcm(toPcm(tone), 'wav', 24000).length / 2);
+
+		const wav = encodePcm(toPcm(tone), 'wav', 24000);
+		expect(readWavPcm(wav)).toEqual({ pcm: toPcm(tone), sampleRate: 24000 });
+		expect(readWavPcm(new Uint8Array(16))).toBeNull();
+	});
+
+	it('encodes Ogg/Opus at a fraction of the WAV size', () => {
+		const opus = encodePcm(toPcm(tone), 'opus', 24000);
+		expect(opus.length).toBeLessThan(encodePcm(toPcm(tone), 'wav', 24000).length / 10);
+
+		const { preSkip, sampleRate, granule, samples } = decodeOggOpus(opus);
+		expect(sampleRate).toBe(24000);
+		// Granules count 48kHz samples: the final one trims the decoded audio back to the input's length
+		expect(granule).toBe(preSkip + tone.length * 2);
+		expect(samples.length).toBeGreaterThanOrEqual(preSkip / 2 + tone.length);
+		// Lossy, and not sample-exact: the decoded tone may be a couple of samples early or late
+		const energy = (values: number[]) => values.reduce((sum, value) => sum + value * value, 0);
+		const errors = [-3, -2, -1, 0, 1, 2, 3].map((shift) => energy(tone.map((value, i) => (samples[preSkip / 2 + shift + i] ?? 0) - value)));
+		expect(Math.min(...errors)).toBeLessThan(energy(tone) / 20);
+
+		expect(decodeOggOpus(encodePcm(new Uint8Array(0), 'opus', 24000)).granule).toBeGreaterThan(0);
+	});
+
+	it('generates, caches and serves each format separately', async () => {
+		const token = await tokenFor('tts_formats_user');
+
+		let response = await call('POST', '/translation/tts', { token, body: { text: 'format text', format: 'mp3' } });
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error.details).toEqual({ parameter: 'format', expected: ['wav', 'flac', 'opus'] });
+
+		mockGeminiTts();
+		response = await call('POST', '/translation/tts2', { token, body: { text: 'format text', format: 'flac' } });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('audio/flac');
+		expect(decodeFlac(new Uint8Array(await response.arrayBuffer())).samples).toEqual(tone);
+
+		// /translation/tts reuses the FLAC that tts2 stored
+		response = await call('POST', '/translation/tts', { body: { text: 'format text', format: 'flac' } });
+		const { audio_url } = (await response.json()) as any;
+		expect(audio_url).toContain('&format=flac');
+
+		// The WAV of the same text is not served from the FLAC entry
+		expect((await call('POST', '/translation/tts', { body: { text: 'format text' } })).status).toBe(401);
+
+		const url = new URL(audio_url);
+		const preview = await call('GET', url.pathname + url.search);
+		expect(preview.headers.get('Content-Type')).toBe('audio/flac');
+		expect(decodeFlac(new Uint8Array(await preview.arrayBuffer())).samples).toEqual(tone);
+
+		const logs = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(logs.map((log) => log.format)).toEqual(['flac']);
+		expect(logs.every((log) => log.url?.endsWith('.flac'))).toBe(true);
+	});
+
+	it('backfills FLAC copies of existing WAV audio', async () => {
+		const adminHeaders = { Authorization: 'Bearer test-admin-key', 'Content-Type': 'application/json' };
+		const token = await tokenFor('tts_formats_backfill');
+		for (const text of ['first line', 'second line', 'third line']) {
+			mockGeminiTts();
+			expect((await call('POST', '/translation/tts', { token, body: { text } })).status).toBe(200);
+		}
+
+		let response = await call('POST', '/admin/tts/transcode', { headers: adminHeaders, body: { format: 'wav' } });
+		expect(response.status).toBe(400);
+
+		response = await call('POST', '/admin/tts/transcode', { headers: adminHeaders, body: { format: 'flac', limit: 2 } });
+		let body = (await response.json()) as any;
+		expect(body).toMatchObject({ format: 'flac', transcoded: 2, skipped: 0, failed: 0 });
+		expect(body.next_cursor).toEqual(expect.any(String));
+
+		response = await call('POST', '/admin/tts/transcode', { headers: adminHeaders, body: { format: 'flac', cursor: body.next_cursor } });
+		body = (await response.json()) as any;
+		expect(body).toMatchObject({ transcoded: 1, next_cursor: null });
+
+		// Running it again finds every WAV already has a FLAC copy
+		response = await call('POST', '/admin/tts/transcode', { headers: adminHeaders, body: { format: 'flac' } });
+		expect(await response.json()).toMatchObject({ transcoded: 0, skipped: 3, next_cursor: null });
+
+		// The copies are cache hits for anyone, and the WAVs are still served
+		for (const format of ['flac', 'wav']) {
+			response = await call('POST', '/translation/tts', { body: { text: 'second line', format } });
+			expect(response.status).toBe(200);
+			const url = new URL(((await response.json()) as any).audio_url);
+			const preview = await call('GET', url.pathname + url.search);
+			expect(preview.headers.get('Content-Type')).toBe(`audio/${format}`);
+			const audio = new Uint8Array(await preview.arrayBuffer());
+			expect(format === 'flac' ? decodeFlac(audio).samples : readWavPcm(audio)?.pcm).toEqual(format === 'flac' ? tone : toPcm(tone));
+		}
+	});
+});
@@ -0,0 +1,179 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { ttsLogs, usageLogs } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { splitSentences } from '../src/utils/segmentation';
+import { readWavPcm } from '../src/utils/audio_formats';
+import { eq } from 'drizzle-orm';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Long-text TTS', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		vi.restoreAllMocks();
+	});
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	async function call(method: string, path: string, init: { token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.token ? { Authorization: `Bearer ${init.token}` } : {},
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	// 100ms of silence per prompt: 2400 samples of 16-bit PCM
+	function mockGeminiTts(times: number) {
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(200, {
+				candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: 'A'.repeat(6400) } }] } }],
+				usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 100 },
+			})
+			.times(times);
+	}
+
+	const sentences = [
+		'The library opens at nine in the morning and closes late on weekdays.',
+		'Visitors can borrow up to ten books at a time with a valid card.',
+		'Study rooms on the second floor must be booked a day in advance.',
+		'Please keep your voice down and silence your phone while inside the reading hall.',
+		'Lost cards can be replaced at the front desk for a small fee.',
+	];
+	const paragraph = sentences.join(' ');
+
+	it('splits text into sentences with the rules of its language', () => {
+		expect(splitSentences(paragraph, 300, 'en-US')).toEqual(sentences);
+		expect(splitSentences('今天天气很好。我们去公园吧！你觉得呢？', 300, 'zh-CN')).toEqual([
+			'今天天气很好。',
+			'我们去公园吧！',
+			'你觉得呢？',
+		]);
+		// Over-long sentences are cut at clause breaks, then at spaces
+		expect(splitSentences('First part of it, second part of it, third part.', 20, 'en')).toEqual([
+			'First part of it,',
+			'second part of it,',
+			'third part.',
+		]);
+		expect(splitSentences('one two three four five six', 10)).toEqual(['one two', 'three four', 'five six']);
+		// Nothing to say on its own
+		expect(splitSentences('He left. …', 300, 'en')).toEqual(['He left. …']);
+	});
+
+	it('stitches sentences, reusing cached ones, and returns their timings', async () => {
+		const userId = 'tts_long_user';
+		const token = await tokenFor(userId);
+
+		mockGeminiTts(1);
+		expect((await call('POST', '/translation/tts', { token, body: { text: sentences[1], languageCode: 'en-US' } })).status).toBe(200);
+
+		mockGeminiTts(4);
+		let response = await call('POST', '/translation/tts', { token, body: { text: paragraph, languageCode: 'en-US' } });
+		expect(response.status).toBe(200);
+		let body = (await response.json()) as any;
+		expect(body.segments).toEqual(
+			sentences.map((text, index) => ({ index, text, start_ms: index * 100, end_ms: (index + 1) * 100, cached: index === 1 })),
+		);
+
+		const url = new URL(body.audio_url);
+		const preview = await call('GET', url.pathname + url.search);
+		expect(readWavPcm(new Uint8Array(await preview.arrayBuffer()))!.pcm.length).toBe(5 * 4800);
+
+		// Every sentence is now its own cache entry, and the paragraph one is free
+		const logs = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(logs.map((log) => log.text).sort()).toEqual([...sentences, paragraph].sort());
+		expect(logs.find((log) => log.text === paragraph)?.costMicros).toBe(0);
+
+		const usage = await createDb(env.logs_db).select().from(usageLogs).where(eq(usageLogs.userId, userId)).all();
+		expect(usage.map((log) => log.outputTokens)).toEqual([100, 400]);
+
+		// Served from the cache without auth, timings included
+		response = await call('POST', '/translation/tts', { body: { text: paragraph, languageCode: 'en-US' } });
+		body = (await response.json()) as any;
+		expect(body.segments).toHaveLength(5);
+		expect(body.segments[4].end_ms).toBe(500);
+	});
+
+	it('stitches long text in /translation/tts2 too', async () => {
+		const token = await tokenFor('tts2_long_user');
+
+		let response = await call('POST', '/translation/tts2', { token, body: { text: 'a'.repeat(5001) } });
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error.code).toBe('TEXT_TOO_LONG');
+
+		mockGeminiTts(5);
+		response = await call('POST', '/translation/tts2', { token, body: { text: paragraph, languageCode: 'en-US', stream: true } });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('audio/wav');
+		expect(readWavPcm(new Uint8Array(await response.arrayBuffer()))!.pcm.length).toBe(5 * 4800);
+
+		const log = await createDb(env.words_db).select().from(ttsLogs).where(eq(ttsLogs.text, paragraph)).get();
+		expect(log).toMatchObject({ status: 'completed', costMicros: 0 });
+
+		// Its timings are there for /translation/tts
+		response = await call('POST', '/translation/tts', { body: { text: paragraph, languageCode: 'en-US' } });
+		expect(((await response.json()) as any).segments).toHaveLength(5);
+	});
+
+	it('reports storage failures and lets /translation/tts2 retry them', async () => {
+		const token = await tokenFor('tts_long_storage');
+		const put = vi.spyOn(env.TTS_BUCKET, 'put').mockRejectedValue(new Error('R2 is down'));
+
+		mockGeminiTts(5);
+		let response = await call('POST', '/translation/tts', { token, body: { text: paragraph, languageCode: 'en-US' } });
+		expect(response.status).toBe(500);
+		expect(((await response.json()) as any).error).toMatchObject({ code: 'INTERNAL_ERROR', details: { reason: 'R2 is down' } });
+
+		mockGeminiTts(5);
+		response = await call('POST', '/translation/tts2', { token, body: { text: paragraph, languageCode: 'en-US' } });
+		expect(response.status).toBe(500);
+		expect(((await response.json()) as any).error.code).toBe('INTERNAL_ERROR');
+		const log = await createDb(env.words_db).select().from(ttsLogs).where(eq(ttsLogs.text, paragraph)).get();
+		expect(log?.status).toBe('failed');
+
+		put.mockRestore();
+		mockGeminiTts(5);
+		response = await call('POST', '/translation/tts2', { token, body: { text: paragraph, languageCode: 'en-US' } });
+		expect(response.status).toBe(200);
+		expect(readWavPcm(new Uint8Array(await response.arrayBuffer()))!.pcm.length).toBe(5 * 4800);
+	});
+
+	it('rejects text over the limit and reports the failing sentence', async () => {
+		const token = await tokenFor('tts_long_failure');
+
+		let response = await call('POST', '/translation/tts', { token, body: { text: 'a'.repeat(5001) } });
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error).toMatchObject({ code: 'TEXT_TOO_LONG', details: { max_length: 5000 } });
+
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(500, 'boom')
+			.persist();
+		response = await call('POST', '/translation/tts', { token, body: { text: paragraph } });
+		expect(response.status).toBe(502);
+		const error = ((await response.json()) as any).error;
+		expect(error.details).toMatchObject({ upstream_status: 500, reason: 'boom', segment: expect.any(Number) });
+	});
+});
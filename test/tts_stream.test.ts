@@ -0,0 +1,103 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { ttsLogs } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { readWavPcm } from '../src/utils/audio_formats';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('Streaming TTS', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	// Streamed bodies are only produced while they are read, so the execution context is awaited after the body
+	async function call(method: string, path: string, init: { token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.token ? { Authorization: `Bearer ${init.token}` } : {},
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		const body = await response.arrayBuffer().then(
+			(buffer) => new Uint8Array(buffer),
+			() => null,
+		);
+		await waitOnExecutionContext(ctx);
+		return { response, body };
+	}
+
+	function mockGeminiStream(chunks: Uint8Array[]) {
+		const events = chunks.map((chunk) =>
+			JSON.stringify({
+				candidates: [
+					{ content: { parts: [{ inlineData: { mimeType: 'audio/L16;rate=24000', data: btoa(String.fromCharCode(...chunk)) } }] } },
+				],
+			}),
+		);
+		events.push(
+			JSON.stringify({ candidates: [{ finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 300 } }),
+		);
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:streamGenerateContent\?alt=sse/, method: 'POST' })
+			.reply(200, events.map((event) => `data: ${event}\r\n\r\n`).join(''));
+	}
+
+	const chunks = [new Uint8Array([1, 0, 2, 0]), new Uint8Array([3, 0, 4, 0, 5, 0]), new Uint8Array([6, 0])];
+
+	it('streams PCM behind a WAV header and caches the whole clip', async () => {
+		const token = await tokenFor('tts_stream_user');
+
+		let { response, body } = await call('POST', '/translation/tts2', { token, body: { text: 'stream me', stream: true, format: 'flac' } });
+		expect(response.status).toBe(400);
+
+		mockGeminiStream(chunks);
+		({ response, body } = await call('POST', '/translation/tts2', { token, body: { text: 'stream me', stream: true } }));
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('audio/wav');
+		const view = new DataView(body!.buffer);
+		expect(String.fromCharCode(...body!.subarray(0, 4))).toBe('RIFF');
+		expect(view.getUint32(4, true)).toBe(0xffffffff);
+		expect(Array.from(body!.subarray(44))).toEqual([1, 0, 2, 0, 3, 0, 4, 0, 5, 0, 6, 0]);
+
+		const [log] = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(log).toMatchObject({ status: 'completed', format: 'wav', inputTokens: 12, outputTokens: 300 });
+
+		// The next request is a cache hit whose stored file has real sizes
+		({ response, body } = await call('POST', '/translation/tts2', { body: { text: 'stream me', stream: true } }));
+		const { audio_url } = JSON.parse(new TextDecoder().decode(body!));
+		const url = new URL(audio_url);
+		({ body } = await call('GET', url.pathname + url.search));
+		expect(Array.from(readWavPcm(body!)!.pcm)).toEqual([1, 0, 2, 0, 3, 0, 4, 0, 5, 0, 6, 0]);
+	});
+
+	it('cuts the response off and fails the log when no audio arrives', async () => {
+		const token = await tokenFor('tts_stream_empty');
+
+		mockGeminiStream([]);
+		const { response, body } = await call('POST', '/translation/tts2', { token, body: { text: 'silent', stream: true } });
+		expect(response.status).toBe(200);
+		expect(body).toBeNull();
+
+		const [log] = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(log).toMatchObject({ status: 'failed', url: null });
+	});
+});
@@ -0,0 +1,169 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { ttsLogs, userEntitlements } from '../src/db/schema';
+import { sign } from '../src/utils/jwt';
+import { VOICES } from '../src/config/voices';
+import { clearTierConfigCache } from '../src/services/tiers';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+describe('TTS voices', () => {
+	beforeAll(async () => {
+		await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+		await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+		await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+	});
+
+	afterEach(() => {
+		clearTierConfigCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	const tokenFor = (userId: string) => sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+
+	async function call(method: string, path: string, init: { token?: string; body?: object } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new IncomingRequest(`http://example.com${path}`, {
+				method,
+				headers: init.token ? { Authorization: `Bearer ${init.token}` } : {},
+				body: init.body ? JSON.stringify(init.body) : undefined,
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	function mockGeminiTts() {
+		fetchMock
+			.get('https://generativelanguage.googleapis.com')
+			.intercept({ path: /\/v1beta\/models\/.*:generateContent/, method: 'POST' })
+			.reply(200, {
+				candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: 'AAAAAA==' } }] } }],
+				usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 100 },
+			});
+	}
+
+	it('lists the catalogue with the voices available to the tier', async () => {
+		let body = (await (await call('GET', '/tts/voices')).json()) as any;
+		expect(body.tier).toBe('FREE');
+		expect(body.default_voice).toBe('Kore');
+		expect(body.voices).toHaveLength(VOICES.length);
+		const available = body.voices.filter((voice: any) => voice.available);
+		expect(available.map((voice: any) => voice.name)).toEqual(['Kore', 'Puck']);
+		expect(new Set(available.map((voice: any) => voice.gender))).toEqual(new Set(['female', 'male']));
+		expect(body.voices[0]).toMatchObject({ name: 'Kore', gender: 'female', style: 'Firm' });
+
+		const userId = 'tts_voices_pro';
+		await createDb(env.users_db)
+			.insert(userEntitlements)
+			.values({ userId, entitlementId: 'pro_member', status: 'active', expiresAt: Date.now() + 3600_000 })
+			.execute();
+		body = (await (await call('GET', '/tts/voices', { token: await tokenFor(userId) })).json()) as any;
+		expect(body.tier).toBe('PRO');
+		expect(body.voices.every((voice: any) => voice.available)).toBe(true);
+	});
+
+	it('generates with any voice of the tier and refuses the others', async () => {
+		const token = await tokenFor('tts_voices_free');
+
+		let response = await call('POST', '/translation/tts', { token, body: { text: 'dialogue line', voiceName: 'Charon' } });
+		expect(response.status).toBe(403);
+		const error = ((await response.json()) as any).error;
+		expect(error.code).toBe('VOICE_NOT_IN_TIER');
+		expect(error.details).toEqual({ voice: 'Charon', tier: 'FREE', voices: ['Kore', 'Puck'] });
+
+		mockGeminiTts();
+		response = await call('POST', '/translation/tts', { token, body: { text: 'dialogue line', voiceName: 'Puck' } });
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).audio_url).toContain('&voice=Puck');
+
+		const logs = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(logs.map((log) => log.voiceName)).toEqual(['Puck']);
+	});
+
+	it('keeps the cache per voice', async () => {
+		const token = await tokenFor('tts_voices_cache');
+
+		mockGeminiTts();
+		expect((await call('POST', '/translation/tts', { token, body: { text: 'same text', voiceName: 'Kore' } })).status).toBe(200);
+
+		// The Kore audio is not served for Puck, which has to be generated
+		let response = await call('POST', '/translation/tts', { body: { text: 'same text', voiceName: 'Puck' } });
+		expect(response.status).toBe(401);
+
+		mockGeminiTts();
+		response = await call('POST', '/translation/tts', { token, body: { text: 'same text', voiceName: 'Puck' } });
+		expect(response.status).toBe(200);
+
+		for (const voice of ['Kore', 'Puck']) {
+			response = await call('POST', '/translation/tts', { body: { text: 'same text', voiceName: voice } });
+			expect(response.status).toBe(200);
+			const { audio_url } = (await response.json()) as any;
+			const preview = await call('GET', new URL(audio_url).pathname + new URL(audio_url).search);
+			expect(preview.status).toBe(200);
+			// Drain the R2 body so the object is released before isolated storage is popped
+			await preview.arrayBuffer();
+		}
+		const logs = await createDb(env.words_db).select().from(ttsLogs).all();
+		expect(logs.map((log) => log.voiceName).sort()).toEqual(['Kore', 'Puck']);
+	});
+
+	it('serves cached audio in other voices only to tiers that include them', async () => {
+		const userId = 'tts_voices_cached_pro';
+		await createDb(env.users_db)
+			.insert(userEntitlements)
+			.values({ userId, entitlementId: 'pro_member', status: 'active', expiresAt: Date.now() + 3600_000 })
+			.execute();
+		const proToken = await tokenFor(userId);
+		const body = { text: 'premium line', voiceName: 'Charon' };
+
+		mockGeminiTts();
+		expect((await call('POST', '/translation/tts', { token: proToken, body })).status).toBe(200);
+
+		for (const path of ['/translation/tts', '/translation/tts2']) {
+			let response = await call('POST', path, { body });
+			expect(response.status).toBe(401);
+			expect(((await response.json()) as any).error.code).toBe('AUTH_MISSING');
+
+			response = await call('POST', path, { token: await tokenFor('tts_voices_cached_free'), body });
+			expect(response.status).toBe(403);
+			expect(((await response.json()) as any).error.code).toBe('VOICE_NOT_IN_TIER');
+		}
+
+		// A cache hit for the tier that may use the voice
+		const response = await call('POST', '/translation/tts', { token: proToken, body });
+		expect(response.status).toBe(200);
+		expect(((await response.json()) as any).audio_url).toContain('&voice=Charon');
+	});
+
+	it('checks the live voice against the catalogue and the tier', async () => {
+		const token = await tokenFor('tts_voices_live');
+		const live = async (voice: string) => {
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest(`http://example.com/translation/live?voice=${voice}`, {
+					headers: { Authorization: `Bearer ${token}`, Upgrade: 'websocket' },
+				}),
+				env,
+				ctx,
+			);
+			await waitOnExecutionContext(ctx);
+			return response;
+		};
+
+		let response = await live('Nobody');
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as any).error.code).toBe('VOICE_NOT_AVAILABLE');
+
+		response = await live('Sulafat');
+		expect(response.status).toBe(403);
+		expect(((await response.json()) as any).error.code).toBe('VOICE_NOT_IN_TIER');
+	});
+});
@@ -0,0 +1,189 @@
+import { env, applyD1Migrations, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import worker from '../src/index';
+import { sign } from '../src/utils/jwt';
+// @ts-ignore
+import { createDb } from '../src/db';
+import { translations, usageLogs } from '../src/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { parseWordCard } from '../src/services/word_card';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function openRouterSse(text: string) {
+	return new Response(
+		`data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n` +
+			`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })}\n\n` +
+			'data: [DONE]\n\n',
+	);
+}
+
+function openRouterJson(text: string) {
+	return new Response(
+		JSON.stringify({ choices: [{ message: { content: text } }], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } }),
+	);
+}
+
+function parseFrames(body: string) {
+	return body
+		.split('\n\n')
+		.filter((frame) => frame.trim())
+		.map((frame) => {
+			const lines = frame.split('\n');
+			const event = lines.find((l) => l.startsWith('event: '))?.slice(7) || 'message';
+			const data = JSON.parse(lines.find((l) => l.startsWith('data: '))!.slice(6));
+			return { event, data };
+		});
+}
+
+describe('Word Card Validation', () => {
+	it('repairs fenced output with trailing commas and fills missing fields', () => {
+		const result = parseWordCard(
+			'```json\n{"type": "word", "origin": "apple", "translation": "苹果", "examples": [{"original": "a, b", "translation": "c"},],}\n```',
+		);
+
+		expect(result.error).toBeNull();
+		expect(result.card).toEqual({
+			type: 'word',
+			origin: 'apple',
+			translation: '苹果',
+			kana: null,
+			examples: [{ original: 'a, b', translation: 'c', kana: null }],
+			memory_tip: '',
+			explanation: '',
+			english_word: '',
+		});
+	});
+
+	it('keeps `original` from smart_text cards and uses it as origin', () => {
+		const result = parseWordCard('{"type":"word","original":"apple","translation":"苹果","examples":[{"original":"x"}]}');
+		expect(result.card?.origin).toBe('apple');
+		expect(result.card?.original).toBe('apple');
+		// Incomplete examples are dropped
+		expect(result.card?.examples).toEqual([]);
+	});
+
+	it('rejects output it cannot repair', () => {
+		expect(parseWordCard('Sorry, I cannot help with that').error).toBe('No JSON object found in the response');
+		expect(parseWordCard('{"type":"word","translation":').error).toBe('No JSON object found in the response');
+		expect(parseWordCard('{"type":"word"}').error).toBe('Missing required field "translation"');
+		expect(parseWordCard('{"type":"sentence","translation":"x"}').error).toContain('Expected "type" to be "word"');
+	});
+
+	describe('endpoints', () => {
+		const userId = 'test_user_word_card';
+		let validToken: string;
+
+		beforeAll(async () => {
+			await applyD1Migrations(env.users_db, env.TEST_MIGRATIONS);
+			await applyD1Migrations(env.words_db, env.WORDS_MIGRATIONS);
+			await applyD1Migrations(env.logs_db, env.LOGS_MIGRATIONS);
+			validToken = await sign({ uid: userId, exp: Math.floor(Date.now() / 1000) + 3600 }, env.JWT_SECRET);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		async function translateWord(text: string) {
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest('http://example.com/translation/word', {
+					method: 'POST',
+					headers: { Authorization: `Bearer ${validToken}` },
+					body: JSON.stringify({ text, source_language: 'en', target_language: 'zh' }),
+				}),
+				env,
+				ctx,
+			);
+			const frames = parseFrames(await response.text());
+			await waitOnExecutionContext(ctx);
+			const cached = await createDb(env.words_db).select().from(translations).where(eq(translations.sourceText, text)).all();
+			return { frames, cached };
+		}
+
+		function getUsageRows() {
+			return createDb(env.logs_db)
+				.select()
+				.from(usageLogs)
+				.where(and(eq(usageLogs.userId, userId), eq(usageLogs.endpoint, 'word_translation')))
+				.all();
+		}
+
+		it('sends a single repaired card and caches it', async () => {
+			const fetchSpy = vi.spyOn(global, 'fetch');
+			fetchSpy.mockResolvedValueOnce(openRouterSse('```json\n{"type":"word","origin":"apple","translation":"苹果",}\n```'));
+
+			const { frames, cached } = await translateWord('card_repair_apple');
+
+			const textFrames = frames.filter((f) => f.event === 'message');
+			expect(textFrames.length).toBe(1);
+			const card = JSON.parse(textFrames[0].data.candidates[0].content.parts[0].text);
+			expect(card).toMatchObject({ type: 'word', translation: '苹果', examples: [], kana: null });
+			expect(frames[frames.length - 1].event).toBe('done');
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(cached.length).toBe(1);
+			expect(JSON.parse(cached[0].resultJson)).toEqual(card);
+		});
+
+		it('retries once with the validation error when repair fails', async () => {
+			const fetchSpy = vi.spyOn(global, 'fetch');
+			fetchSpy.mockResolvedValueOnce(openRouterSse('{"type":"word","examples":[]}'));
+			fetchSpy.mockResolvedValueOnce(openRouterJson('{"type":"word","origin":"pear","translation":"梨"}'));
+
+			const { frames, cached } = await translateWord('card_retry_pear');
+
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			const retryBody = JSON.parse(fetchSpy.mock.calls[1][1]!.body as string);
+			expect(retryBody.stream).toBe(false);
+			expect(retryBody.messages[0].content).toContain('Missing required field \\"translation\\"');
+
+			const text = frames.find((f) => f.event === 'message')!.data.candidates[0].content.parts[0].text;
+			expect(JSON.parse(text).translation).toBe('梨');
+			expect(cached.length).toBe(1);
+
+			// The retry is billed with the stream it repaired, as one request
+			const done = frames.find((f) => f.event === 'done')!.data;
+			expect(done.usage).toEqual({ input_tokens: 20, output_tokens: 10, total_tokens: 30 });
+			const usage = await getUsageRows();
+			expect(usage).toMatchObject([{ inputTokens: 20, outputTokens: 10, costMicros: done.cost_micros }]);
+		});
+
+		it('fails with an error frame and caches nothing when the retry is invalid too', async () => {
+			const fetchSpy = vi.spyOn(global, 'fetch');
+			fetchSpy.mockResolvedValueOnce(openRouterSse('not json'));
+			fetchSpy.mockResolvedValueOnce(openRouterJson('still not json'));
+
+			const { frames, cached } = await translateWord('card_invalid_twice');
+
+			expect(frames.some((f) => f.event === 'message')).toBe(false);
+			expect(frames[frames.length - 1].event).toBe('error');
+			expect(frames[frames.length - 1].data.message).toContain('Invalid word card');
+			expect(cached.length).toBe(0);
+			expect(await getUsageRows()).toMatchObject([{ inputTokens: 20, outputTokens: 10 }]);
+		});
+
+		it('streams smart_text sentence mode without validation', async () => {
+			const fetchSpy = vi.spyOn(global, 'fetch');
+			fetchSpy.mockResolvedValueOnce(openRouterSse('[[SENTENCE]]\nBonjour'));
+
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(
+				new IncomingRequest('http://example.com/translation/smart_text', {
+					method: 'POST',
+					headers: { Authorization: `Bearer ${validToken}` },
+					body: JSON.stringify({ text: 'Hello there', source_language: 'en', target_language: 'fr' }),
+				}),
+				env,
+				ctx,
+			);
+			const frames = parseFrames(await response.text());
+			await waitOnExecutionContext(ctx);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(frames[0].data.candidates[0].content.parts[0].text).toBe('[[SENTENCE]]\nBonjour');
+			expect(frames[frames.length - 1].event).toBe('done');
+		});
+	});
+});
@@ -117,6 +117,9 @@ describe('Word Translation API', () => {
 				sourceLang: 'en-US',
 				targetLang: 'zh-CN',
 				resultJson: resultJson,
+				endpoint: 'word_translation',
+				model: 'qwen/qwen3-235b-a22b-2507',
+				promptVersion: 'word@v1',
 				createdAt: Date.now(),
 			})
 			.execute();
@@ -279,7 +282,7 @@ describe('Word Translation API', () => {
 			choices: [{ delta: { content: '{"type":' } }],
 		});
 		const mockOpenRouterChunk2 = JSON.stringify({
-			choices: [{ delta: { content: '"word"}' } }],
+			choices: [{ delta: { content: '"word","translation":"缓冲"}' } }],
 		});
 
 		// Mock SSE stream in OpenRouter format
@@ -330,6 +333,7 @@ describe('Word Translation API', () => {
 			}
 		}
 
-		expect(fullContent).toContain('{"type":"word"}');
+		// Word cards are validated before they are sent, so the chunks arrive as one normalized card
+		expect(JSON.parse(fullContent)).toMatchObject({ type: 'word', translation: '缓冲' });
 	});
 });
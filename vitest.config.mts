@@ -17,6 +17,7 @@ export default defineWorkersConfig(async () => {
 							TEST_MIGRATIONS: usersMigrations,
 							WORDS_MIGRATIONS: wordsMigrations,
 							LOGS_MIGRATIONS: logsMigrations,
+							ADMIN_API_KEY: 'test-admin-key',
 						},
 					},
 				},
@@ -4,11 +4,13 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "LiveSession" | "RateLimiter";
 	}
 	interface Env {
 		GEMINI_API_KEY: string;
 		JWT_SECRET: string;
 		REVENUECAT_WEBHOOK_SECRET: string;
+		ADMIN_API_KEY: string;
 		CLOUDFLARE_GATEWAY_TOKEN: string;
 		OPENROUTER_API_KEY: string;
 		R2_PUBLIC_DOMAIN: string;
@@ -17,6 +19,8 @@ declare namespace Cloudflare {
 		users_db: D1Database;
 		words_db: D1Database;
 		logs_db: D1Database;
+		LIVE_SESSION: DurableObjectNamespace<import("./src/index").LiveSession>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}